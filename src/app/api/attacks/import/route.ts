@@ -0,0 +1,67 @@
+import {
+  ATTACK_FIELDS,
+  FieldMapping,
+  IMPORT_FORMAT_LABELS,
+  ImportFormat,
+  detectImportFormat,
+  importAttacks
+} from '../../../../lib/attackImport';
+import { loadGeoIpDatabase } from '../../../../lib/geoIpDatabase';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+// Content types that name a format on their own
+const CONTENT_TYPE_FORMATS: { [key: string]: ImportFormat } = {
+  'text/csv': 'csv',
+  'application/x-ndjson': 'jsonl',
+  'application/jsonl': 'jsonl',
+  'application/stix+json': 'stix'
+};
+
+const isImportFormat = (value: string | null): value is ImportFormat =>
+  value !== null && Object.hasOwn(IMPORT_FORMAT_LABELS, value);
+
+// POST /api/attacks/import?format=csv&source=src_country&target=dst_country
+// Converts a CSV, JSON Lines or STIX 2.1 body into ThreatAttack records and returns
+// `{ format, attacks, errors }`. The format comes from `format`, the content type or the body itself;
+// for CSV, query parameters named after attack fields override the columns guessed from the header
+// (an empty value leaves the field unmapped). `sourceIp` and `targetIp` are resolved through the GeoIP table.
+export async function POST(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  const requestedFormat = searchParams.get('format');
+  if (requestedFormat !== null && !isImportFormat(requestedFormat)) {
+    return Response.json(
+      { error: `Unknown format "${requestedFormat}", expected one of ${Object.keys(IMPORT_FORMAT_LABELS).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  if (Number(request.headers.get('content-length') ?? 0) > MAX_BODY_BYTES) {
+    return Response.json({ error: 'Import is too large' }, { status: 413 });
+  }
+
+  const text = await request.text();
+  if (text.trim() === '') {
+    return Response.json({ error: 'Empty import' }, { status: 400 });
+  }
+
+  const contentType = request.headers.get('content-type')?.split(';')[0].trim().toLowerCase() ?? '';
+  const format = requestedFormat ??
+    (Object.hasOwn(CONTENT_TYPE_FORMATS, contentType) ? CONTENT_TYPE_FORMATS[contentType] : detectImportFormat('', text));
+
+  const csvMapping: FieldMapping = {};
+  ATTACK_FIELDS.forEach(field => {
+    const column = searchParams.get(field);
+    if (column !== null) csvMapping[field] = column;
+  });
+
+  // Already loaded at startup by the instrumentation hook
+  const geoIp = await loadGeoIpDatabase();
+  const result = importAttacks(text, format, { csvMapping, geoIp });
+
+  return Response.json({ format, ...result });
+}
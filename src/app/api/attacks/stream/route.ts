@@ -0,0 +1,91 @@
+import { createAttackGenerator } from '../../../../lib/attackGenerator';
+import { resolveAttackAddresses } from '../../../../lib/attackImport';
+import { loadGeoIpDatabase } from '../../../../lib/geoIpDatabase';
+
+// Streaming responses must never be cached or prerendered
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const DEFAULT_RATE = 1; // attacks per second
+const MAX_RATE = 50;
+const HEARTBEAT_INTERVAL = 15000;
+
+// GET /api/attacks/stream?rate=2
+// Pushes generated ThreatAttack events to the client as server-sent events. Attacks that only carry
+// `sourceIp` or `targetIp` get their countries from the GeoIP table, like imported ones; those it
+// cannot place are not sent.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const requestedRate = Number(searchParams.get('rate') ?? DEFAULT_RATE);
+  const rate = Number.isFinite(requestedRate) && requestedRate > 0
+    ? Math.min(requestedRate, MAX_RATE)
+    : DEFAULT_RATE;
+
+  const generator = createAttackGenerator();
+  // Already loaded at startup by the instrumentation hook
+  const geoIp = await loadGeoIpDatabase();
+  const encoder = new TextEncoder();
+
+  let attackTimer: ReturnType<typeof setTimeout> | undefined;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearTimeout(attackTimer);
+        clearInterval(heartbeatTimer);
+        try {
+          controller.close();
+        } catch {
+          // Stream was already closed by the runtime
+        }
+      };
+
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close();
+        }
+      };
+
+      // Jitter the interval so the map does not pulse at a fixed cadence
+      const scheduleNext = () => {
+        const delay = (1000 / rate) * (0.5 + Math.random());
+        attackTimer = setTimeout(() => {
+          resolveAttackAddresses([generator.next()], geoIp).forEach(attack => {
+            send(`id: ${attack.id}\nevent: attack\ndata: ${JSON.stringify(attack)}\n\n`);
+          });
+          scheduleNext();
+        }, delay);
+      };
+
+      // Tell EventSource how long to wait before reconnecting
+      send('retry: 3000\n\n');
+      scheduleNext();
+
+      // Comment lines keep proxies from closing an idle connection
+      heartbeatTimer = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+
+      request.signal.addEventListener('abort', close);
+    },
+    cancel() {
+      clearTimeout(attackTimer);
+      clearInterval(heartbeatTimer);
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
@@ -0,0 +1,36 @@
+import { GeoIpLocation } from '../../../lib/geoIp';
+import { loadGeoIpDatabase } from '../../../lib/geoIpDatabase';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const MAX_ADDRESSES = 10000;
+
+// POST /api/geoip with `{ "ips": ["192.0.2.10", "2001:db8::1"] }`
+// Looks the addresses up in the GeoIP table and returns `{ locations }`, keyed by the addresses that were found.
+// Lets the browser resolve the addresses in a file it parsed itself without sending the whole file.
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: 'Expected a JSON body' }, { status: 400 });
+  }
+
+  const ips = (body as { ips?: unknown } | null)?.ips;
+  if (!Array.isArray(ips) || !ips.every(ip => typeof ip === 'string')) {
+    return Response.json({ error: 'Expected "ips" to be a list of addresses' }, { status: 400 });
+  }
+  if (ips.length > MAX_ADDRESSES) {
+    return Response.json({ error: `At most ${MAX_ADDRESSES} addresses per request` }, { status: 413 });
+  }
+
+  // Already loaded at startup by the instrumentation hook
+  const geoIp = await loadGeoIpDatabase();
+  const locations = Object.fromEntries((ips as string[]).flatMap(ip => {
+    const location = geoIp?.lookup(ip);
+    return location ? [[ip, location] as [string, GeoIpLocation]] : [];
+  }));
+
+  return Response.json({ locations });
+}
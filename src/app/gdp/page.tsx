@@ -0,0 +1,34 @@
+'use client';
+
+import React from 'react';
+import dynamic from 'next/dynamic';
+import styles from '../page.module.css';
+
+// Import GdpGrowthMap with SSR disabled to prevent hydration errors
+const GdpGrowthMap = dynamic(() => import('../../component/GdpGrowthMap'), {
+  ssr: false,
+  loading: () => (
+    <div style={{
+      width: '100%',
+      height: '100vh',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      background: '#ffffff'
+    }}>
+      <div style={{ color: '#333', fontSize: '16px' }}>
+        Loading GDP growth map...
+      </div>
+    </div>
+  )
+});
+
+export default function GdpPage() {
+  return (
+    <div className={styles.page}>
+      <main className={styles.main}>
+        <GdpGrowthMap />
+      </main>
+    </div>
+  );
+}
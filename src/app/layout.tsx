@@ -1,6 +1,7 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import { MAP_LOCALES, toMapLocaleName } from "../lib/mapLocales";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -12,6 +13,8 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
+const locale = MAP_LOCALES[toMapLocaleName(process.env.NEXT_PUBLIC_MAP_LOCALE)];
+
 export const metadata: Metadata = {
   title: "Live Cyber Threat Map",
   description: "Real-time visualization of global cyber threats and attacks with animated arcs showing threat vectors between countries",
@@ -23,7 +26,7 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    <html lang={locale.tag} dir={locale.dir}>
       <body className={`${geistSans.variable} ${geistMono.variable}`}>
         {children}
       </body>
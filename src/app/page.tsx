@@ -3,12 +3,16 @@
 import React from 'react';
 import dynamic from 'next/dynamic';
 import styles from './page.module.css';
+import { MAP_LOCALES, toMapLocaleName } from '../lib/mapLocales';
+
+// Language of this deployment (en, ja or ar); users can still pick another from the toolbar
+const DEPLOYMENT_LOCALE = toMapLocaleName(process.env.NEXT_PUBLIC_MAP_LOCALE);
 
 // Import SimpleWorldMap with SSR disabled to prevent hydration errors
 const SimpleWorldMap = dynamic(() => import('../component/SimpleWorldMap'), {
   ssr: false,
   loading: () => (
-    <div style={{
+    <div dir={MAP_LOCALES[DEPLOYMENT_LOCALE].dir} style={{
       width: '100%',
       height: '100vh',
       display: 'flex',
@@ -17,7 +21,7 @@ const SimpleWorldMap = dynamic(() => import('../component/SimpleWorldMap'), {
       background: '#ffffff'
     }}>
       <div style={{ color: '#333', fontSize: '16px' }}>
-        Loading world map...
+        {MAP_LOCALES[DEPLOYMENT_LOCALE].messages.loadingMap}
       </div>
     </div>
   )
@@ -36,7 +40,7 @@ export default function Home() {
         }}>
           Live Cyber Threat Map
         </h1> */}
-        <SimpleWorldMap />
+        <SimpleWorldMap defaultMode="live" syncUrl defaultLocale={DEPLOYMENT_LOCALE} />
       </main>
     </div>
   );
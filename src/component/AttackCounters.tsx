@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { AnimationScheduler } from '../lib/animationScheduler';
+import { computeAttackCounters } from '../lib/attackCounters';
+import { MapLocale, formatNumber } from '../lib/mapLocales';
+import { BADGE_COLORS } from '../lib/mapThemes';
+import { ThreatAttack } from '../types/threat';
+
+interface AttackCountersProps {
+  attacks: ThreatAttack[];
+  // Time the counters are measured back from (epoch ms); follows the wall clock when omitted
+  now?: number;
+  // IANA time zone in which "today" starts at midnight
+  timeZone?: string;
+  scheduler: AnimationScheduler;
+  locale: MapLocale;
+}
+
+const TWEEN_DURATION = 400;
+const FLASH_DURATION = 600;
+const SPARKLINE_WIDTH = 180;
+const SPARKLINE_HEIGHT = 28;
+
+// Counts up or down to `value` on the scheduler clock, so it freezes with the rest of the map
+const useTweenedNumber = (value: number, scheduler: AnimationScheduler) => {
+  const [shown, setShown] = useState(value);
+  const shownRef = useRef(value);
+
+  useEffect(() => {
+    const from = shownRef.current;
+    if (from === value) return;
+
+    let progress = 0;
+    const cancel = scheduler.onFrame((_, elapsed) => {
+      progress = Math.min(progress + elapsed / TWEEN_DURATION, 1);
+      shownRef.current = Math.round(from + (value - from) * d3.easeCubicOut(progress));
+      setShown(shownRef.current);
+      if (progress === 1) cancel();
+    });
+    return cancel;
+  }, [value, scheduler]);
+
+  return shown;
+};
+
+const Counter: React.FC<{ label: string; value: number; scheduler: AnimationScheduler; locale: MapLocale }> = ({ label, value, scheduler, locale }) => {
+  const shown = useTweenedNumber(value, scheduler);
+
+  return (
+    <div style={{ minWidth: '64px' }}>
+      <div style={{ color: BADGE_COLORS.value, fontSize: '20px', fontWeight: 'bold', fontVariantNumeric: 'tabular-nums' }}>
+        {formatNumber(locale, shown)}
+      </div>
+      <div style={{ color: BADGE_COLORS.text, fontSize: '10px', textTransform: 'uppercase' }}>{label}</div>
+    </div>
+  );
+};
+
+// Rolling attack counts for the last minute, the last hour and the current day, with a sparkline
+// of attacks per minute over the last half hour
+const AttackCounters: React.FC<AttackCountersProps> = ({ attacks, now, timeZone = 'UTC', scheduler, locale }) => {
+  const messages = locale.messages;
+  // Wall-clock time, ticking while no `now` is given. Starts at 0 so server and client render alike.
+  const [clock, setClock] = useState(0);
+  const [flash, setFlash] = useState(false);
+
+  useEffect(() => {
+    if (now !== undefined) return;
+    setClock(Date.now());
+    // Ticking every second keeps the windows rolling and the day rolling over at midnight
+    return scheduler.setInterval(() => setClock(Date.now()), 1000);
+  }, [now, scheduler]);
+
+  const counters = useMemo(
+    () => computeAttackCounters(attacks, now ?? clock, { timeZone }),
+    [attacks, now, clock, timeZone]
+  );
+
+  // Flash the border whenever a new attack lands in the last minute
+  const lastMinuteRef = useRef(counters.lastMinute);
+  useEffect(() => {
+    const previous = lastMinuteRef.current;
+    lastMinuteRef.current = counters.lastMinute;
+    if (counters.lastMinute <= previous) return;
+
+    setFlash(true);
+    const cancel = scheduler.setTimeout(() => setFlash(false), FLASH_DURATION);
+    // The count may change again before the flash ends, e.g. fall on the next clock tick
+    return () => {
+      cancel();
+      setFlash(false);
+    };
+  }, [counters.lastMinute, scheduler]);
+
+  const sparklinePath = useMemo(() => {
+    const x = d3.scaleLinear([0, counters.sparkline.length - 1], [0, SPARKLINE_WIDTH]);
+    const y = d3.scaleLinear([0, Math.max(1, d3.max(counters.sparkline) ?? 0)], [SPARKLINE_HEIGHT - 1, 1]);
+    return d3.area<number>()
+      .x((_, index) => x(index))
+      .y0(SPARKLINE_HEIGHT)
+      .y1(count => y(count))
+      .curve(d3.curveMonotoneX)(counters.sparkline) ?? '';
+  }, [counters.sparkline]);
+
+  return (
+    <div
+      role="status"
+      aria-label={messages.countersLabel(
+        formatNumber(locale, counters.lastMinute),
+        formatNumber(locale, counters.lastHour),
+        formatNumber(locale, counters.today)
+      )}
+      style={{
+        position: 'absolute',
+        top: '64px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        padding: '8px 14px',
+        background: BADGE_COLORS.background,
+        border: `2px solid ${flash ? BADGE_COLORS.flash : BADGE_COLORS.border}`,
+        borderRadius: '8px',
+        boxShadow: '0 4px 8px rgba(0,0,0,0.6)',
+        transition: 'border-color 0.3s',
+        fontFamily: 'sans-serif',
+        pointerEvents: 'none',
+        zIndex: 900
+      }}
+    >
+      <div style={{ display: 'flex', gap: '16px' }}>
+        <Counter label={messages.lastMinute} value={counters.lastMinute} scheduler={scheduler} locale={locale} />
+        <Counter label={messages.lastHour} value={counters.lastHour} scheduler={scheduler} locale={locale} />
+        <Counter label={messages.today(timeZone)} value={counters.today} scheduler={scheduler} locale={locale} />
+      </div>
+      <svg
+        width={SPARKLINE_WIDTH}
+        height={SPARKLINE_HEIGHT}
+        style={{ display: 'block', marginTop: '6px', width: '100%' }}
+        viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+        preserveAspectRatio="none"
+        aria-hidden="true"
+      >
+        <path d={sparklinePath} style={{ fill: BADGE_COLORS.value, fillOpacity: 0.35, stroke: BADGE_COLORS.value }} strokeWidth={1} />
+      </svg>
+      <div style={{ color: BADGE_COLORS.muted, fontSize: '9px', textTransform: 'uppercase' }}>{messages.attacksPerMinute}</div>
+    </div>
+  );
+};
+
+export default AttackCounters;
@@ -0,0 +1,107 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { MapLocale, countryName, formatNumber, formatZonedDateTime, severityLabel, threatTypeLabel } from '../lib/mapLocales';
+import { PANEL_COLORS, severityColorVar } from '../lib/mapThemes';
+import { ThreatAttack } from '../types/threat';
+
+interface AttackFeedProps {
+  // Newest first
+  attacks: ThreatAttack[];
+  // Entry to mark and scroll into view, e.g. after its arc was clicked
+  selectedId: string | null;
+  onHover: (id: string | null) => void;
+  onSelect: (id: string) => void;
+  // Sit above the replay bar instead of at the bottom edge
+  raised?: boolean;
+  locale: MapLocale;
+}
+
+// Longest feed rendered; older entries drop off the bottom
+const MAX_FEED_ENTRIES = 200;
+
+// Scrolling list of attacks next to the map; entries are linked to their arcs
+const AttackFeed: React.FC<AttackFeedProps> = ({ attacks, selectedId, onHover, onSelect, raised = false, locale }) => {
+  const entryRefs = useRef(new Map<string, HTMLLIElement>());
+
+  useEffect(() => {
+    if (selectedId) entryRefs.current.get(selectedId)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [selectedId]);
+
+  return (
+    <div style={{
+      position: 'absolute',
+      insetInlineStart: '16px',
+      bottom: raised ? '88px' : '24px',
+      width: '280px',
+      height: '180px',
+      display: 'flex',
+      flexDirection: 'column',
+      background: PANEL_COLORS.background,
+      borderRadius: '6px',
+      boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+      fontSize: '12px',
+      color: PANEL_COLORS.text,
+      zIndex: 900
+    }}>
+      <div style={{ padding: '8px 12px 4px', fontWeight: 'bold' }}>
+        {locale.messages.attackFeed} <span style={{ color: PANEL_COLORS.muted, fontWeight: 'normal' }}>({formatNumber(locale, attacks.length)})</span>
+      </div>
+      <ul
+        aria-label={locale.messages.attackFeed}
+        style={{ listStyle: 'none', margin: 0, padding: '0 12px 8px', overflowY: 'auto', flex: 1 }}
+        onMouseLeave={() => onHover(null)}
+      >
+        {attacks.length === 0 && <li style={{ color: PANEL_COLORS.muted }}>{locale.messages.noAttacksYet}</li>}
+        {attacks.slice(0, MAX_FEED_ENTRIES).map(attack => {
+          const selected = attack.id === selectedId;
+
+          return (
+            <li
+              key={attack.id}
+              ref={(element) => {
+                if (element) entryRefs.current.set(attack.id, element);
+                else entryRefs.current.delete(attack.id);
+              }}
+              style={{ borderBottom: `1px solid ${PANEL_COLORS.border}` }}
+            >
+              <button
+                type="button"
+                onMouseEnter={() => onHover(attack.id)}
+                onFocus={() => onHover(attack.id)}
+                onBlur={() => onHover(null)}
+                onClick={() => onSelect(attack.id)}
+                aria-pressed={selected}
+                style={{
+                  display: 'block',
+                  width: '100%',
+                  padding: '4px 6px',
+                  border: 'none',
+                  borderInlineStart: `3px solid ${severityColorVar(attack.severity)}`,
+                  background: selected ? PANEL_COLORS.selected : 'none',
+                  font: 'inherit',
+                  color: 'inherit',
+                  textAlign: 'start',
+                  cursor: 'pointer'
+                }}
+              >
+                <span style={{ display: 'flex', justifyContent: 'space-between', color: PANEL_COLORS.muted, fontSize: '11px' }}>
+                  <span>{attack.id}</span>
+                  <span style={{ fontVariantNumeric: 'tabular-nums' }}>{formatZonedDateTime(locale, Date.parse(attack.timestamp), 'time')}</span>
+                </span>
+                <span style={{ display: 'block' }}>
+                  {countryName(locale, attack.source)} {locale.dir === 'rtl' ? '←' : '→'} {countryName(locale, attack.target)}
+                </span>
+                <span style={{ display: 'block', fontSize: '11px' }}>
+                  {threatTypeLabel(locale, attack.type)} · <span style={{ color: severityColorVar(attack.severity), fontWeight: 'bold' }}>{severityLabel(locale, attack.severity)}</span>
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default AttackFeed;
@@ -0,0 +1,171 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ATTACK_FIELDS,
+  AttackImportResult,
+  FieldMapping,
+  IMPORT_FORMAT_LABELS,
+  ImportFormat,
+  REQUIRED_ATTACK_FIELDS,
+  detectImportFormat,
+  guessFieldMapping,
+  importAttacks,
+  readCsvColumns
+} from '../lib/attackImport';
+import { GeoIpCache, convertWithGeoIpLookup } from '../lib/geoIpLookup';
+import { MapLocale, formatNumber } from '../lib/mapLocales';
+import { PANEL_COLORS } from '../lib/mapThemes';
+import { ThreatAttack } from '../types/threat';
+
+interface AttackImportDialogProps {
+  // GeoIP route that resolves the file's addresses with the server's table
+  geoIpUrl: string;
+  fileName: string;
+  text: string;
+  // Why the file could not be read; the dialog then only shows this
+  readError?: string;
+  onImport: (attacks: ThreatAttack[]) => void;
+  onCancel: () => void;
+  locale: MapLocale;
+}
+
+// Skipped records listed before the rest are summarised
+const MAX_LISTED_ERRORS = 5;
+
+const buttonStyle: React.CSSProperties = { padding: '4px 12px', fontSize: '12px', cursor: 'pointer' };
+
+// Preview of a dropped file: pick the format, map CSV columns onto attack fields, then import
+const AttackImportDialog: React.FC<AttackImportDialogProps> = ({ geoIpUrl, fileName, text, readError, onImport, onCancel, locale }) => {
+  const messages = locale.messages;
+  const [format, setFormat] = useState<ImportFormat>(() => detectImportFormat(fileName, text));
+  const columns = useMemo(() => readCsvColumns(text), [text]);
+  const [mapping, setMapping] = useState<FieldMapping>(() => guessFieldMapping(columns));
+  // Conversion of the file with the current format and mapping, null while addresses are looked up
+  const [result, setResult] = useState<AttackImportResult | null>(null);
+  const [requestError, setRequestError] = useState<string | null>(null);
+  // Addresses looked up so far, so changing the format or mapping only sends new ones
+  const geoIpCacheRef = useRef<GeoIpCache>(new Map());
+
+  // The file is converted here; only its addresses go to the server
+  useEffect(() => {
+    if (readError) return;
+    const controller = new AbortController();
+    const csvMapping: FieldMapping = {};
+    ATTACK_FIELDS.forEach(field => {
+      csvMapping[field] = mapping[field] ?? '';
+    });
+
+    setResult(null);
+    setRequestError(null);
+    convertWithGeoIpLookup(
+      geoIpUrl,
+      geoIpCacheRef.current,
+      geoIp => importAttacks(text, format, { csvMapping, geoIp, errorMessages: messages.importErrors }),
+      controller.signal
+    )
+      .then(converted => {
+        if (!controller.signal.aborted) setResult(converted);
+      })
+      .catch(error => {
+        if (!controller.signal.aborted) setRequestError(error instanceof Error ? error.message : String(error));
+      });
+
+    return () => controller.abort();
+  }, [geoIpUrl, text, readError, format, mapping, messages]);
+
+  const error = readError ?? requestError;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={messages.importFile(fileName)}
+      style={{
+        position: 'absolute',
+        top: '50%',
+        left: '50%',
+        transform: 'translate(-50%, -50%)',
+        width: '360px',
+        maxHeight: 'calc(100% - 48px)',
+        overflowY: 'auto',
+        padding: '14px 16px',
+        background: PANEL_COLORS.background,
+        borderRadius: '6px',
+        boxShadow: '0 4px 16px rgba(0,0,0,0.25)',
+        fontSize: '13px',
+        color: PANEL_COLORS.text,
+        zIndex: 1000
+      }}
+    >
+      <div style={{ fontWeight: 'bold', marginBottom: '8px', overflowWrap: 'anywhere' }}>{messages.importFile(fileName)}</div>
+
+      {!readError && (
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          {messages.format}
+          <select value={format} onChange={(event) => setFormat(event.target.value as ImportFormat)}>
+            {(Object.keys(IMPORT_FORMAT_LABELS) as ImportFormat[]).map(option => (
+              <option key={option} value={option}>{IMPORT_FORMAT_LABELS[option]}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {!readError && format === 'csv' && (
+        <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '4px 8px', alignItems: 'center', marginTop: '10px' }}>
+          {ATTACK_FIELDS.map(field => (
+            <React.Fragment key={field}>
+              <label htmlFor={`import-column-${field}`} style={{ fontSize: '12px' }}>
+                {field}{REQUIRED_ATTACK_FIELDS.includes(field) && ' *'}
+              </label>
+              <select
+                id={`import-column-${field}`}
+                value={mapping[field] ?? ''}
+                onChange={(event) => setMapping({ ...mapping, [field]: event.target.value })}
+              >
+                <option value="">{messages.notInFile}</option>
+                {columns.map(column => (
+                  <option key={column} value={column}>{column}</option>
+                ))}
+              </select>
+            </React.Fragment>
+          ))}
+          <div style={{ gridColumn: '1 / -1', color: PANEL_COLORS.muted, fontSize: '11px' }}>
+            {messages.csvMappingHint}
+          </div>
+        </div>
+      )}
+
+      {!result && !error && <div style={{ marginTop: '10px', color: PANEL_COLORS.muted }}>{messages.converting}</div>}
+      {error && <div style={{ marginTop: '10px', color: PANEL_COLORS.error }}>{messages.importFailed(error)}</div>}
+      {result && (
+        <div style={{ marginTop: '10px' }}>
+          {messages.attacksReady(formatNumber(locale, result.attacks.length))}
+          {result.errors.length > 0 && messages.skipped(formatNumber(locale, result.errors.length))}
+        </div>
+      )}
+      {result && result.errors.length > 0 && (
+        <ul style={{ margin: '4px 0 0', paddingInlineStart: '18px', color: PANEL_COLORS.error, fontSize: '11px' }}>
+          {result.errors.slice(0, MAX_LISTED_ERRORS).map(error => <li key={error}>{error}</li>)}
+          {result.errors.length > MAX_LISTED_ERRORS && (
+            <li>{messages.andMore(formatNumber(locale, result.errors.length - MAX_LISTED_ERRORS))}</li>
+          )}
+        </ul>
+      )}
+
+      <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '6px', marginTop: '12px' }}>
+        <button type="button" onClick={onCancel} style={buttonStyle}>{messages.cancel}</button>
+        <button
+          type="button"
+          onClick={() => result && onImport(result.attacks)}
+          disabled={!result || result.attacks.length === 0}
+          style={buttonStyle}
+        >
+          {messages.importAction}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AttackImportDialog;
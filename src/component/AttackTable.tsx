@@ -0,0 +1,126 @@
+'use client';
+
+import React from 'react';
+import { MapLocale, attackPlaceName, formatDateTime, formatNumber, severityLabel, threatTypeLabel, timeZoneLabel } from '../lib/mapLocales';
+import { PANEL_COLORS, severityColorVar } from '../lib/mapThemes';
+import { ThreatAttack } from '../types/threat';
+
+interface AttackTableProps {
+  // Newest first
+  attacks: ThreatAttack[];
+  // Shown as a panel over the map; otherwise only screen readers see the table
+  open: boolean;
+  onClose: () => void;
+  onSelect: (id: string) => void;
+  selectedId: string | null;
+  locale: MapLocale;
+}
+
+// Longest table rendered; older attacks are left out
+const MAX_TABLE_ROWS = 500;
+
+// Kept in the accessibility tree but out of sight
+const visuallyHiddenStyle: React.CSSProperties = {
+  position: 'absolute',
+  width: '1px',
+  height: '1px',
+  margin: '-1px',
+  padding: 0,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap',
+  border: 0
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  borderBottom: `1px solid ${PANEL_COLORS.border}`,
+  textAlign: 'start',
+  verticalAlign: 'top'
+};
+
+// Tabular equivalent of the attack arcs, for screen readers and keyboard users
+const AttackTable: React.FC<AttackTableProps> = ({ attacks, open, onClose, onSelect, selectedId, locale }) => {
+  const rows = attacks.slice(0, MAX_TABLE_ROWS);
+  const messages = locale.messages;
+
+  return (
+    <section
+      aria-label={messages.attackTable}
+      style={open ? {
+        position: 'absolute',
+        top: '64px',
+        insetInline: '16px',
+        bottom: '24px',
+        padding: '12px 16px',
+        overflow: 'auto',
+        background: PANEL_COLORS.background,
+        borderRadius: '6px',
+        boxShadow: '0 2px 12px rgba(0,0,0,0.2)',
+        fontSize: '12px',
+        color: PANEL_COLORS.text,
+        zIndex: 960
+      } : visuallyHiddenStyle}
+    >
+      {open && (
+        <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label={messages.closeAttackTable}
+            style={{ border: 'none', background: 'transparent', color: PANEL_COLORS.text, fontSize: '18px', cursor: 'pointer' }}
+          >
+            ×
+          </button>
+        </div>
+      )}
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <caption style={{ textAlign: 'start', fontWeight: 'bold', marginBottom: '6px' }}>
+          {messages.tableCaption(formatNumber(locale, attacks.length))}
+          {attacks.length > MAX_TABLE_ROWS && messages.newestListed(formatNumber(locale, MAX_TABLE_ROWS))}
+        </caption>
+        <thead style={{ color: PANEL_COLORS.secondary }}>
+          <tr>
+            <th scope="col" style={cellStyle}>{messages.timeColumn(timeZoneLabel(locale))}</th>
+            <th scope="col" style={cellStyle}>{messages.typeColumn}</th>
+            <th scope="col" style={cellStyle}>{messages.severity}</th>
+            <th scope="col" style={cellStyle}>{messages.from}</th>
+            <th scope="col" style={cellStyle}>{messages.to}</th>
+            <th scope="col" style={cellStyle}>{messages.descriptionColumn}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.length === 0 && (
+            <tr>
+              <td colSpan={6} style={{ ...cellStyle, color: PANEL_COLORS.muted }}>{messages.noAttacksYet}</td>
+            </tr>
+          )}
+          {rows.map(attack => (
+            <tr key={attack.id} style={{ background: attack.id === selectedId ? PANEL_COLORS.selected : 'transparent' }}>
+              <td style={{ ...cellStyle, fontVariantNumeric: 'tabular-nums', whiteSpace: 'nowrap' }}>
+                {formatDateTime(locale, Date.parse(attack.timestamp), 'second')}
+              </td>
+              <th scope="row" style={{ ...cellStyle, fontWeight: 'normal' }}>
+                {/* Selecting a row highlights its arc, like the feed */}
+                <button
+                  type="button"
+                  onClick={() => onSelect(attack.id)}
+                  aria-pressed={attack.id === selectedId}
+                  style={{ padding: 0, border: 'none', background: 'transparent', color: 'inherit', font: 'inherit', cursor: 'pointer', textAlign: 'start' }}
+                >
+                  {threatTypeLabel(locale, attack.type)}
+                </button>
+              </th>
+              <td style={{ ...cellStyle, color: severityColorVar(attack.severity) }}>{severityLabel(locale, attack.severity)}</td>
+              <td style={cellStyle}>{attackPlaceName(locale, attack, 'source')}</td>
+              <td style={cellStyle}>{attackPlaceName(locale, attack, 'target')}</td>
+              <td style={cellStyle}>{attack.description}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+};
+
+export default AttackTable;
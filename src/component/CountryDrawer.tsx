@@ -0,0 +1,200 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import * as d3 from 'd3';
+import { SEVERITY_ORDER, computeCountryStats } from '../lib/countryStats';
+import { MapLocale, countryName, formatNumber, formatZonedDateTime, severityLabel, threatTypeLabel } from '../lib/mapLocales';
+import { PANEL_COLORS, severityColorVar } from '../lib/mapThemes';
+import { ThreatAttack } from '../types/threat';
+
+interface CountryDrawerProps {
+  // ISO3 code of the selected country
+  country: string;
+  name: string;
+  attacks: ThreatAttack[];
+  onClose: () => void;
+  locale: MapLocale;
+}
+
+const CHART_WIDTH = 280;
+const CHART_HEIGHT = 56;
+// Longest attack list rendered per direction
+const MAX_LISTED_ATTACKS = 50;
+
+
+const sectionTitleStyle: React.CSSProperties = {
+  margin: '16px 0 6px',
+  fontSize: '11px',
+  fontWeight: 'bold',
+  textTransform: 'uppercase',
+  color: PANEL_COLORS.secondary
+};
+
+// Side drawer with everything known about one country's attacks
+const CountryDrawer: React.FC<CountryDrawerProps> = ({ country, name, attacks, onClose, locale }) => {
+  const messages = locale.messages;
+  const stats = useMemo(() => computeCountryStats(attacks, country), [attacks, country]);
+
+  const maxTypeCount = d3.max(stats.types, type => type.inbound + type.outbound) ?? 0;
+  const maxSeverityCount = d3.max(SEVERITY_ORDER, severity => stats.severities[severity]) ?? 0;
+  const maxBinCount = d3.max(stats.timeSeries, bin => bin.inbound + bin.outbound) ?? 0;
+  const binWidth = stats.timeSeries.length > 0 ? CHART_WIDTH / stats.timeSeries.length : 0;
+
+  const renderAttackList = (title: string, list: ThreatAttack[], direction: 'inbound' | 'outbound') => (
+    <div>
+      <div style={sectionTitleStyle}>{title} ({formatNumber(locale, list.length)})</div>
+      {list.length === 0 && <div style={{ color: PANEL_COLORS.muted }}>{messages.none}</div>}
+      <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+        {list.slice(0, MAX_LISTED_ATTACKS).map(attack => (
+          <li key={attack.id} style={{ padding: '4px 0', borderBottom: `1px solid ${PANEL_COLORS.border}` }}>
+            <div>
+              <span style={{ color: severityColorVar(attack.severity), fontWeight: 'bold' }}>
+                {threatTypeLabel(locale, attack.type)}
+              </span>
+              {' '}
+              {direction === 'inbound'
+                ? messages.fromCountry(countryName(locale, attack.source))
+                : messages.toCountry(countryName(locale, attack.target))}
+            </div>
+            <div style={{ color: PANEL_COLORS.muted, fontSize: '11px' }}>
+              {formatZonedDateTime(locale, Date.parse(attack.timestamp), 'minute')} · {severityLabel(locale, attack.severity)}
+            </div>
+          </li>
+        ))}
+      </ul>
+      {list.length > MAX_LISTED_ATTACKS && (
+        <div style={{ color: PANEL_COLORS.muted, fontSize: '11px', marginTop: '4px' }}>
+          {messages.andMore(formatNumber(locale, list.length - MAX_LISTED_ATTACKS))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <aside
+      aria-label={messages.countryDetails(name)}
+      style={{
+        position: 'absolute',
+        top: 0,
+        insetInlineEnd: 0,
+        bottom: 0,
+        width: '320px',
+        padding: '16px',
+        overflowY: 'auto',
+        background: PANEL_COLORS.background,
+        boxShadow: '-2px 0 12px rgba(0,0,0,0.2)',
+        fontSize: '12px',
+        color: PANEL_COLORS.text,
+        zIndex: 950
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <h2 style={{ margin: 0, fontSize: '18px' }}>{name}</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label={messages.closeCountryDetails}
+          style={{ border: 'none', background: 'transparent', fontSize: '18px', cursor: 'pointer' }}
+        >
+          ×
+        </button>
+      </div>
+      <div style={{ marginTop: '4px', color: PANEL_COLORS.secondary }}>
+        <span style={{ color: PANEL_COLORS.inbound }}>{messages.inboundCount(formatNumber(locale, stats.inbound.length))}</span>
+        {' · '}
+        <span style={{ color: PANEL_COLORS.outbound }}>{messages.outboundCount(formatNumber(locale, stats.outbound.length))}</span>
+      </div>
+
+      <div style={sectionTitleStyle}>{messages.attackTypes}</div>
+      {stats.types.length === 0 && <div style={{ color: PANEL_COLORS.muted }}>{messages.noAttacks}</div>}
+      {stats.types.map(({ type, inbound, outbound }) => (
+        <div key={type} style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '3px' }}>
+          <span style={{ width: '110px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{threatTypeLabel(locale, type)}</span>
+          <div style={{ flex: 1, display: 'flex', height: '8px' }}>
+            <div style={{ width: `${(inbound / maxTypeCount) * 100}%`, background: PANEL_COLORS.inbound }} />
+            <div style={{ width: `${(outbound / maxTypeCount) * 100}%`, background: PANEL_COLORS.outbound }} />
+          </div>
+          <span style={{ width: '44px', textAlign: 'end', fontVariantNumeric: 'tabular-nums' }}>
+            {formatNumber(locale, inbound)}/{formatNumber(locale, outbound)}
+          </span>
+        </div>
+      ))}
+
+      <div style={sectionTitleStyle}>{messages.severity}</div>
+      <div style={{ display: 'flex', alignItems: 'flex-end', gap: '8px', height: '64px' }}>
+        {SEVERITY_ORDER.map(severity => {
+          const value = stats.severities[severity];
+          return (
+            <div key={severity} style={{ flex: 1, textAlign: 'center' }}>
+              <div style={{ fontVariantNumeric: 'tabular-nums' }}>{formatNumber(locale, value)}</div>
+              <div style={{
+                height: `${maxSeverityCount > 0 ? (value / maxSeverityCount) * 40 : 0}px`,
+                background: severityColorVar(severity)
+              }} />
+            </div>
+          );
+        })}
+      </div>
+      <div style={{ display: 'flex', gap: '8px', color: PANEL_COLORS.secondary, fontSize: '10px' }}>
+        {SEVERITY_ORDER.map(severity => (
+          <div key={severity} style={{ flex: 1, textAlign: 'center', textTransform: 'capitalize' }}>{severityLabel(locale, severity)}</div>
+        ))}
+      </div>
+
+      <div style={sectionTitleStyle}>{messages.topCounterparts}</div>
+      {stats.counterparts.length === 0 && <div style={{ color: PANEL_COLORS.muted }}>{messages.none}</div>}
+      {stats.counterparts.map(({ country: code, inbound, outbound }) => (
+        <div key={code} style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '2px' }}>
+          <span>{countryName(locale, code)}</span>
+          <span style={{ fontVariantNumeric: 'tabular-nums' }}>
+            <span style={{ color: PANEL_COLORS.inbound }}>↓{formatNumber(locale, inbound)}</span>
+            {' '}
+            <span style={{ color: PANEL_COLORS.outbound }}>↑{formatNumber(locale, outbound)}</span>
+          </span>
+        </div>
+      ))}
+
+      <div style={sectionTitleStyle}>{messages.overTime}</div>
+      {stats.timeSeries.length > 0 ? (
+        <>
+          {/* Time runs left to right in every language, like the map itself */}
+          <svg width={CHART_WIDTH} height={CHART_HEIGHT} aria-label={messages.attacksOverTime}>
+            {stats.timeSeries.map((bin, index) => {
+              const inboundHeight = maxBinCount > 0 ? (bin.inbound / maxBinCount) * CHART_HEIGHT : 0;
+              const outboundHeight = maxBinCount > 0 ? (bin.outbound / maxBinCount) * CHART_HEIGHT : 0;
+              return (
+                <g key={index}>
+                  <rect
+                    x={index * binWidth}
+                    y={CHART_HEIGHT - inboundHeight}
+                    width={Math.max(binWidth - 1, 1)}
+                    height={inboundHeight}
+                    style={{ fill: PANEL_COLORS.inbound }}
+                  />
+                  <rect
+                    x={index * binWidth}
+                    y={CHART_HEIGHT - inboundHeight - outboundHeight}
+                    width={Math.max(binWidth - 1, 1)}
+                    height={outboundHeight}
+                    style={{ fill: PANEL_COLORS.outbound }}
+                  />
+                </g>
+              );
+            })}
+          </svg>
+          <div style={{ display: 'flex', direction: 'ltr', justifyContent: 'space-between', color: PANEL_COLORS.muted, fontSize: '10px' }}>
+            <span>{formatZonedDateTime(locale, stats.timeSeries[0].start, 'minute')}</span>
+            <span>{formatZonedDateTime(locale, stats.timeSeries[stats.timeSeries.length - 1].end, 'minute')}</span>
+          </div>
+        </>
+      ) : (
+        <div style={{ color: PANEL_COLORS.muted }}>{messages.noAttacks}</div>
+      )}
+
+      {renderAttackList(messages.inbound, stats.inbound, 'inbound')}
+      {renderAttackList(messages.outbound, stats.outbound, 'outbound')}
+    </aside>
+  );
+};
+
+export default CountryDrawer;
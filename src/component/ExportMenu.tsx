@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ATTACK_EXPORT_LABELS, AttackExportFormat, MAX_PNG_SIDE } from '../lib/mapExport';
+import { MapLocale, formatNumber } from '../lib/mapLocales';
+import { PANEL_COLORS } from '../lib/mapThemes';
+
+interface ExportMenuProps {
+  // Size of the map in CSS pixels, the 1× PNG resolution
+  mapWidth: number;
+  mapHeight: number;
+  // Attacks on the map after filters, the ones the data exports contain
+  attackCount: number;
+  onExportSvg: () => void;
+  // Resolves once the PNG has been handed to the browser
+  onExportPng: (scale: number) => Promise<void>;
+  onExportAttacks: (format: AttackExportFormat) => void;
+  locale: MapLocale;
+}
+
+const PNG_SCALES = [1, 2, 3, 4];
+
+const itemStyle: React.CSSProperties = {
+  display: 'block',
+  width: '100%',
+  padding: '4px 8px',
+  border: 'none',
+  borderRadius: '4px',
+  background: 'transparent',
+  color: PANEL_COLORS.text,
+  font: 'inherit',
+  textAlign: 'start',
+  cursor: 'pointer'
+};
+
+// Toolbar dropdown that saves the map as SVG or PNG and the attacks shown as CSV or JSON
+const ExportMenu: React.FC<ExportMenuProps> = ({ mapWidth, mapHeight, attackCount, onExportSvg, onExportPng, onExportAttacks, locale }) => {
+  const messages = locale.messages;
+  const [open, setOpen] = useState(false);
+  const [scale, setScale] = useState(2);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on Escape or a click anywhere else
+  useEffect(() => {
+    if (!open) return;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false);
+    };
+
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [open]);
+
+  const exportPng = () => {
+    setExporting(true);
+    setError(null);
+    onExportPng(scale)
+      .then(() => setOpen(false))
+      .catch(exportError => setError(exportError instanceof Error ? exportError.message : String(exportError)))
+      .finally(() => setExporting(false));
+  };
+
+  const fits = (value: number) => Math.max(mapWidth, mapHeight) * value <= MAX_PNG_SIDE;
+
+  return (
+    <div ref={menuRef} style={{ position: 'relative', marginInlineStart: '4px' }}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        aria-haspopup="menu"
+        style={{ padding: '4px 10px', border: `1px solid ${PANEL_COLORS.muted}`, borderRadius: '4px', background: 'transparent', color: PANEL_COLORS.text, cursor: 'pointer' }}
+      >
+        {messages.exportMenu} ▾
+      </button>
+
+      {open && (
+        <div
+          role="menu"
+          style={{
+            position: 'absolute',
+            top: 'calc(100% + 8px)',
+            insetInlineEnd: 0,
+            width: '220px',
+            padding: '6px',
+            background: PANEL_COLORS.background,
+            borderRadius: '6px',
+            boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+            fontSize: '12px',
+            color: PANEL_COLORS.text
+          }}
+        >
+          <button
+            type="button"
+            role="menuitem"
+            onClick={() => {
+              onExportSvg();
+              setOpen(false);
+            }}
+            style={itemStyle}
+          >
+            {messages.mapAsSvg}
+          </button>
+
+          <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+            <button type="button" role="menuitem" onClick={exportPng} disabled={exporting} style={{ ...itemStyle, flex: 1 }}>
+              {exporting ? messages.renderingPng : messages.mapAsPng}
+            </button>
+            <select
+              value={scale}
+              onChange={(event) => setScale(Number(event.target.value))}
+              aria-label={messages.pngResolution}
+              style={{ fontSize: '11px' }}
+            >
+              {PNG_SCALES.map(value => (
+                <option key={value} value={value} disabled={!fits(value)}>
+                  {Math.round(mapWidth * value)}×{Math.round(mapHeight * value)}
+                </option>
+              ))}
+            </select>
+          </div>
+          {error && <div style={{ padding: '2px 8px', color: PANEL_COLORS.error }}>{error}</div>}
+
+          <div style={{ margin: '4px 0', borderTop: `1px solid ${PANEL_COLORS.border}` }} />
+          {(Object.keys(ATTACK_EXPORT_LABELS) as AttackExportFormat[]).map(format => (
+            <button
+              key={format}
+              type="button"
+              role="menuitem"
+              onClick={() => {
+                onExportAttacks(format);
+                setOpen(false);
+              }}
+              disabled={attackCount === 0}
+              style={itemStyle}
+            >
+              {messages.attacksAs(formatNumber(locale, attackCount), ATTACK_EXPORT_LABELS[format])}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,181 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import countryCoordinates from '../data/countryCoordinates.json';
+import threatData from '../data/threatData.json';
+import {
+  AttackFilterKey,
+  AttackFilters,
+  EMPTY_FILTERS,
+  hasActiveFilters,
+  isFilterValueActive,
+  toggleFilterValue
+} from '../lib/attackFilters';
+import { MapLocale, countryName, formatNumber, severityLabel, threatTypeLabel } from '../lib/mapLocales';
+import { PANEL_COLORS, severityColorVar, threatTypeColorVar } from '../lib/mapThemes';
+import { CountryCoordinate, ThreatData, ThreatSeverity } from '../types/threat';
+
+interface FilterPanelProps {
+  filters: AttackFilters;
+  onChange: (filters: AttackFilters) => void;
+  visibleCount: number;
+  totalCount: number;
+  locale: MapLocale;
+}
+
+const coordinates = countryCoordinates as { [key: string]: CountryCoordinate };
+
+const chipStyle = (active: boolean, color: string): React.CSSProperties => ({
+  display: 'inline-flex',
+  alignItems: 'center',
+  gap: '4px',
+  padding: '2px 8px',
+  margin: 0,
+  marginInlineEnd: '4px',
+  marginBottom: '4px',
+  border: `1px solid ${color}`,
+  borderRadius: '10px',
+  background: active ? color : 'transparent',
+  color: active ? PANEL_COLORS.background : PANEL_COLORS.secondary,
+  fontSize: '11px',
+  cursor: 'pointer',
+  opacity: active ? 1 : 0.6
+});
+
+const sectionTitleStyle: React.CSSProperties = {
+  margin: '10px 0 4px',
+  fontSize: '11px',
+  fontWeight: 'bold',
+  textTransform: 'uppercase',
+  color: PANEL_COLORS.secondary
+};
+
+const FilterPanel: React.FC<FilterPanelProps> = ({ filters, onChange, visibleCount, totalCount, locale }) => {
+  const messages = locale.messages;
+  const [open, setOpen] = useState(true);
+  const threats = threatData as ThreatData;
+  // [ISO3, name] pairs sorted by their name in the locale
+  const countryOptions = useMemo(
+    () => Object.keys(coordinates)
+      .map(code => [code, countryName(locale, code)])
+      .sort((a, b) => a[1].localeCompare(b[1], locale.tag)),
+    [locale]
+  );
+
+  const toggle = (key: AttackFilterKey, value: string) => onChange(toggleFilterValue(filters, key, value));
+
+  const renderCountryFilter = (key: 'sources' | 'targets', label: string) => (
+    <div>
+      <div style={sectionTitleStyle}>{label}</div>
+      <select
+        value=""
+        onChange={(event) => event.target.value && toggle(key, event.target.value)}
+        aria-label={messages.addFilter(label)}
+        style={{ width: '100%', marginBottom: '4px' }}
+      >
+        <option value="">{messages.anyCountry}</option>
+        {countryOptions
+          .filter(([code]) => !filters[key].includes(code))
+          .map(([code, name]) => (
+            <option key={code} value={code}>{name} ({code})</option>
+          ))}
+      </select>
+      <div>
+        {filters[key].map(code => (
+          <button
+            key={code}
+            type="button"
+            onClick={() => toggle(key, code)}
+            aria-label={messages.remove(countryName(locale, code))}
+            style={chipStyle(true, PANEL_COLORS.muted)}
+          >
+            {code} ×
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '16px',
+      insetInlineEnd: '16px',
+      width: '260px',
+      maxHeight: 'calc(100% - 120px)',
+      overflowY: 'auto',
+      padding: '10px 12px',
+      background: PANEL_COLORS.background,
+      borderRadius: '6px',
+      boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+      fontSize: '13px',
+      color: PANEL_COLORS.text,
+      zIndex: 900
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          aria-expanded={open}
+          style={{ border: 'none', background: 'none', padding: 0, fontWeight: 'bold', cursor: 'pointer' }}
+        >
+          {messages.filters} {open ? '▾' : locale.dir === 'rtl' ? '◂' : '▸'}
+        </button>
+        <span style={{ fontVariantNumeric: 'tabular-nums' }}>
+          {messages.visibleOfTotal(formatNumber(locale, visibleCount), formatNumber(locale, totalCount))}
+        </span>
+      </div>
+
+      {open && (
+        <>
+          <div style={sectionTitleStyle}>{messages.severity}</div>
+          <div>
+            {Object.keys(threats.severityLevels).map(level => (
+              <button
+                key={level}
+                type="button"
+                onClick={() => toggle('severities', level)}
+                aria-pressed={(filters.severities as string[]).includes(level)}
+                style={chipStyle(isFilterValueActive(filters, 'severities', level), severityColorVar(level))}
+              >
+                {severityLabel(locale, level as ThreatSeverity).toUpperCase()}
+              </button>
+            ))}
+          </div>
+
+          <div style={sectionTitleStyle}>{messages.attackType}</div>
+          <div>
+            {Object.entries(threats.threatTypes)
+              .sort((a, b) => b[1].priority - a[1].priority)
+              .map(([type]) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => toggle('types', type)}
+                  aria-pressed={filters.types.includes(type)}
+                  style={chipStyle(isFilterValueActive(filters, 'types', type), threatTypeColorVar(type))}
+                >
+                  {threatTypeLabel(locale, type)}
+                </button>
+              ))}
+          </div>
+
+          {renderCountryFilter('sources', messages.sourceCountry)}
+          {renderCountryFilter('targets', messages.targetCountry)}
+
+          {hasActiveFilters(filters) && (
+            <button
+              type="button"
+              onClick={() => onChange(EMPTY_FILTERS)}
+              style={{ marginTop: '8px', padding: '4px 10px', cursor: 'pointer' }}
+            >
+              {messages.clearFilters}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FilterPanel;
@@ -0,0 +1,222 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import * as topojson from 'topojson-client';
+import worldData from '../data/world.json';
+import gdpData from '../data/gdp_growth.json';
+import { GdpGrowthTable, createGdpGrowthIndex } from '../lib/gdpGrowth';
+import { gdpTooltipContent, showTooltip } from '../lib/mapTooltip';
+import { CountryFeature } from '../types/threat';
+
+interface GdpGrowthMapProps {
+  // Year shown on first render (defaults to the latest year in the data)
+  initialYear?: number;
+}
+
+const FIRST_YEAR = 1960;
+const NO_DATA_FILL = '#e0e0e0';
+const LEGEND_WIDTH = 220;
+
+// Annual GDP growth in %, clamped to ±10 so a few outliers do not flatten the palette
+const colorScale = d3.scaleDiverging(d3.interpolateRdYlGn)
+  .domain([-10, 0, 10])
+  .clamp(true);
+
+const formatGrowth = d3.format('+.1f');
+
+const GdpGrowthMap: React.FC<GdpGrowthMapProps> = ({ initialYear }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
+
+  const gdpIndex = useMemo(() => createGdpGrowthIndex(gdpData as unknown as GdpGrowthTable), []);
+  const years = gdpIndex.years.filter(year => year >= FIRST_YEAR);
+  const lastYear = years[years.length - 1];
+
+  const [year, setYear] = useState(initialYear ?? lastYear);
+
+  // Hover handlers are bound once, so they read the selected year through a ref
+  const yearRef = useRef(year);
+
+  const width = 1100;
+  const height = 750;
+
+  const countryFill = useCallback((feature: CountryFeature) => {
+    const value = gdpIndex.getGdp(yearRef.current, feature.id);
+    return value === null ? NO_DATA_FILL : colorScale(value);
+  }, [gdpIndex]);
+
+  useEffect(() => {
+    if (!svgRef.current || !tooltipRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    const tooltip = d3.select(tooltipRef.current);
+
+    // Clear any existing content
+    svg.selectAll("*").remove();
+
+    // Set up projection
+    const projection = d3.geoMercator()
+      .translate([width / 2, height / 2])
+      .scale((width - 1) / 2 / Math.PI);
+
+    // Set up zoom behavior (zoom only, no drag/pan)
+    const zoom = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([1, 8])
+      .filter((event) => event.type === 'wheel')
+      .on("zoom", (event) => {
+        const { transform } = event;
+        // Always zoom from center, ignore any translation
+        const centerTransform = d3.zoomIdentity
+          .translate(width / 2, height / 2)
+          .scale(transform.k)
+          .translate(-width / 2, -height / 2);
+
+        svg.selectAll('.countries-group')
+          .attr("transform", centerTransform.toString());
+      });
+
+    svg.call(zoom);
+
+    // Create path generator
+    const path = d3.geoPath().projection(projection);
+
+    // Convert topojson to geojson
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const countries = topojson.feature(worldData as any, worldData.objects.world_subunits as any);
+
+    const countriesGroup = svg.append("g")
+      .attr("class", "countries-group");
+
+    countriesGroup.selectAll(".subunit")
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .data((countries as any).features)
+      .enter()
+      .append("path")
+      .attr("class", (d) => {
+        const feature = d as CountryFeature;
+        return `subunit-boundary subunit ${feature.id}`;
+      })
+      .style("fill", (d) => countryFill(d as CountryFeature))
+      .style("stroke", "#777")
+      .style("stroke-width", "1px")
+      .style("stroke-linejoin", "round")
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .attr("d", path as any)
+      .on("mousemove", function(event, d) {
+        const feature = d as CountryFeature;
+        const value = gdpIndex.getGdp(yearRef.current, feature.id);
+
+        d3.select(this)
+          .style("stroke", "#222")
+          .style("stroke-width", "2px");
+
+        const content = gdpTooltipContent(feature.properties.name, value === null ? null : formatGrowth(value));
+        showTooltip(tooltip, content, d3.pointer(event, svgRef.current), [15, -35]);
+      })
+      .on("mouseout", function() {
+        d3.select(this)
+          .style("stroke", "#777")
+          .style("stroke-width", "1px");
+
+        tooltip.style("display", "none");
+      });
+  }, [gdpIndex, countryFill]);
+
+  // Recolour countries whenever the year changes
+  useEffect(() => {
+    yearRef.current = year;
+    if (!svgRef.current) return;
+
+    d3.select(svgRef.current)
+      .selectAll<SVGPathElement, CountryFeature>(".subunit")
+      .style("fill", (d) => countryFill(d));
+  }, [year, countryFill]);
+
+  const legendAxis = d3.scaleLinear().domain([-10, 10]).range([0, LEGEND_WIDTH]);
+
+  return (
+    <div style={{
+      width: '100%',
+      height: '100vh',
+      position: 'relative',
+      overflow: 'hidden',
+      background: '#ffffff'
+    }}>
+      <svg
+        ref={svgRef}
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        style={{ width: '100%', height: '100%' }}
+      />
+
+      <div style={{
+        position: 'absolute',
+        left: '50%',
+        bottom: '24px',
+        transform: 'translateX(-50%)',
+        width: 'min(720px, calc(100% - 48px))',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '16px',
+        padding: '10px 14px',
+        background: 'rgba(255, 255, 255, 0.95)',
+        borderRadius: '6px',
+        boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+        fontSize: '13px',
+        color: '#222'
+      }}>
+        <strong style={{ fontVariantNumeric: 'tabular-nums' }}>{year}</strong>
+        <input
+          type="range"
+          min={years[0]}
+          max={lastYear}
+          step={1}
+          value={year}
+          onChange={(event) => setYear(Number(event.target.value))}
+          aria-label="Year"
+          style={{ flex: 1 }}
+        />
+        <svg width={LEGEND_WIDTH + 24} height={30} aria-label="GDP growth colour scale">
+          <g transform="translate(12, 0)">
+            {d3.range(-10, 10, 0.5).map(value => (
+              <rect
+                key={value}
+                x={legendAxis(value)}
+                width={legendAxis(value + 0.5) - legendAxis(value) + 0.5}
+                height={10}
+                fill={colorScale(value)}
+              />
+            ))}
+            {legendAxis.ticks(5).map(tick => (
+              <text key={tick} x={legendAxis(tick)} y={24} textAnchor="middle" fontSize={10} fill="#444">
+                {tick}%
+              </text>
+            ))}
+          </g>
+        </svg>
+      </div>
+
+      <div
+        ref={tooltipRef}
+        style={{
+          color: '#222',
+          backgroundColor: '#fff',
+          padding: '0.5em',
+          textShadow: '#f5f5f5 0 1px 0',
+          borderRadius: '2px',
+          opacity: 0.9,
+          position: 'absolute',
+          pointerEvents: 'none',
+          fontSize: '13px',
+          zIndex: 1000,
+          boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+          display: 'none'
+        }}
+      />
+    </div>
+  );
+};
+
+export default GdpGrowthMap;
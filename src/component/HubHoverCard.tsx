@@ -0,0 +1,57 @@
+'use client';
+
+import React, { useLayoutEffect, useRef } from 'react';
+import HubStatsSummary from './HubStatsSummary';
+import { HubStats } from '../lib/hubStats';
+import { MapLocale, formatNumber } from '../lib/mapLocales';
+import { PANEL_COLORS } from '../lib/mapThemes';
+import { placeTooltip } from '../lib/mapTooltip';
+
+interface HubHoverCardProps {
+  stats: HubStats;
+  // Position of the pointer inside the map container, in pixels
+  x: number;
+  y: number;
+  locale: MapLocale;
+}
+
+// Card following the pointer while it is over a hub marker
+const HubHoverCard: React.FC<HubHoverCardProps> = ({ stats, x, y, locale }) => {
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  // Placed before paint, once its size is known, so it never hangs over the edge of the screen
+  useLayoutEffect(() => {
+    if (cardRef.current) placeTooltip(cardRef.current, [x, y], [14, 14]);
+  }, [x, y, stats, locale]);
+
+  return (
+    <div
+      ref={cardRef}
+      role="tooltip"
+      style={{
+        position: 'absolute',
+        width: '240px',
+        padding: '8px 10px',
+        background: PANEL_COLORS.background,
+        borderRadius: '4px',
+        boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
+        fontSize: '12px',
+        color: PANEL_COLORS.text,
+        pointerEvents: 'none',
+        zIndex: 1000
+      }}
+    >
+      <div style={{ fontWeight: 'bold' }}>{stats.hub.name}</div>
+      <div style={{ color: PANEL_COLORS.secondary, fontSize: '11px' }}>
+        {locale.messages.hubSummary(
+          locale.messages.hubTypes[stats.hub.type],
+          formatNumber(locale, stats.hub.importance),
+          formatNumber(locale, stats.total)
+        )}
+      </div>
+      <HubStatsSummary stats={stats} locale={locale} />
+    </div>
+  );
+};
+
+export default HubHoverCard;
@@ -0,0 +1,187 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import countryCoordinates from '../data/countryCoordinates.json';
+import HubStatsSummary from './HubStatsSummary';
+import { HubStats } from '../lib/hubStats';
+import { MapLocale, countryName, formatNumber } from '../lib/mapLocales';
+import { MAP_COLORS, PANEL_COLORS } from '../lib/mapThemes';
+import { CountryCoordinate, ThreatHub } from '../types/threat';
+
+interface HubPanelProps {
+  stats: HubStats[];
+  hubs: ThreatHub[];
+  // Whether the hubs differ from the ones shipped in threatData.json
+  customized: boolean;
+  onSave: (hubs: ThreatHub[]) => void;
+  onReset: () => void;
+  onSelectHub: (hub: ThreatHub) => void;
+  locale: MapLocale;
+}
+
+const coordinates = countryCoordinates as { [key: string]: CountryCoordinate };
+
+const buttonStyle: React.CSSProperties = { padding: '2px 8px', fontSize: '11px', cursor: 'pointer' };
+
+// Per-hub dashboard with an inline editor for the hub list
+const HubPanel: React.FC<HubPanelProps> = ({ stats, hubs, customized, onSave, onReset, onSelectHub, locale }) => {
+  const messages = locale.messages;
+  const [open, setOpen] = useState(true);
+  // [ISO3, name] pairs sorted by their name in the locale
+  const countryOptions = useMemo(
+    () => Object.keys(coordinates)
+      .map(code => [code, countryName(locale, code)])
+      .sort((a, b) => a[1].localeCompare(b[1], locale.tag)),
+    [locale]
+  );
+  // Hubs being edited, or null while showing the dashboard
+  const [draft, setDraft] = useState<ThreatHub[] | null>(null);
+
+  const updateDraft = (index: number, changes: Partial<ThreatHub>) => {
+    setDraft(current => current && current.map((hub, i) => (i === index ? { ...hub, ...changes } : hub)));
+  };
+
+  const addHub = () => {
+    setDraft(current => [
+      ...(current ?? []),
+      { id: `HUB-${Date.now().toString(36)}`, country: countryOptions[0][0], name: messages.newHub, type: 'secondary', importance: 3 }
+    ]);
+  };
+
+  const renderEditor = (list: ThreatHub[]) => (
+    <div>
+      {list.map((hub, index) => (
+        <div key={hub.id} style={{ padding: '6px 0', borderBottom: `1px solid ${PANEL_COLORS.border}`, display: 'grid', gap: '4px' }}>
+          <input
+            value={hub.name}
+            onChange={(event) => updateDraft(index, { name: event.target.value })}
+            aria-label={messages.hubName}
+          />
+          <div style={{ display: 'flex', gap: '4px' }}>
+            <select
+              value={hub.country}
+              onChange={(event) => updateDraft(index, { country: event.target.value })}
+              aria-label={messages.hubCountry}
+              style={{ flex: 1, minWidth: 0 }}
+            >
+              {countryOptions.map(([code, name]) => (
+                <option key={code} value={code}>{name}</option>
+              ))}
+            </select>
+            <select
+              value={hub.type}
+              onChange={(event) => updateDraft(index, { type: event.target.value as ThreatHub['type'] })}
+              aria-label={messages.hubType}
+            >
+              <option value="primary">{messages.hubTypes.primary}</option>
+              <option value="secondary">{messages.hubTypes.secondary}</option>
+            </select>
+            <input
+              type="number"
+              min={1}
+              max={5}
+              value={hub.importance}
+              onChange={(event) => updateDraft(index, { importance: Math.min(5, Math.max(1, Number(event.target.value))) })}
+              aria-label={messages.hubImportance}
+              style={{ width: '40px' }}
+            />
+            <button
+              type="button"
+              onClick={() => setDraft(list.filter((_, i) => i !== index))}
+              aria-label={messages.remove(hub.name)}
+              style={buttonStyle}
+            >
+              ×
+            </button>
+          </div>
+        </div>
+      ))}
+      <div style={{ display: 'flex', gap: '4px', marginTop: '8px' }}>
+        <button type="button" onClick={addHub} style={buttonStyle}>{messages.addHub}</button>
+        <span style={{ flex: 1 }} />
+        <button type="button" onClick={() => setDraft(null)} style={buttonStyle}>{messages.cancel}</button>
+        <button
+          type="button"
+          onClick={() => {
+            onSave(list.filter(hub => hub.name.trim() !== ''));
+            setDraft(null);
+          }}
+          style={buttonStyle}
+        >
+          {messages.save}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '64px',
+      insetInlineStart: '16px',
+      width: '280px',
+      maxHeight: 'calc(100% - 340px)',
+      overflowY: 'auto',
+      padding: '10px 12px',
+      background: PANEL_COLORS.background,
+      borderRadius: '6px',
+      boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+      fontSize: '13px',
+      color: PANEL_COLORS.text,
+      zIndex: 900
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          aria-expanded={open}
+          style={{ border: 'none', background: 'none', padding: 0, fontWeight: 'bold', cursor: 'pointer' }}
+        >
+          {messages.hubs} {open ? '▾' : locale.dir === 'rtl' ? '◂' : '▸'}
+        </button>
+        {open && !draft && (
+          <span style={{ display: 'flex', gap: '4px' }}>
+            {customized && (
+              <button type="button" onClick={onReset} style={buttonStyle}>{messages.reset}</button>
+            )}
+            <button type="button" onClick={() => setDraft(hubs)} style={buttonStyle}>{messages.edit}</button>
+          </span>
+        )}
+      </div>
+
+      {open && draft && renderEditor(draft)}
+
+      {open && !draft && (
+        <div>
+          {stats.length === 0 && <div style={{ color: PANEL_COLORS.muted, marginTop: '6px' }}>{messages.noHubs}</div>}
+          {stats.map(hubStats => (
+            <div key={hubStats.hub.id} style={{ padding: '6px 0', borderBottom: `1px solid ${PANEL_COLORS.border}` }}>
+              <button
+                type="button"
+                onClick={() => onSelectHub(hubStats.hub)}
+                style={{
+                  display: 'flex',
+                  width: '100%',
+                  justifyContent: 'space-between',
+                  border: 'none',
+                  background: 'none',
+                  padding: 0,
+                  cursor: 'pointer',
+                  fontSize: '12px'
+                }}
+              >
+                <span>
+                  <span style={{ color: MAP_COLORS.hubs[hubStats.hub.type] }}>◉</span> <strong>{hubStats.hub.name}</strong>
+                </span>
+                <span style={{ fontVariantNumeric: 'tabular-nums' }}>{formatNumber(locale, hubStats.total)}</span>
+              </button>
+              <HubStatsSummary stats={hubStats} locale={locale} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HubPanel;
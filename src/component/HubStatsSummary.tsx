@@ -0,0 +1,59 @@
+'use client';
+
+import React from 'react';
+import { SEVERITY_ORDER } from '../lib/countryStats';
+import { HubStats } from '../lib/hubStats';
+import { MapLocale, countryName, formatDuration, formatList, formatNumber, formatRate, severityLabel } from '../lib/mapLocales';
+import { PANEL_COLORS, severityColorVar } from '../lib/mapThemes';
+
+interface HubStatsSummaryProps {
+  stats: HubStats;
+  locale: MapLocale;
+}
+
+// Severity bar, recent attack rates and top attackers of one hub
+const HubStatsSummary: React.FC<HubStatsSummaryProps> = ({ stats, locale }) => {
+  const messages = locale.messages;
+
+  return (
+    <div style={{ fontSize: '11px' }}>
+      <div style={{ display: 'flex', height: '8px', margin: '4px 0', background: PANEL_COLORS.border, borderRadius: '2px', overflow: 'hidden' }}>
+        {SEVERITY_ORDER.map(severity => stats.severities[severity] > 0 && (
+          <div
+            key={severity}
+            title={`${severityLabel(locale, severity)}: ${formatNumber(locale, stats.severities[severity])}`}
+            style={{
+              width: `${(stats.severities[severity] / stats.total) * 100}%`,
+              background: severityColorVar(severity)
+            }}
+          />
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: '8px', color: PANEL_COLORS.secondary }}>
+        {SEVERITY_ORDER.map(severity => (
+          <span key={severity}>
+            <span style={{ color: severityColorVar(severity) }}>●</span> {formatNumber(locale, stats.severities[severity])}
+          </span>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', gap: '10px', marginTop: '4px', color: PANEL_COLORS.secondary, fontVariantNumeric: 'tabular-nums' }}>
+        {stats.rates.map(rate => (
+          <span key={rate.label} title={messages.rateTitle(formatNumber(locale, rate.count), formatDuration(locale, rate.duration))}>
+            {formatDuration(locale, rate.duration)}: <strong>{formatRate(locale, rate.perMinute)}</strong>{messages.perMinute}
+          </span>
+        ))}
+      </div>
+
+      <div style={{ marginTop: '4px', color: PANEL_COLORS.secondary }}>
+        {messages.topAttackers}:{' '}
+        {stats.attackers.length === 0
+          ? messages.none
+          : formatList(locale, stats.attackers
+            .map(({ country, count }) => `${countryName(locale, country)} (${formatNumber(locale, count)})`))}
+      </div>
+    </div>
+  );
+};
+
+export default HubStatsSummary;
@@ -0,0 +1,74 @@
+'use client';
+
+import React, { useId } from 'react';
+import * as d3 from 'd3';
+import { MapLocale, formatCompactNumber } from '../lib/mapLocales';
+import { PANEL_COLORS } from '../lib/mapThemes';
+
+interface IntensityLegendProps {
+  title: string;
+  scale: d3.ScaleSequential<string>;
+  // Colour used for countries without any value
+  emptyColor?: string;
+  emptyLabel?: string;
+  locale: MapLocale;
+}
+
+const LEGEND_WIDTH = 220;
+const BAR_HEIGHT = 10;
+const GRADIENT_STOPS = 10;
+
+// Horizontal gradient legend for a sequential d3 colour scale
+const IntensityLegend: React.FC<IntensityLegendProps> = ({ title, scale, emptyColor, emptyLabel = 'No data', locale }) => {
+  const gradientId = useId();
+  const [min, max] = scale.domain();
+
+  // Position ticks with a scale that shares the colour scale's domain and exponent
+  const axis = d3.scaleSqrt().domain([min, max]).range([0, LEGEND_WIDTH]);
+  const ticks = axis.ticks(4).filter(tick => Number.isInteger(tick) || max - min < 4);
+
+  return (
+    <div style={{
+      position: 'absolute',
+      insetInlineStart: '16px',
+      bottom: '24px',
+      padding: '8px 12px',
+      background: PANEL_COLORS.background,
+      borderRadius: '6px',
+      boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+      fontSize: '11px',
+      color: PANEL_COLORS.text,
+      zIndex: 900
+    }}>
+      <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>{title}</div>
+      {/* Low to high runs left to right in every language */}
+      <svg width={LEGEND_WIDTH + 12} height={BAR_HEIGHT + 18} direction="ltr">
+        <defs>
+          <linearGradient id={gradientId}>
+            {d3.range(GRADIENT_STOPS + 1).map(i => {
+              const t = i / GRADIENT_STOPS;
+              return <stop key={i} offset={`${t * 100}%`} stopColor={scale(axis.invert(t * LEGEND_WIDTH))} />;
+            })}
+          </linearGradient>
+        </defs>
+        <g transform="translate(6, 0)">
+          <rect width={LEGEND_WIDTH} height={BAR_HEIGHT} fill={`url(#${gradientId})`} />
+          {ticks.map(tick => (
+            <g key={tick} transform={`translate(${axis(tick)}, 0)`}>
+              <line y1={BAR_HEIGHT} y2={BAR_HEIGHT + 4} style={{ stroke: PANEL_COLORS.muted }} />
+              <text y={BAR_HEIGHT + 14} textAnchor="middle" style={{ fill: PANEL_COLORS.secondary }}>{formatCompactNumber(locale, tick)}</text>
+            </g>
+          ))}
+        </g>
+      </svg>
+      {emptyColor && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '2px' }}>
+          <span style={{ width: '12px', height: '10px', background: emptyColor, display: 'inline-block' }} />
+          {emptyLabel}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IntensityLegend;
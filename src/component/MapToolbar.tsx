@@ -0,0 +1,262 @@
+'use client';
+
+import React from 'react';
+import { INTENSITY_METRIC_LABELS, IntensityMetric } from '../lib/attackIntensity';
+import { PROJECTION_LABELS, ProjectionType } from '../lib/projections';
+import { ARC_MODE_LABELS, ArcMode } from '../lib/arcGeometry';
+import { ARC_RENDERER_LABELS, ArcRenderer } from '../lib/canvasArcLayer';
+import { FLOW_AGGREGATION_LABELS, FLOW_WINDOWS, FlowAggregation } from '../lib/attackFlows';
+import { MAP_LOCALE_LABELS, MapLocale, MapLocaleName, formatDuration } from '../lib/mapLocales';
+import { MAP_THEME_LABELS, MapThemeName, PANEL_COLORS } from '../lib/mapThemes';
+import { MAP_MODES, MapMode } from '../lib/mapUrlState';
+
+interface MapToolbarProps {
+  mode: MapMode;
+  onModeChange: (mode: MapMode) => void;
+  // Choropleth metric, or null for the flat base map
+  choropleth: IntensityMetric | null;
+  onChoroplethChange: (metric: IntensityMetric | null) => void;
+  projection: ProjectionType;
+  onProjectionChange: (projection: ProjectionType) => void;
+  // Slow rotation of the globe while nobody is dragging it
+  autoSpin: boolean;
+  onAutoSpinChange: (autoSpin: boolean) => void;
+  arcMode: ArcMode;
+  onArcModeChange: (arcMode: ArcMode) => void;
+  renderer: ArcRenderer;
+  onRendererChange: (renderer: ArcRenderer) => void;
+  // Merge attacks on the same country or region pair into flow arcs, within windows of `flowWindow` ms
+  flowAggregation: FlowAggregation;
+  onFlowAggregationChange: (aggregation: FlowAggregation) => void;
+  flowWindow: number;
+  onFlowWindowChange: (window: number) => void;
+  bundleFlows: boolean;
+  onBundleFlowsChange: (bundle: boolean) => void;
+  // Global pause of every map animation
+  paused: boolean;
+  onPausedChange: (paused: boolean) => void;
+  theme: MapThemeName;
+  onThemeChange: (theme: MapThemeName) => void;
+  // Table of the shown attacks, the keyboard and screen reader equivalent of the map
+  tableOpen: boolean;
+  onTableOpenChange: (open: boolean) => void;
+  localeName: MapLocaleName;
+  onLocaleChange: (locale: MapLocaleName) => void;
+  locale: MapLocale;
+  // Extra controls at the end of the toolbar, e.g. the export menu
+  children?: React.ReactNode;
+}
+
+const MapToolbar: React.FC<MapToolbarProps> = ({
+  mode,
+  onModeChange,
+  choropleth,
+  onChoroplethChange,
+  projection,
+  onProjectionChange,
+  autoSpin,
+  onAutoSpinChange,
+  arcMode,
+  onArcModeChange,
+  renderer,
+  onRendererChange,
+  flowAggregation,
+  onFlowAggregationChange,
+  flowWindow,
+  onFlowWindowChange,
+  bundleFlows,
+  onBundleFlowsChange,
+  paused,
+  onPausedChange,
+  theme,
+  onThemeChange,
+  tableOpen,
+  onTableOpenChange,
+  localeName,
+  onLocaleChange,
+  locale,
+  children
+}) => {
+  const messages = locale.messages;
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '16px',
+      insetInlineStart: '16px',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '4px',
+      padding: '4px',
+      background: PANEL_COLORS.background,
+      color: PANEL_COLORS.text,
+      borderRadius: '6px',
+      boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+      fontSize: '13px',
+      zIndex: 900
+    }}>
+      {MAP_MODES.map(value => (
+        <button
+          key={value}
+          type="button"
+          onClick={() => onModeChange(value)}
+          aria-pressed={mode === value}
+          style={{
+            padding: '4px 10px',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            background: mode === value ? PANEL_COLORS.text : 'transparent',
+            color: mode === value ? PANEL_COLORS.background : PANEL_COLORS.text
+          }}
+        >
+          {messages.modes[value]}
+        </button>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onPausedChange(!paused)}
+        aria-pressed={paused}
+        title={paused ? messages.resumeAnimations : messages.pauseAnimations}
+        style={{
+          marginInlineStart: '4px',
+          padding: '4px 10px',
+          border: `1px solid ${PANEL_COLORS.muted}`,
+          borderRadius: '4px',
+          cursor: 'pointer',
+          background: paused ? PANEL_COLORS.text : 'transparent',
+          color: paused ? PANEL_COLORS.background : PANEL_COLORS.text
+        }}
+      >
+        {paused ? messages.resume : messages.pause}
+      </button>
+
+      <button
+        type="button"
+        onClick={() => onTableOpenChange(!tableOpen)}
+        aria-pressed={tableOpen}
+        title={tableOpen ? messages.hideTable : messages.showTable}
+        style={{
+          padding: '4px 10px',
+          border: `1px solid ${PANEL_COLORS.muted}`,
+          borderRadius: '4px',
+          cursor: 'pointer',
+          background: tableOpen ? PANEL_COLORS.text : 'transparent',
+          color: tableOpen ? PANEL_COLORS.background : PANEL_COLORS.text
+        }}
+      >
+        {messages.table}
+      </button>
+
+      <select
+        value={choropleth ?? ''}
+        onChange={(event) => onChoroplethChange((event.target.value || null) as IntensityMetric | null)}
+        aria-label={messages.countryShading}
+        style={{ marginInlineStart: '8px' }}
+      >
+        <option value="">{messages.flatMap}</option>
+        {(Object.keys(INTENSITY_METRIC_LABELS) as IntensityMetric[]).map(metric => (
+          <option key={metric} value={metric}>{messages.intensityMetrics[metric]}</option>
+        ))}
+      </select>
+
+      <select
+        value={projection}
+        onChange={(event) => onProjectionChange(event.target.value as ProjectionType)}
+        aria-label={messages.projection}
+      >
+        {(Object.keys(PROJECTION_LABELS) as ProjectionType[]).map(value => (
+          <option key={value} value={value}>{messages.projections[value]}</option>
+        ))}
+      </select>
+
+      <select
+        value={arcMode}
+        onChange={(event) => onArcModeChange(event.target.value as ArcMode)}
+        aria-label={messages.arcStyle}
+      >
+        {(Object.keys(ARC_MODE_LABELS) as ArcMode[]).map(value => (
+          <option key={value} value={value}>{messages.arcModes[value]}</option>
+        ))}
+      </select>
+
+      <select
+        value={renderer}
+        onChange={(event) => onRendererChange(event.target.value as ArcRenderer)}
+        aria-label={messages.arcRenderer}
+      >
+        {(Object.keys(ARC_RENDERER_LABELS) as ArcRenderer[]).map(value => (
+          <option key={value} value={value}>{messages.renderers[value]}</option>
+        ))}
+      </select>
+
+      <select
+        value={flowAggregation}
+        onChange={(event) => onFlowAggregationChange(event.target.value as FlowAggregation)}
+        aria-label={messages.flowAggregation}
+      >
+        {(Object.keys(FLOW_AGGREGATION_LABELS) as FlowAggregation[]).map(value => (
+          <option key={value} value={value}>{messages.flowAggregations[value]}</option>
+        ))}
+      </select>
+
+      {flowAggregation !== 'none' && (
+        <>
+          <select
+            value={flowWindow}
+            onChange={(event) => onFlowWindowChange(Number(event.target.value))}
+            aria-label={messages.flowWindow}
+          >
+            {FLOW_WINDOWS.map(value => (
+              <option key={value} value={value}>{formatDuration(locale, value)}</option>
+            ))}
+          </select>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '4px', padding: '0 6px' }}>
+            <input
+              type="checkbox"
+              checked={bundleFlows}
+              onChange={(event) => onBundleFlowsChange(event.target.checked)}
+            />
+            {messages.bundleArcs}
+          </label>
+        </>
+      )}
+
+      <select
+        value={theme}
+        onChange={(event) => onThemeChange(event.target.value as MapThemeName)}
+        aria-label={messages.colourTheme}
+      >
+        {(Object.keys(MAP_THEME_LABELS) as MapThemeName[]).map(value => (
+          <option key={value} value={value}>{messages.themes[value]}</option>
+        ))}
+      </select>
+
+      <select
+        value={localeName}
+        onChange={(event) => onLocaleChange(event.target.value as MapLocaleName)}
+        aria-label={messages.language}
+      >
+        {(Object.keys(MAP_LOCALE_LABELS) as MapLocaleName[]).map(value => (
+          <option key={value} value={value} lang={value}>{MAP_LOCALE_LABELS[value]}</option>
+        ))}
+      </select>
+
+      {projection === 'globe' && (
+        <label style={{ display: 'flex', alignItems: 'center', gap: '4px', padding: '0 6px' }}>
+          <input
+            type="checkbox"
+            checked={autoSpin}
+            onChange={(event) => onAutoSpinChange(event.target.checked)}
+          />
+          {messages.autoSpin}
+        </label>
+      )}
+
+      {children}
+    </div>
+  );
+};
+
+export default MapToolbar;
@@ -0,0 +1,75 @@
+'use client';
+
+import React from 'react';
+import { REPLAY_SPEEDS, ReplayClock } from '../hooks/useReplayClock';
+import { MapLocale, formatNumber, formatZonedDateTime } from '../lib/mapLocales';
+import { PANEL_COLORS } from '../lib/mapThemes';
+
+interface ReplayControlsProps {
+  clock: ReplayClock;
+  // Number of attacks on the map at the current replay time
+  activeCount: number;
+  locale: MapLocale;
+}
+
+const ReplayControls: React.FC<ReplayControlsProps> = ({ clock, activeCount, locale }) => {
+  const { time, start, end, playing, speed } = clock;
+  const messages = locale.messages;
+
+  return (
+    <div style={{
+      position: 'absolute',
+      left: '50%',
+      bottom: '24px',
+      transform: 'translateX(-50%)',
+      width: 'min(720px, calc(100% - 48px))',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '12px',
+      padding: '10px 14px',
+      background: PANEL_COLORS.background,
+      borderRadius: '6px',
+      boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+      fontSize: '13px',
+      color: PANEL_COLORS.text,
+      zIndex: 900
+    }}>
+      <button
+        type="button"
+        onClick={playing ? clock.pause : clock.play}
+        aria-label={playing ? messages.pauseReplay : messages.playReplay}
+        style={{ minWidth: '64px', padding: '4px 10px', cursor: 'pointer' }}
+      >
+        {playing ? messages.pause : messages.play}
+      </button>
+
+      <input
+        type="range"
+        min={start}
+        max={end}
+        step={1000}
+        value={time}
+        onChange={(event) => clock.seek(Number(event.target.value))}
+        aria-label={messages.replayTime}
+        style={{ flex: 1 }}
+      />
+
+      <select
+        value={speed}
+        onChange={(event) => clock.setSpeed(Number(event.target.value))}
+        aria-label={messages.replaySpeed}
+      >
+        {REPLAY_SPEEDS.map(value => (
+          <option key={value} value={value}>{value}x</option>
+        ))}
+      </select>
+
+      <div style={{ fontVariantNumeric: 'tabular-nums', whiteSpace: 'nowrap' }}>
+        <div>{formatZonedDateTime(locale, time, 'second')}</div>
+        <div style={{ fontSize: '11px', color: PANEL_COLORS.secondary }}>{messages.active(formatNumber(locale, activeCount))}</div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayControls;
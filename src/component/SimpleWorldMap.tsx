@@ -1,101 +1,451 @@
 'use client';
 
-import React, { useEffect, useRef } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
 import * as topojson from 'topojson-client';
 import worldData from '../data/world.json';
 import countryCoordinates from '../data/countryCoordinates.json';
 import threatData from '../data/threatData.json';
+import MapToolbar from './MapToolbar';
+import ReplayControls from './ReplayControls';
+import ZoomControls from './ZoomControls';
+import ZoomMinimap from './ZoomMinimap';
+import FilterPanel from './FilterPanel';
+import IntensityLegend from './IntensityLegend';
+import CountryDrawer from './CountryDrawer';
+import AttackCounters from './AttackCounters';
+import HubPanel from './HubPanel';
+import HubHoverCard from './HubHoverCard';
+import AttackFeed from './AttackFeed';
+import AttackImportDialog from './AttackImportDialog';
+import ExportMenu from './ExportMenu';
+import AttackTable from './AttackTable';
+import { useAttackStream } from '../hooks/useAttackStream';
+import { useReplayClock } from '../hooks/useReplayClock';
+import { useAnimationScheduler } from '../hooks/useAnimationScheduler';
+import { useElementSize } from '../hooks/useElementSize';
+import { useHubConfig } from '../hooks/useHubConfig';
+import { useUrlQuery } from '../hooks/useUrlQuery';
+import { useResolvedAttacks } from '../hooks/useResolvedAttacks';
+import { useMapLocale } from '../hooks/useMapLocale';
+import { useMapTheme } from '../hooks/useMapTheme';
+import { usePrefersReducedMotion } from '../hooks/usePrefersReducedMotion';
+import { AttackFilters, EMPTY_FILTERS, matchesFilters } from '../lib/attackFilters';
+import { IntensityMetric, computeIntensity, createIntensityScale } from '../lib/attackIntensity';
+import { toIso3 } from '../lib/countryCodes';
+import { AttackEndpoint, ResolvedAttack, resolveAttackEndpoints } from '../lib/attackEndpoints';
+import { ProjectionType, createProjection, fitProjection, projectVisible } from '../lib/projections';
+import { ArcGeometry, ArcMode, createCubicArc, createGeodesicArc } from '../lib/arcGeometry';
+import {
+  AttackFlow,
+  DEFAULT_FLOW_WINDOW,
+  FlowAggregation,
+  aggregateAttackFlows,
+  createBundledFlowArcs,
+  flowStrokeWidth
+} from '../lib/attackFlows';
+import { ARC_PULSE_DURATION, ArcRenderer, CanvasArcLayer, arcPulseSwell, createCanvasArcLayer } from '../lib/canvasArcLayer';
+import { computeHubStats } from '../lib/hubStats';
+import { computeAttackCounters } from '../lib/attackCounters';
+import { AttackExportFormat, createMapSvg, downloadFile, formatAttacks, renderSvgToPng } from '../lib/mapExport';
+import {
+  MapLocale,
+  MapLocaleName,
+  attackPlaceName,
+  countryName,
+  formatNumber,
+  severityLabel,
+  threatTypeLabel
+} from '../lib/mapLocales';
+import {
+  AttackTooltipField,
+  DEFAULT_TOOLTIP_FIELDS,
+  attackTooltipContent,
+  countryTooltipContent,
+  flowEndName,
+  flowTooltipContent,
+  showTooltip
+} from '../lib/mapTooltip';
+import { MapMode, formatMapUrlState, parseMapUrlState } from '../lib/mapUrlState';
+import { MapThemeName, PANEL_COLORS, themeCssVariables } from '../lib/mapThemes';
+import { MAX_ZOOM, MIN_ZOOM, ZOOM_DURATION, ZOOM_STEP, fitBounds, rotationTowards } from '../lib/mapZoom';
+import { CountryCoordinate, CountryFeature, ThreatAttack, ThreatData, ThreatHub } from '../types/threat';
 
-// Type definitions
-interface CountryFeature {
-  id: string;
-  properties: {
-    name: string;
-  };
+interface SimpleWorldMapProps {
+  // Initial mode: draw the loaded attacks once, stream them from the SSE route, or replay their timeline
+  defaultMode?: MapMode;
+  // Attacks used by the snapshot and replay modes (defaults to threatData.json) until a file is imported
+  attacks?: ThreatAttack[];
+  streamUrl?: string;
+  // GeoIP route that resolves the addresses in dropped files and in attacks without countries
+  geoIpUrl?: string;
+  // Oldest live arcs are retired once more than this many are on the map
+  maxLiveAttacks?: number;
+  // How long (ms) a streamed attack stays on the map before it is retired
+  attackLifetime?: number;
+  defaultProjection?: ProjectionType;
+  defaultArcMode?: ArcMode;
+  // Draw arcs and particles as SVG nodes, or on a canvas layer for thousands of concurrent attacks
+  defaultRenderer?: ArcRenderer;
+  // Hubs shown until the user saves their own from the hub panel (defaults to threatData.json)
+  hubs?: ThreatHub[];
+  // CSS height of the map container; the map fills the container and follows its size
+  containerHeight?: React.CSSProperties['height'];
+  // IANA time zone in which the attack counters roll over to a new day
+  counterTimeZone?: string;
+  // Restore the view from the page's query string and keep it there as the view changes, for shareable links
+  syncUrl?: boolean;
+  // Colour theme until the user picks one from the toolbar
+  defaultTheme?: MapThemeName;
+  // Language of the deployment, used until the user picks one from the toolbar
+  defaultLocale?: MapLocaleName;
+  // Extra lines in the attack tooltip, filled from the attack's fields
+  tooltipFields?: AttackTooltipField[];
+  // Draw one arc per attack, or merge attacks on the same country or region pair into flow arcs
+  defaultFlowAggregation?: FlowAggregation;
 }
 
-interface CountryCoordinate {
-  lat: number;
-  lng: number;
-  name: string;
+// d3 handles shared between the map setup effect and the attack effects
+interface MapScene {
+  countriesGroup: d3.Selection<SVGGElement, unknown, null, undefined>;
+  mainGroup: d3.Selection<SVGGElement, unknown, null, undefined>;
+  arcsGroup: d3.Selection<SVGGElement, unknown, null, undefined>;
+  pointersGroup: d3.Selection<SVGGElement, unknown, null, undefined>;
+  hubsGroup: d3.Selection<SVGGElement, unknown, null, undefined>;
+  spherePath: d3.Selection<SVGPathElement, d3.GeoPermissibleObjects, null, undefined>;
+  zoom: d3.ZoomBehavior<SVGSVGElement, unknown>;
+  // Background rect that catches zoom gestures and clicks outside the countries
+  overlay: d3.Selection<SVGRectElement, unknown, null, undefined>;
+  // Replaced in place when the projection type changes
+  projection: d3.GeoProjection;
+  path: d3.GeoPath;
+  tooltip: d3.Selection<HTMLDivElement, unknown, null, undefined>;
+  svgElement: SVGSVGElement;
+  // Canvas renderer for arcs and particles, laid over the SVG
+  arcLayer: CanvasArcLayer;
 }
 
-interface ThreatAttack {
-  id: string;
-  source: string;
-  target: string;
-  type: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  timestamp: string;
-  duration: number;
-  description: string;
+// Streamed attacks kept for the choropleth and counters once their arcs have retired
+const MAX_STREAM_HISTORY = 5000;
+
+// Globe rotation tuning: degrees per dragged pixel, inertia decay per 16ms frame, auto-spin in degrees per second
+const DRAG_SENSITIVITY = 0.25;
+const INERTIA_DECAY = 0.92;
+const AUTO_SPIN_SPEED = 4;
+
+// Map size used until the container has been measured
+const INITIAL_SIZE = { width: 1100, height: 750 };
+
+// Opacity of arcs unrelated to the country open in the drawer
+const DIMMED_ARC_OPACITY = 0.12;
+
+// Canvas arcs repeat the SVG start stagger every this many arcs
+const CANVAS_STAGGER_WRAP = 25;
+
+// Tooltip position relative to the pointer for countries and for arcs
+const COUNTRY_TOOLTIP_OFFSET: [number, number] = [5, -25];
+const ARC_TOOLTIP_OFFSET: [number, number] = [10, -40];
+
+// Name of a country shape in the locale, keeping the world.json name for shapes without a known country
+const featureName = (locale: MapLocale, feature: CountryFeature) =>
+  countryName(locale, toIso3(feature.id), feature.properties.name);
+
+// Accessible name of an attack arc, the tooltip's content in one line
+const attackArcLabel = (locale: MapLocale, attack: ThreatAttack) => locale.messages.arcLabel(
+  threatTypeLabel(locale, attack.type),
+  attackPlaceName(locale, attack, 'source'),
+  attackPlaceName(locale, attack, 'target'),
+  severityLabel(locale, attack.severity)
+);
+
+// Accessible name of a flow arc
+const flowArcLabel = (locale: MapLocale, flow: AttackFlow) => locale.messages.flowLabel(
+  formatNumber(locale, flow.attacks.length),
+  flowEndName(locale, flow.source),
+  flowEndName(locale, flow.target),
+  severityLabel(locale, flow.severity)
+);
+
+// Dash pattern of flow arcs and how many ms the dashes take to move one pattern length
+const FLOW_DASH = [12, 6];
+const FLOW_DASH_PERIOD = 600;
+
+// Attack on the map, with the endpoints it was drawn between
+interface ShownAttack extends ResolvedAttack {
+  // Remove the attack from the map; the caller applies the filters afterwards
+  retire: () => void;
+  // Re-project the arc after the projection changed
+  update: () => void;
+  // Draw the arc again with the current renderer
+  redraw: () => void;
+  // Widen the arc while its feed entry is hovered
+  emphasize: (on: boolean) => void;
+  pulse: () => void;
 }
 
-interface ThreatData {
-  attacks: ThreatAttack[];
-  severityLevels: {
-    [key: string]: {
-      color: string;
-      strokeWidth: number;
-    };
-  };
+// Flow arc drawn for a group of attacks, see attackFlows
+interface ShownFlow {
+  flow: AttackFlow;
+  // Take over the flow's attacks after a re-merge; the key stays the same
+  set: (flow: AttackFlow) => void;
+  setGeometry: (geometry: ArcGeometry | null) => void;
+  // Apply the current theme, language and zoom
+  restyle: () => void;
+  remove: () => void;
+  emphasize: (on: boolean) => void;
+  pulse: () => void;
 }
 
-const SimpleWorldMap: React.FC = () => {
+const SimpleWorldMap: React.FC<SimpleWorldMapProps> = ({
+  defaultMode = 'static',
+  attacks: defaultAttacks = (threatData as ThreatData).attacks,
+  streamUrl,
+  geoIpUrl = '/api/geoip',
+  maxLiveAttacks = 60,
+  attackLifetime = 12000,
+  defaultProjection = 'mercator',
+  defaultArcMode = 'geodesic',
+  defaultRenderer = 'svg',
+  hubs: defaultHubs = (threatData as ThreatData).hubs,
+  containerHeight = '100vh',
+  counterTimeZone = 'UTC',
+  syncUrl = false,
+  defaultTheme = 'light',
+  defaultLocale = 'en',
+  tooltipFields = DEFAULT_TOOLTIP_FIELDS,
+  defaultFlowAggregation = 'none'
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
   const tooltipRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sceneRef = useRef<MapScene | null>(null);
+  const shownAttacksRef = useRef(new Map<string, ShownAttack>());
+  // Flow arcs by flow key while attacks are merged, and the flow each visible attack is drawn in
+  const shownFlowsRef = useRef(new Map<string, ShownFlow>());
+  const flowKeysRef = useRef(new Map<string, string>());
+  // Frame requested by requestFilters, while one is pending
+  const filtersFrameRef = useRef<number | null>(null);
+  // Keyed by endpoint, so attacks from the same city or country share a pointer
+  const pointerCountsRef = useRef(new Map<string, number>());
+  // Stops each pointer's pulse animation
+  const pointerPulsesRef = useRef(new Map<string, () => void>());
+
+  // Owns every timer and frame callback on the map, see useAnimationScheduler
+  const { scheduler, paused, setPaused } = useAnimationScheduler();
+  const { themeName, theme, setThemeName } = useMapTheme(defaultTheme);
+  // Theme for the d3 code; elements drawn later pick it up from here
+  const themeRef = useRef(theme);
+  const { localeName, locale, setLocaleName } = useMapLocale(defaultLocale);
+  // Locale for the d3 code, like themeRef
+  const localeRef = useRef(locale);
+  const tooltipFieldsRef = useRef(tooltipFields);
+  // Looping animations (dash flow, particles, pulses, auto-spin) hold still while this is set
+  const reducedMotion = usePrefersReducedMotion();
+  const reducedMotionRef = useRef(reducedMotion);
 
-  const width = 1100;
-  const height = 750;
+  const [mode, setMode] = useState<MapMode>(defaultMode);
+  const [filters, setFilters] = useState<AttackFilters>(EMPTY_FILTERS);
+  const [counts, setCounts] = useState({ shown: 0, visible: 0 });
+  const [choropleth, setChoropleth] = useState<IntensityMetric | null>(null);
+  const [streamedAttacks, setStreamedAttacks] = useState<ThreatAttack[]>([]);
+  const [projectionType, setProjectionType] = useState<ProjectionType>(defaultProjection);
+  const projectionTypeRef = useRef(projectionType);
+  // Current zoom, read by the d3 code to keep strokes and radii at a constant on-screen size
+  const zoomTransformRef = useRef(d3.zoomIdentity);
+  const [viewTransform, setViewTransform] = useState(d3.zoomIdentity);
+  const [globeCentre, setGlobeCentre] = useState<[number, number]>([0, 0]);
+  // Country shown in the detail drawer, by ISO3 code
+  const [selectedCountry, setSelectedCountry] = useState<{ code: string; name: string } | null>(null);
+  const selectedCountryRef = useRef<string | null>(null);
+  const [autoSpin, setAutoSpin] = useState(false);
+  const autoSpinRef = useRef(autoSpin);
+  const [arcMode, setArcMode] = useState<ArcMode>(defaultArcMode);
+  const arcModeRef = useRef(arcMode);
+  const [renderer, setRenderer] = useState<ArcRenderer>(defaultRenderer);
+  const rendererRef = useRef(renderer);
+  const [flowAggregation, setFlowAggregation] = useState<FlowAggregation>(defaultFlowAggregation);
+  const [flowWindow, setFlowWindow] = useState(DEFAULT_FLOW_WINDOW);
+  const [bundleFlows, setBundleFlows] = useState(false);
+  const flowSettingsRef = useRef({ aggregation: flowAggregation, window: flowWindow, bundle: bundleFlows });
+
+  const { hubs, customized: hubsCustomized, saveHubs, resetHubs } = useHubConfig(defaultHubs);
+  // Hub under the pointer and where to show its card, relative to the container
+  const [hoveredHub, setHoveredHub] = useState<{ id: string; x: number; y: number } | null>(null);
+  // Attack picked in the feed or by clicking its arc
+  const [selectedAttackId, setSelectedAttackId] = useState<string | null>(null);
+  // Attack whose arc is widened for the hovered feed entry
+  const emphasizedAttackRef = useRef<string | null>(null);
+  // Zoom and centre read from the URL, applied once the projection they were taken in is in place
+  const [pendingView, setPendingView] = useState<{ projection: ProjectionType; zoom: number; centre?: [number, number] } | null>(null);
+  // The URL is only written once it has been read, so a shared link is not overwritten on load
+  const [urlRestored, setUrlRestored] = useState(false);
+  // Attack table shown as a panel; it is always there for screen readers
+  const [tableOpen, setTableOpen] = useState(false);
+
+  // Imperative d3 callbacks read the current filters through this ref
+  const filtersRef = useRef(filters);
+  // Current fill per country, so hover styling can be undone without knowing the shading mode
+  const countryFillRef = useRef<(feature: CountryFeature) => string>(() => themeRef.current.land);
+
+  // Attacks from a file dropped on the map replace the default ones
+  const [importedAttacks, setImportedAttacks] = useState<ThreatAttack[] | null>(null);
+  // Dropped file waiting in the import dialog
+  const [pendingImport, setPendingImport] = useState<{ name: string; text: string; error?: string } | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  // Default attacks known only by their addresses are resolved on the server first
+  const resolvedAttacks = useResolvedAttacks(defaultAttacks, geoIpUrl);
+  const attacks = importedAttacks ?? resolvedAttacks;
+
+  // The attack set the map is currently working from
+  const loadedAttacks = mode === 'live' ? streamedAttacks : attacks;
+  const filteredAttacks = useMemo(
+    () => loadedAttacks.filter(attack => matchesFilters(attack, filters)),
+    [loadedAttacks, filters]
+  );
+
+  const intensityScale = useMemo(() => {
+    if (!choropleth) return null;
+    const intensity = computeIntensity(filteredAttacks, choropleth);
+    return { intensity, scale: createIntensityScale(intensity, theme.intensity) };
+  }, [choropleth, filteredAttacks, theme]);
+
+  // Replay window: from the first attack to the end of the last one to finish
+  const replayWindow = useMemo(() => {
+    if (attacks.length === 0) return { start: 0, end: 0 };
+    const starts = attacks.map(attack => Date.parse(attack.timestamp));
+    const ends = attacks.map((attack, index) => starts[index] + attack.duration);
+    return { start: d3.min(starts) ?? 0, end: d3.max(ends) ?? 0 };
+  }, [attacks]);
+
+  const replayClock = useReplayClock({ ...replayWindow, enabled: mode === 'replay', scheduler });
+  const seekReplay = replayClock.seek;
+
+  // Hub rates and attack counters are measured back from now when live, from the replay clock when
+  // replaying, and from the latest attack in a snapshot. Replay only counts attacks that have started.
+  // `now` is undefined when live, leaving the wall clock to the consumer.
+  const replayTime = replayClock.time;
+  const statsWindow = useMemo((): { attacks: ThreatAttack[]; now?: number } => {
+    if (mode === 'live') return { attacks: filteredAttacks };
+    if (mode === 'replay') {
+      return {
+        attacks: filteredAttacks.filter(attack => Date.parse(attack.timestamp) <= replayTime),
+        now: replayTime
+      };
+    }
+    return {
+      attacks: filteredAttacks,
+      now: d3.max(filteredAttacks, attack => Date.parse(attack.timestamp)) ?? 0
+    };
+  }, [mode, filteredAttacks, replayTime]);
+
+  const hubStats = useMemo(
+    () => computeHubStats(hubs, statsWindow.attacks, statsWindow.now ?? Date.now()),
+    [hubs, statsWindow]
+  );
+
+  const feedAttacks = useMemo(
+    () => [...statsWindow.attacks].sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp)),
+    [statsWindow]
+  );
+
+  // The map fills its container: the viewBox follows the measured size, so one unit is one CSS pixel
+  const { width, height } = useElementSize(containerRef, INITIAL_SIZE);
+  // Current size for the d3 callbacks bound once in the setup effect
+  const sizeRef = useRef({ width, height });
+
+  // [lng, lat] at the centre of the view: the globe's rotation, or the point under the middle of the zoomed flat map
+  const viewCentre = useMemo((): [number, number] | undefined => {
+    if (projectionType === 'globe') return globeCentre;
+    const projection = sceneRef.current?.projection;
+    if (!projection?.invert || viewTransform.k === 1) return undefined;
+    return projection.invert(viewTransform.invert([width / 2, height / 2])) ?? undefined;
+  }, [projectionType, globeCentre, viewTransform, width, height]);
+
+  const urlQuery = useMemo(() => formatMapUrlState({
+    mode,
+    projection: projectionType,
+    zoom: viewTransform.k,
+    centre: viewCentre,
+    filters,
+    time: mode === 'replay' ? replayTime : undefined,
+    country: selectedCountry?.code,
+    attack: selectedAttackId ?? undefined
+  }), [mode, projectionType, viewTransform, viewCentre, filters, replayTime, selectedCountry, selectedAttackId]);
+
+  useUrlQuery(syncUrl && urlRestored && !pendingView ? urlQuery : null);
 
   useEffect(() => {
-    if (!svgRef.current || !tooltipRef.current) return;
+    if (!svgRef.current || !tooltipRef.current || !canvasRef.current) return;
 
     const svg = d3.select(svgRef.current);
     const tooltip = d3.select(tooltipRef.current);
+    // Later sizes and projections are applied in place by their own effects
+    const { width, height } = sizeRef.current;
+    const arcLayer = createCanvasArcLayer(canvasRef.current, width, height, scheduler);
 
     // Clear any existing content
     svg.selectAll("*").remove();
 
-    // Set up projection
-    const projection = d3.geoMercator()
-      .translate([width / 2, height / 2])
-      .scale((width - 1) / 2 / Math.PI);
+    // Set up projection (swapped later by the projection effect)
+    const projection = createProjection(projectionTypeRef.current, width, height);
 
-    // Set up zoom behavior (zoom only, no drag/pan)
+    // Set up zoom behavior: wheel zoom everywhere, drag-to-pan on the flat map
+    // (on the globe, dragging rotates it instead)
     const zoom = d3.zoom<SVGSVGElement, unknown>()
-      .scaleExtent([1, 8])
+      .scaleExtent([MIN_ZOOM, MAX_ZOOM])
+      .translateExtent([[0, 0], [width, height]])
       .filter((event) => {
-        // Only allow wheel events (zoom), block all drag events
-        return event.type === 'wheel';
+        if (event.button) return false;
+        return event.type === 'wheel' || projectionTypeRef.current !== 'globe';
       })
       .on("zoom", (event) => {
         const { transform } = event;
-        // Always zoom from center, ignore any translation
-        const centerTransform = d3.zoomIdentity
-          .translate(width / 2, height / 2)
-          .scale(transform.k)
-          .translate(-width / 2, -height / 2);
-        
+
         // Transform the main group (contains both countries and arcs)
         svg.selectAll('.main-group')
-          .attr("transform", centerTransform.toString());
+          .attr("transform", transform.toString());
+        arcLayer.setTransform(transform);
+
+        zoomTransformRef.current = transform;
+        mapActionsRef.current.applyZoomScale();
+        setViewTransform(transform);
       });
 
-    svg.call(zoom);
+    // Double click would also focus the country under the cursor, so it does not zoom
+    svg.call(zoom).on("dblclick.zoom", null);
 
-    // Add overlay rect for zoom/pan
-    svg.append("rect")
+    // Add overlay rect for zoom/pan; clicking the background zooms back out
+    const overlay = svg.append("rect")
       .attr("width", width)
       .attr("height", height)
       .style("fill", "none")
-      .style("pointer-events", "all");
+      .style("pointer-events", "all")
+      .on("click", () => {
+        mapActionsRef.current.resetZoom();
+        setSelectedCountry(null);
+        setSelectedAttackId(null);
+      });
 
     // Create path generator
     const path = d3.geoPath().projection(projection);
 
+    // Outline a hovered or focused country and show its name next to a point in SVG units
+    const showCountry = (element: SVGPathElement, feature: CountryFeature, point: [number, number]) => {
+      d3.select(element)
+        .style("stroke", themeRef.current.hover)
+        .style("stroke-width", `${2 / zoomTransformRef.current.k}px`);
+
+      showTooltip(tooltip, countryTooltipContent(featureName(localeRef.current, feature)), point, COUNTRY_TOOLTIP_OFFSET);
+    };
+
+    const selectCountry = (feature: CountryFeature) => {
+      mapActionsRef.current.focusCountry(feature);
+      setSelectedCountry({ code: toIso3(feature.id), name: feature.properties.name });
+    };
+
     // Convert topojson to geojson
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const countries = topojson.feature(worldData as any, worldData.objects.world_subunits as any);
 
     // Create main transform group for both countries and arcs
@@ -106,8 +456,17 @@ const SimpleWorldMap: React.FC = () => {
     const countriesGroup = mainGroup.append("g")
       .attr("class", "countries-group");
 
+    // Ocean disc behind the countries, only shown in globe mode
+    const spherePath = countriesGroup.append("path")
+      .datum({ type: "Sphere" } as d3.GeoPermissibleObjects)
+      .attr("class", "globe-sphere")
+      .style("fill", themeRef.current.ocean)
+      .style("stroke", themeRef.current.border)
+      .style("stroke-width", "1px");
+
     // Add countries - ALL SAME GRAY COLOR with hover border effect
     countriesGroup.selectAll(".subunit")
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
       .data((countries as any).features)
       .enter()
       .append("path")
@@ -115,383 +474,1659 @@ const SimpleWorldMap: React.FC = () => {
         const feature = d as CountryFeature;
         return `subunit-boundary subunit gray-country ${feature.id}`;
       })
-      .style("fill", "#cccccc") // All countries same gray color
-      .style("stroke", "#999999")
+      .style("fill", (d) => countryFillRef.current(d as CountryFeature))
+      .style("stroke", themeRef.current.border)
       .style("stroke-width", "1px")
       .style("stroke-linejoin", "round")
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
       .attr("d", path as any)
+      // Reachable with Tab; Enter or Space opens the country like a click
+      .attr("tabindex", 0)
+      .attr("role", "button")
+      .attr("aria-label", (d) => featureName(localeRef.current, d as CountryFeature))
       .on("mouseover", function(event, d) {
+        showCountry(this, d as CountryFeature, d3.pointer(event, svgRef.current));
+      })
+      .on("focus", function(event, d) {
         const feature = d as CountryFeature;
-
-        // Change border color on hover
-        d3.select(this)
-          .style("stroke", "#6a6e6d")
-          .style("stroke-width", "2px");
-        //   .style("fill", "#aaaaaa");
-
-
-        // Show tooltip with country name
-        const [mouseX, mouseY] = d3.pointer(event, svgRef.current);
-
-        tooltip
-          .style("display", "block")
-          .style("left", `${mouseX + 5}px`)
-          .style("top", `${mouseY - 25}px`)
-          .html(`<p>${feature.properties.name}</p>`);
+        const centroid = (sceneRef.current?.path ?? path).centroid(feature as unknown as d3.GeoPermissibleObjects);
+        showCountry(this, feature, zoomTransformRef.current.apply(centroid));
       })
-      .on("mouseout", function() {
+      .on("mouseout blur", function(event, d) {
         // Reset border color
         d3.select(this)
-          .style("stroke", "#999999")
-          .style("stroke-width", "1px");
-
-        // Reset all countries to original gray color
-        countriesGroup.selectAll(".subunit")
-          .style("fill", "#cccccc"); // Original gray color
+          .style("stroke", themeRef.current.border)
+          .style("stroke-width", `${1 / zoomTransformRef.current.k}px`)
+          .style("fill", countryFillRef.current(d as CountryFeature));
 
         tooltip.style("display", "none");
+      })
+      .on("click", (event, d) => selectCountry(d as CountryFeature))
+      .on("keydown", (event: KeyboardEvent, d) => {
+        if (event.key !== 'Enter' && event.key !== ' ') return;
+        event.preventDefault();
+        selectCountry(d as CountryFeature);
       });
 
-    // Add animated attack arcs inside main group
-    addAnimatedAttackArcs(mainGroup, projection, tooltip, svgRef.current);
+    // Create arcs group, then the pointers group on top of it
+    const arcsGroup = mainGroup.append("g")
+      .attr("class", "attack-arcs");
+
+    const pointersGroup = mainGroup.append("g")
+      .attr("class", "attack-pointers");
+
+    // Hubs go on top so they stay hoverable
+    const hubsGroup = mainGroup.append("g")
+      .attr("class", "threat-hubs");
+
+    sceneRef.current = {
+      countriesGroup,
+      mainGroup,
+      arcsGroup,
+      pointersGroup,
+      hubsGroup,
+      spherePath,
+      zoom,
+      overlay,
+      projection,
+      path,
+      tooltip,
+      svgElement: svgRef.current,
+      arcLayer
+    };
+
+    // Canvas arcs cannot receive mouse events, so hover is hit-tested against the pointer position
+    let hoveredArcId: string | null = null;
+    svg
+      .on("mousemove.canvas-arcs", (event) => {
+        const hitId = arcLayer.hitTest(d3.pointer(event, mainGroup.node()));
+        const hit = hitId ? shownAttacksRef.current.get(hitId) : undefined;
+
+        if (hit) {
+          showTooltip(tooltip, attackTooltip(hit.attack), d3.pointer(event, svgRef.current), ARC_TOOLTIP_OFFSET);
+        } else if (hoveredArcId) {
+          tooltip.style("display", "none");
+        }
+
+        hoveredArcId = hit ? hit.attack.id : null;
+        arcLayer.setHovered(hoveredArcId);
+      })
+      .on("mouseleave.canvas-arcs", () => {
+        hoveredArcId = null;
+        arcLayer.setHovered(null);
+      })
+      // Captured before the countries and the background see the click
+      .on("click.canvas-arcs", (event) => {
+        const hitId = arcLayer.hitTest(d3.pointer(event, mainGroup.node()));
+        if (!hitId) return;
+        event.stopPropagation();
+        setSelectedAttackId(hitId);
+      }, { capture: true });
 
-    // Add attack pointers (red glowing circles)
-    addAttackPointers(mainGroup, projection);
+    const shownFlows = shownFlowsRef.current;
 
     // Cleanup function
     return () => {
-      // Clear all particle intervals
-      svg.selectAll('.attack-arcs').each(function() {
-        const intervalId = (this as any).__particleInterval;
-        if (intervalId) {
-          clearInterval(intervalId);
-        }
-      });
+      sceneRef.current = null;
+      if (filtersFrameRef.current !== null) cancelAnimationFrame(filtersFrameRef.current);
+      filtersFrameRef.current = null;
 
       // Clear all animations and particles
-      svg.selectAll('.attack-particle').remove();
+      svg.selectAll('.attack-particle').interrupt().remove();
       svg.selectAll('.attack-arc').remove();
-      svg.selectAll('.attack-pointer').remove();
+      shownFlows.forEach(({ remove }) => remove());
+      shownFlows.clear();
+      svg.selectAll('.attack-flow').interrupt().remove();
+      svg.selectAll('.attack-pointer').interrupt().remove();
+      svg.interrupt();
+      svg.on(".canvas-arcs", null);
+      arcLayer.destroy();
     };
-  }, []);
+  }, [scheduler]);
+
+  // Frame callbacks read the ref on every frame, so switching the system setting takes effect on the arcs already shown
+  useEffect(() => {
+    reducedMotionRef.current = reducedMotion;
+    sceneRef.current?.arcLayer.setReducedMotion(reducedMotion);
+  }, [reducedMotion]);
+
+  // Tooltips are filled when they open, so new fields show from the next hover
+  useEffect(() => {
+    tooltipFieldsRef.current = tooltipFields;
+  }, [tooltipFields]);
+
+  // Re-project everything drawn on the map: countries, sphere, arcs and pointers.
+  // Points behind the globe's horizon are hidden with `visibility` so filters keep owning `display`.
+  const renderScene = () => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    scene.countriesGroup.selectAll<SVGPathElement, any>(".subunit").attr("d", scene.path);
+    scene.spherePath.attr("d", scene.path);
+
+    shownAttacksRef.current.forEach(({ update }) => update());
+    updateFlowGeometry();
+
+    scene.pointersGroup.selectAll<SVGCircleElement, unknown>('.attack-pointer')
+      .each(function() {
+        const point = projectVisible(scene.projection, [Number(this.dataset.lng), Number(this.dataset.lat)]);
+
+        d3.select(this)
+          .style("visibility", point ? "visible" : "hidden")
+          .attr("cx", point ? point[0] : 0)
+          .attr("cy", point ? point[1] : 0);
+      });
+
+    placeHubs();
+
+    // Track the globe's centre for the minimap, to the nearest degree
+    if (scene.projection.clipAngle()) {
+      const [lambda, phi] = scene.projection.rotate();
+      const centre: [number, number] = [Math.round((((-lambda + 180) % 360) + 360) % 360 - 180), Math.round(-phi)];
+      setGlobeCentre(current => (current[0] === centre[0] && current[1] === centre[1] ? current : centre));
+    }
+  };
+
+  // Keep strokes, pointer radii and arc widths the same size on screen at every zoom level
+  // (pulsing pointers and particles read the zoom on each frame)
+  const applyZoomScale = () => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+    const k = zoomTransformRef.current.k;
+
+    scene.countriesGroup.selectAll(".subunit").style("stroke-width", `${1 / k}px`);
+    scene.spherePath.style("stroke-width", `${1 / k}px`);
+    scene.arcsGroup.selectAll<SVGPathElement, unknown>('.attack-arc')
+      .style("stroke-width", function() {
+        return `${Number(this.dataset.strokeWidth) / k}px`;
+      });
+    shownFlowsRef.current.forEach(({ restyle }) => restyle());
+    scene.pointersGroup.selectAll('.attack-pointer').style("stroke-width", `${2 / k}px`);
+    placeHubs();
+  };
+
+  // Position hub markers, hiding those behind the globe. Markers are scaled by 1/zoom
+  // so they keep their size on screen.
+  const placeHubs = () => {
+    const scene = sceneRef.current;
+    if (!scene) return;
 
-  // Function to create dramatic globe-style arc (like the images)
-  const createDramaticGlobeArc = (source: [number, number], target: [number, number]) => {
-    const dx = target[0] - source[0];
-    const dy = target[1] - source[1];
-    const distance = Math.sqrt(dx * dx + dy * dy);
-    
-    // Calculate dramatic arc height based on distance
-    const arcHeight = Math.min(distance * 0.6, 300); // More dramatic curve
-    
-    // Calculate multiple control points for smoother curve
-    const midX = (source[0] + target[0]) / 2;
-    const midY = (source[1] + target[1]) / 2 - arcHeight;
-    
-    // Create cubic bezier curve for smoother, more dramatic arc
-    const cp1X = source[0] + (midX - source[0]) * 0.5;
-    const cp1Y = source[1] - arcHeight * 0.3;
-    const cp2X = target[0] - (target[0] - midX) * 0.5;
-    const cp2Y = target[1] - arcHeight * 0.3;
-    
-    // Create dramatic curved arc
-    return `M${source[0]},${source[1]}C${cp1X},${cp1Y} ${cp2X},${cp2Y} ${target[0]},${target[1]}`;
-  };
-
-  // Function to update arc path on projection change
-  const updateArcPath = (arc: d3.Selection<SVGPathElement, unknown, null, undefined>, sourceId: string, targetId: string, projection: d3.GeoProjection) => {
     const coordinates = countryCoordinates as { [key: string]: CountryCoordinate };
-    const sourceCoord = coordinates[sourceId];
-    const targetCoord = coordinates[targetId];
+    const k = zoomTransformRef.current.k;
+
+    scene.hubsGroup.selectAll<SVGGElement, ThreatHub>('.threat-hub')
+      .each(function(hub) {
+        const coord = coordinates[hub.country];
+        const point = coord && projectVisible(scene.projection, [coord.lng, coord.lat]);
+
+        d3.select(this)
+          .style("visibility", point ? "visible" : "hidden")
+          .attr("transform", point ? `translate(${point[0]},${point[1]}) scale(${1 / k})` : null);
+      });
+  };
+
+  // Colour hub markers by type with the current theme
+  const colorHubs = () => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+    const theme = themeRef.current;
 
-    if (sourceCoord && targetCoord) {
-      const sourcePoint = projection([sourceCoord.lng, sourceCoord.lat]);
-      const targetPoint = projection([targetCoord.lng, targetCoord.lat]);
+    const markers = scene.hubsGroup.selectAll<SVGGElement, ThreatHub>('.threat-hub');
+    markers.select('.threat-hub-halo').style("fill", hub => theme.hubs[hub.type]);
+    markers.select('.threat-hub-core')
+      .style("fill", theme.background)
+      .style("stroke", hub => theme.hubs[hub.type]);
+    markers.select('.threat-hub-label')
+      .style("fill", theme.label)
+      .style("stroke", theme.labelHalo);
+  };
+
+  // Draw a marker per hub; primary hubs pulse
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+
+    const markers = scene.hubsGroup
+      .selectAll<SVGGElement, ThreatHub>('.threat-hub')
+      .data(hubs, hub => hub.id)
+      .join(enter => {
+        const group = enter.append("g")
+          .attr("class", "threat-hub")
+          .style("cursor", "pointer");
+
+        group.append("circle").attr("class", "threat-hub-halo");
+        group.append("circle")
+          .attr("class", "threat-hub-core")
+          .attr("r", 6)
+          .style("stroke-width", 3);
+        group.append("text")
+          .attr("class", "threat-hub-label")
+          .attr("y", -18)
+          .style("font-size", "12px")
+          .style("font-weight", "bold")
+          .style("text-anchor", "middle")
+          .style("paint-order", "stroke")
+          .style("stroke-width", "3px")
+          .style("pointer-events", "none");
+        return group;
+      });
+
+    markers.select<SVGCircleElement>('.threat-hub-halo')
+      .attr("r", hub => hub.importance * 4)
+      .style("opacity", 0.3);
+    markers.select('.threat-hub-label')
+      .text(hub => hub.name);
+    colorHubs();
 
-      if (sourcePoint && targetPoint) {
-        const newPath = createDramaticGlobeArc(sourcePoint, targetPoint);
-        arc.attr("d", newPath);
+    markers
+      .on("mouseenter mousemove", (event, hub) => {
+        const [x, y] = d3.pointer(event, containerRef.current);
+        setHoveredHub({ id: hub.id, x, y });
+      })
+      .on("mouseleave", () => setHoveredHub(null))
+      .on("click", (event, hub) => {
+        event.stopPropagation();
+        mapActionsRef.current.selectHub(hub);
+      });
+
+    placeHubs();
+
+    const halos = markers.filter(hub => hub.type === 'primary').select<SVGCircleElement>('.threat-hub-halo');
+    const pulseStart = scheduler.now();
+    return scheduler.onFrame((now) => {
+      const phase = ((now - pulseStart) % 4000) / 2000;
+      const swell = reducedMotionRef.current ? 0 : d3.easeQuadInOut(phase < 1 ? phase : 2 - phase);
+
+      halos
+        .attr("r", hub => hub.importance * 4 * (1 + swell * 0.2))
+        .style("opacity", 0.3 - swell * 0.2);
+    });
+  }, [hubs, scheduler]);
+
+  // Open a hub's country in the drawer and zoom to it
+  const selectHub = (hub: ThreatHub) => {
+    const scene = sceneRef.current;
+    const coordinates = countryCoordinates as { [key: string]: CountryCoordinate };
+    setSelectedCountry({ code: hub.country, name: coordinates[hub.country]?.name ?? hub.country });
+    if (!scene) return;
+
+    // Countries split into subunits zoom to their largest part (e.g. the mainland US rather than Alaska)
+    const feature = scene.countriesGroup.selectAll<SVGPathElement, CountryFeature>('.subunit')
+      .data()
+      .filter(candidate => toIso3(candidate.id) === hub.country)
+      .sort((a, b) => d3.geoArea(b as unknown as d3.GeoPermissibleObjects) - d3.geoArea(a as unknown as d3.GeoPermissibleObjects))[0];
+    if (feature) focusCountry(feature);
+  };
+
+  // Animate the globe so that [lng, lat] ends up in the middle
+  const rotateGlobeTo = (lngLat: [number, number], onEnd?: () => void) => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+
+    const projection = scene.projection;
+    const interpolate = d3.interpolate(projection.rotate(), rotationTowards(projection.rotate(), lngLat));
+    const start = scheduler.now();
+
+    const stop = scheduler.onFrame((now) => {
+      const t = Math.min((now - start) / ZOOM_DURATION, 1);
+      projection.rotate(interpolate(d3.easeCubicInOut(t)));
+      renderScene();
+
+      if (t === 1) {
+        stop();
+        onEnd?.();
       }
+    });
+  };
+
+  const zoomTo = (transform: d3.ZoomTransform) => {
+    const scene = sceneRef.current;
+    if (!scene || !svgRef.current) return;
+
+    d3.select(svgRef.current)
+      .transition()
+      .duration(ZOOM_DURATION)
+      .call(scene.zoom.transform, transform);
+  };
+
+  // Zoom to a clicked country's bounds; the globe first turns to face it
+  const focusCountry = (feature: CountryFeature) => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+
+    const geometry = feature as unknown as d3.GeoPermissibleObjects;
+    const zoomToCountry = () => {
+      const { width, height } = sizeRef.current;
+      zoomTo(fitBounds(scene.path.bounds(geometry), width, height));
+    };
+
+    if (projectionTypeRef.current === 'globe') {
+      rotateGlobeTo(d3.geoCentroid(geometry), zoomToCountry);
+    } else {
+      zoomToCountry();
     }
   };
 
-  // Function to add attack pointers (red glowing circles)
-  const addAttackPointers = (mainGroup: d3.Selection<SVGGElement, unknown, null, undefined>, projection: d3.GeoProjection) => {
-    const coordinates = countryCoordinates as { [key: string]: CountryCoordinate };
-    const threats = threatData as ThreatData;
+  const zoomBy = (factor: number) => {
+    const scene = sceneRef.current;
+    if (!scene || !svgRef.current) return;
 
-    // Create pointers group
-    const pointersGroup = mainGroup.append("g")
-      .attr("class", "attack-pointers");
+    d3.select(svgRef.current)
+      .transition()
+      .duration(300)
+      .call(scene.zoom.scaleBy, factor);
+  };
+
+  const resetZoom = () => zoomTo(d3.zoomIdentity);
+
+  // Jump straight to a zoom level and [lng, lat] centre, e.g. one restored from a shared link.
+  // The globe turns to face the centre and zooms around the middle of the view.
+  const applyView = (zoom: number, centre?: [number, number]) => {
+    const scene = sceneRef.current;
+    if (!scene || !svgRef.current) return;
+
+    const { width, height } = sizeRef.current;
+    const svg = d3.select(svgRef.current);
+    let focus: [number, number] = [width / 2, height / 2];
+
+    if (projectionTypeRef.current === 'globe') {
+      if (centre) {
+        scene.projection.rotate(rotationTowards(scene.projection.rotate(), centre));
+        renderScene();
+      }
+    } else if (centre) {
+      focus = scene.projection(centre) ?? focus;
+    }
+
+    svg.interrupt().call(
+      scene.zoom.transform,
+      d3.zoomIdentity.translate(width / 2, height / 2).scale(zoom).translate(-focus[0], -focus[1])
+    );
+  };
+
+  // Centre the main map on a point picked in the minimap, keeping the zoom level
+  const navigateTo = (lngLat: [number, number]) => {
+    const scene = sceneRef.current;
+    if (!scene || !svgRef.current) return;
+
+    if (projectionTypeRef.current === 'globe') {
+      rotateGlobeTo(lngLat);
+      return;
+    }
+
+    const point = scene.projection(lngLat);
+    if (!point) return;
+    d3.select(svgRef.current)
+      .transition()
+      .duration(ZOOM_DURATION)
+      .call(scene.zoom.translateTo, point[0], point[1]);
+  };
+
+  useEffect(() => {
+    autoSpinRef.current = autoSpin;
+  }, [autoSpin]);
+
+  // Refit the projection in place when the container is resized. Arcs and pointers are re-projected,
+  // and particles already in flight follow their arc's new geometry on the next frame,
+  // so no animation restarts.
+  useEffect(() => {
+    sizeRef.current = { width, height };
+    const scene = sceneRef.current;
+    if (!scene || !svgRef.current) return;
+
+    scene.overlay
+      .attr("width", width)
+      .attr("height", height);
+    scene.arcLayer.setSize(width, height);
+    scene.zoom.translateExtent([[0, 0], [width, height]]);
+
+    fitProjection(scene.projection, width, height);
+    mapActionsRef.current.renderScene();
+
+    // Pull the current zoom back inside the new extent
+    d3.select(svgRef.current).call(scene.zoom.translateBy, 0, 0);
+  }, [width, height]);
+
+  useEffect(() => {
+    arcModeRef.current = arcMode;
+    mapActionsRef.current.renderScene();
+  }, [arcMode]);
+
+  // Recolour what is already drawn when the theme changes; arcs are redrawn in the new severity colours
+  useEffect(() => {
+    if (themeRef.current === theme) return;
+    themeRef.current = theme;
+
+    const scene = sceneRef.current;
+    if (!scene) return;
+
+    scene.spherePath.style("fill", theme.ocean).style("stroke", theme.border);
+    scene.countriesGroup.selectAll(".subunit").style("stroke", theme.border);
+    scene.pointersGroup.selectAll(".attack-pointer")
+      .style("stroke", theme.pointer)
+      .style("filter", `drop-shadow(0 0 4px ${theme.pointer})`);
+    colorHubs();
+
+    shownAttacksRef.current.forEach(({ redraw }) => redraw());
+    shownFlowsRef.current.forEach(({ restyle }) => restyle());
+    mapActionsRef.current.applyFilters();
+  }, [theme]);
+
+  // Rename the countries and arcs already drawn when the language changes
+  useEffect(() => {
+    if (localeRef.current === locale) return;
+    localeRef.current = locale;
 
-    // Collect unique attack locations
-    const attackLocations = new Set<string>();
-    threats.attacks.forEach(attack => {
-      attackLocations.add(attack.source);
-      attackLocations.add(attack.target);
+    const scene = sceneRef.current;
+    if (!scene) return;
+
+    scene.countriesGroup.selectAll<SVGPathElement, CountryFeature>(".subunit")
+      .attr("aria-label", feature => featureName(locale, feature));
+    scene.arcsGroup.selectAll<SVGPathElement, unknown>(".attack-arc").each(function() {
+      const shown = shownAttacksRef.current.get(this.dataset.attackId ?? '');
+      if (shown) this.setAttribute("aria-label", attackArcLabel(locale, shown.attack));
     });
+    shownFlowsRef.current.forEach(({ restyle }) => restyle());
+  }, [locale]);
 
-    // Add pointers for each unique location
-    attackLocations.forEach(countryId => {
-      const coord = coordinates[countryId];
-      if (coord) {
-        const point = projection([coord.lng, coord.lat]);
-        if (point) {
-          // Create small outlined red circle
-          const pointer = pointersGroup
-            .append("circle")
-            .attr("class", `attack-pointer ${countryId}`)
-            .attr("cx", point[0])
-            .attr("cy", point[1])
-            .attr("r", 4)
-            .style("fill", "none")
-            .style("stroke", "#ff0000")
-            .style("stroke-width", "2px")
-            .style("opacity", 0.9)
-            .style("filter", "drop-shadow(0 0 4px #ff0000)")
-            .style("pointer-events", "none");
+  // Move the arcs already on the map over to the newly selected renderer
+  useEffect(() => {
+    if (rendererRef.current === renderer) return;
+    rendererRef.current = renderer;
+    shownAttacksRef.current.forEach(({ redraw }) => redraw());
+    mapActionsRef.current.applyFilters();
+  }, [renderer]);
+
+  // Switch between one arc per attack and flow arcs, or merge the flows again with the new window
+  useEffect(() => {
+    const previous = flowSettingsRef.current;
+    flowSettingsRef.current = { aggregation: flowAggregation, window: flowWindow, bundle: bundleFlows };
+    if ((previous.aggregation === 'none') !== (flowAggregation === 'none')) {
+      shownAttacksRef.current.forEach(({ redraw }) => redraw());
+    }
+    mapActionsRef.current.applyFilters();
+  }, [flowAggregation, flowWindow, bundleFlows]);
+
+  // Swap the projection in place and, for the globe, wire up drag-to-rotate with inertia and auto-spin
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene || !svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    const isGlobe = projectionType === 'globe';
+    projectionTypeRef.current = projectionType;
+
+    // Each projection starts from the full view
+    svg.interrupt().call(scene.zoom.transform, d3.zoomIdentity);
+
+    scene.projection = createProjection(projectionType, sizeRef.current.width, sizeRef.current.height);
+    scene.path = d3.geoPath().projection(scene.projection);
+    scene.spherePath.style("display", isGlobe ? "inline" : "none");
+    mapActionsRef.current.renderScene();
 
-          // Add subtle pulsing animation
-          const animatePulse = () => {
-            pointer
-              .transition()
-              .duration(2000)
-              .attr("r", 6)
-              .style("opacity", 0.6)
-              .transition()
-              .duration(2000)
-              .attr("r", 4)
-              .style("opacity", 0.9)
-              .on("end", animatePulse);
-          };
-
-          animatePulse();
+    if (!isGlobe) return;
+
+    const projection = scene.projection;
+    let velocity: [number, number] = [0, 0];
+    let dragging = false;
+    let lastDragTime = 0;
+
+    const rotateBy = (dLambda: number, dPhi: number) => {
+      const [lambda, phi, gamma] = projection.rotate();
+      projection.rotate([lambda + dLambda, Math.max(-90, Math.min(90, phi + dPhi)), gamma]);
+      mapActionsRef.current.renderScene();
+    };
+
+    const drag = d3.drag<SVGSVGElement, unknown>()
+      .on("start", () => {
+        dragging = true;
+        velocity = [0, 0];
+        lastDragTime = performance.now();
+      })
+      .on("drag", (event) => {
+        // Divide by the zoom level so rotation follows the cursor when zoomed in
+        const k = d3.zoomTransform(svgRef.current as SVGSVGElement).k;
+        const dLambda = (event.dx * DRAG_SENSITIVITY) / k;
+        const dPhi = (-event.dy * DRAG_SENSITIVITY) / k;
+        const now = performance.now();
+        const elapsed = Math.max(now - lastDragTime, 1);
+
+        // Remember the rotation speed (degrees per ms) to carry on after release
+        velocity = [dLambda / elapsed, dPhi / elapsed];
+        lastDragTime = now;
+        rotateBy(dLambda, dPhi);
+      })
+      .on("end", () => {
+        dragging = false;
+        // A pause before releasing means the user stopped the globe on purpose; reduced motion never coasts
+        if (reducedMotionRef.current || performance.now() - lastDragTime > 100) velocity = [0, 0];
+      });
+
+    svg.call(drag).style("cursor", "grab");
+
+    // One frame callback for inertia and auto-spin
+    const stopFrames = scheduler.onFrame((now, elapsed) => {
+      if (!dragging) {
+        if (Math.abs(velocity[0]) > 0.0005 || Math.abs(velocity[1]) > 0.0005) {
+          rotateBy(velocity[0] * elapsed, velocity[1] * elapsed);
+          const decay = Math.pow(INERTIA_DECAY, elapsed / 16);
+          velocity = [velocity[0] * decay, velocity[1] * decay];
+        } else if (autoSpinRef.current && !reducedMotionRef.current) {
+          rotateBy((AUTO_SPIN_SPEED * elapsed) / 1000, 0);
         }
       }
     });
-  };
 
-  // Function to add animated attack arcs
-  const addAnimatedAttackArcs = (mainGroup: d3.Selection<SVGGElement, unknown, null, undefined>, projection: d3.GeoProjection, tooltip: d3.Selection<HTMLDivElement, unknown, null, undefined>, svgElement: SVGSVGElement) => {
+    return () => {
+      stopFrames();
+      svg.on(".drag", null).style("cursor", null);
+    };
+  }, [projectionType, scheduler]);
+
+  // Restore a shared view from the query string once after mount, like the saved hubs.
+  // Zoom and centre wait in `pendingView` for their projection and the measured map size.
+  useEffect(() => {
+    if (!syncUrl) return;
+
     const coordinates = countryCoordinates as { [key: string]: CountryCoordinate };
+    const state = parseMapUrlState(window.location.search);
+    const projection = state.projection ?? projectionTypeRef.current;
+
+    if (state.mode) setMode(state.mode);
+    setProjectionType(projection);
+    setFilters(state.filters);
+    if (state.time !== undefined) seekReplay(state.time);
+    if (state.country) setSelectedCountry({ code: state.country, name: coordinates[state.country]?.name ?? state.country });
+    if (state.attack) setSelectedAttackId(state.attack);
+    setPendingView({ projection, zoom: state.zoom ?? 1, centre: state.centre });
+    setUrlRestored(true);
+  }, [syncUrl, seekReplay]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!pendingView || pendingView.projection !== projectionType || !container) return;
+    // The centre is placed relative to the map size, so wait until the container has been measured
+    if (Math.abs(container.clientWidth - width) > 1 || Math.abs(container.clientHeight - height) > 1) return;
+
+    mapActionsRef.current.applyView(pendingView.zoom, pendingView.centre);
+    setPendingView(null);
+  }, [pendingView, projectionType, width, height]);
+
+  // Apply the filters on the next frame, once for every attack shown or retired until then
+  const requestFilters = useCallback(() => {
+    if (filtersFrameRef.current !== null) return;
+    filtersFrameRef.current = requestAnimationFrame(() => {
+      filtersFrameRef.current = null;
+      mapActionsRef.current.applyFilters();
+    });
+  }, []);
+
+  // Draw one attack (arc, particles and pointers); with a lifetime the attack retires itself once
+  // that many milliseconds have passed. Neither drawing nor retiring applies the filters: callers
+  // showing or retiring a batch call applyFilters once at the end, or requestFilters.
+  const showAttack = useCallback((attack: ThreatAttack, index = 0, lifetime?: number) => {
+    const scene = sceneRef.current;
+    const shownAttacks = shownAttacksRef.current;
+    if (!scene || shownAttacks.has(attack.id)) return;
+
+    const resolved = resolveAttackEndpoints(attack);
+    const { source, target } = resolved;
+    const { addAttackArc, addAttackPointer, releaseAttackPointer } = mapActionsRef.current;
+    let arc = addAttackArc(scene, resolved, index);
+    if (source) addAttackPointer(scene, source);
+    if (target) addAttackPointer(scene, target);
+
+    let cancelLifetime = () => {};
+    let retired = false;
+    const retire = () => {
+      if (retired) return;
+      retired = true;
+      cancelLifetime();
+      shownAttacks.delete(attack.id);
+      arc.remove();
+      if (source) releaseAttackPointer(scene, source);
+      if (target) releaseAttackPointer(scene, target);
+    };
+
+    if (lifetime !== undefined) {
+      cancelLifetime = scheduler.setTimeout(() => {
+        retire();
+        requestFilters();
+      }, lifetime);
+    }
+    shownAttacks.set(attack.id, {
+      ...resolved,
+      retire,
+      update: () => arc.update(),
+      redraw: () => {
+        arc.remove();
+        arc = addAttackArc(scene, resolved, index);
+        if (emphasizedAttackRef.current === attack.id) arc.emphasize(true);
+      },
+      emphasize: (on) => arc.emphasize(on),
+      pulse: () => arc.pulse()
+    });
+  }, [scheduler, requestFilters]);
+
+  // Show or hide every attack group and pointer according to the current filters,
+  // then refresh the counters. Pointers stay visible while any visible attack uses them.
+  const applyFilters = () => {
+    const scene = sceneRef.current;
+    const shownAttacks = shownAttacksRef.current;
+    if (!scene) return;
+
+    const visibleIds = new Set<string>();
+    const visibleAttacks: ResolvedAttack[] = [];
+    const visiblePointers = new Set<string>();
+    shownAttacks.forEach(shown => {
+      if (matchesFilters(shown.attack, filtersRef.current)) {
+        visibleIds.add(shown.attack.id);
+        visibleAttacks.push(shown);
+        if (shown.source) visiblePointers.add(shown.source.key);
+        if (shown.target) visiblePointers.add(shown.target.key);
+      }
+    });
+
+    scene.arcsGroup.selectAll<SVGGElement, unknown>('.attack')
+      .style("display", function() {
+        return visibleIds.has(this.dataset.attackId ?? '') ? null : "none";
+      });
+    scene.arcLayer.setVisible(id => visibleIds.has(id));
+    syncFlows(scene, visibleAttacks);
+
+    scene.pointersGroup.selectAll<SVGCircleElement, unknown>('.attack-pointer')
+      .style("display", function() {
+        return visiblePointers.has(this.dataset.key ?? '') ? null : "none";
+      });
+
+    setCounts({ shown: shownAttacks.size, visible: visibleIds.size });
+    applyHighlight();
+  };
+
+  // While a country is open in the drawer, dim every arc that neither starts nor ends there
+  const applyHighlight = () => {
+    const scene = sceneRef.current;
+    const shownAttacks = shownAttacksRef.current;
+    if (!scene) return;
+
+    const selected = selectedCountryRef.current;
+    const isRelated = (id: string) => {
+      const attack = shownAttacks.get(id)?.attack;
+      return !!attack && (attack.source === selected || attack.target === selected);
+    };
+
+    scene.arcsGroup.selectAll<SVGGElement, unknown>('.attack')
+      .attr("opacity", function() {
+        return !selected || isRelated(this.dataset.attackId ?? '') ? null : DIMMED_ARC_OPACITY;
+      });
+    scene.arcLayer.setHighlighted(selected ? isRelated : null);
+    scene.arcsGroup.selectAll<SVGGElement, unknown>('.attack-flow')
+      .attr("opacity", function() {
+        const flow = shownFlowsRef.current.get(this.dataset.flowKey ?? '')?.flow;
+        const related = flow?.attacks.some(attack => attack.source === selected || attack.target === selected);
+        return !selected || related ? null : DIMMED_ARC_OPACITY;
+      });
+  };
+
+  useEffect(() => {
+    selectedCountryRef.current = selectedCountry?.code ?? null;
+    applyHighlight();
+  }, [selectedCountry]);
+
+  useEffect(() => {
+    filtersRef.current = filters;
+    mapActionsRef.current.applyFilters();
+  }, [filters]);
+
+  // Retire every attack on the map whenever the mode or the attack set changes
+  useEffect(() => {
+    const shownAttacks = shownAttacksRef.current;
+
+    // Snapshot mode draws the loaded attacks once (staggered, looping forever)
+    if (mode === 'static') {
+      attacks.forEach((attack, index) => showAttack(attack, index));
+      mapActionsRef.current.applyFilters();
+    }
+
+    return () => {
+      shownAttacks.forEach(({ retire }) => retire());
+      mapActionsRef.current.applyFilters();
+    };
+  }, [mode, attacks, showAttack]);
+
+  // Shade countries by attack intensity, or reset them to the theme's land colour
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+
+    countryFillRef.current = intensityScale
+      ? (feature) => {
+        const value = intensityScale.intensity.get(toIso3(feature.id)) ?? 0;
+        return value > 0 ? intensityScale.scale(value) : theme.land;
+      }
+      : () => theme.land;
+
+    scene.countriesGroup.selectAll<SVGPathElement, CountryFeature>(".subunit")
+      .style("fill", (d) => countryFillRef.current(d));
+  }, [intensityScale, theme]);
+
+  // Forget streamed attacks when leaving live mode
+  useEffect(() => {
+    if (mode !== 'live') setStreamedAttacks([]);
+  }, [mode]);
+
+  // Add a streamed attack to the map and schedule its retirement
+  const showLiveAttack = useCallback((attack: ThreatAttack) => {
+    const shownAttacks = shownAttacksRef.current;
+    setStreamedAttacks(current => [...current.slice(-(MAX_STREAM_HISTORY - 1)), attack]);
+
+    // Make room by retiring the oldest arcs first (Map keeps insertion order)
+    while (shownAttacks.size >= maxLiveAttacks) {
+      const oldestId = shownAttacks.keys().next().value as string;
+      shownAttacks.get(oldestId)?.retire();
+    }
+
+    showAttack(attack, 0, Math.max(attackLifetime, attack.duration));
+    // Attacks can arrive many times a frame, so the filters are applied once per frame
+    requestFilters();
+  }, [maxLiveAttacks, attackLifetime, showAttack, requestFilters]);
+
+  useAttackStream({ url: streamUrl, enabled: mode === 'live', onAttack: showLiveAttack });
+
+  // Replay: show exactly the attacks whose [timestamp, timestamp + duration) window contains the clock
+  useEffect(() => {
+    if (mode !== 'replay') return;
+    const shownAttacks = shownAttacksRef.current;
+
+    const isActive = (attack: ThreatAttack) => {
+      const start = Date.parse(attack.timestamp);
+      return start <= replayTime && replayTime < start + attack.duration;
+    };
+
+    shownAttacks.forEach(({ attack, retire }) => {
+      if (!isActive(attack)) retire();
+    });
+    attacks.forEach(attack => {
+      if (isActive(attack)) showAttack(attack);
+    });
+    mapActionsRef.current.applyFilters();
+  }, [mode, attacks, replayTime, showAttack]);
+
+  // Function to compute an attack's arc in the current arc mode and projection
+  const createArcGeometry = (
+    source: Pick<CountryCoordinate, 'lat' | 'lng'>,
+    target: Pick<CountryCoordinate, 'lat' | 'lng'>,
+    projection: d3.GeoProjection): ArcGeometry | null => {
+    if (arcModeRef.current === 'geodesic') {
+      const geometry = createGeodesicArc(projection, [source.lng, source.lat], [target.lng, target.lat]);
+      return geometry.d ? geometry : null;
+    }
+
+    // Screen-space curves need both ends on the visible side of the globe
+    const sourcePoint = projectVisible(projection, [source.lng, source.lat]);
+    const targetPoint = projectVisible(projection, [target.lng, target.lat]);
+    return sourcePoint && targetPoint ? createCubicArc(sourcePoint, targetPoint) : null;
+  };
+
+  // Function to add an attack pointer (glowing circle); pointers are reference counted
+  // so a place shared by several live attacks keeps a single pointer
+  const addAttackPointer = (scene: MapScene, endpoint: AttackEndpoint) => {
+    const pointerCounts = pointerCountsRef.current;
+
+    const count = pointerCounts.get(endpoint.key) ?? 0;
+    pointerCounts.set(endpoint.key, count + 1);
+    if (count > 0) return;
+
+    const point = scene.projection([endpoint.lng, endpoint.lat]);
+    if (point) {
+      // Create small outlined circle
+      const pointer = scene.pointersGroup
+        .append("circle")
+        .attr("class", "attack-pointer")
+        .attr("data-key", endpoint.key)
+        .attr("data-country", endpoint.country)
+        .attr("data-lat", endpoint.lat)
+        .attr("data-lng", endpoint.lng)
+        .attr("cx", point[0])
+        .attr("cy", point[1])
+        .style("visibility", projectVisible(scene.projection, [endpoint.lng, endpoint.lat]) ? "visible" : "hidden")
+        .attr("r", 4 / zoomTransformRef.current.k)
+        .style("fill", "none")
+        .style("stroke", themeRef.current.pointer)
+        .style("stroke-width", `${2 / zoomTransformRef.current.k}px`)
+        .style("opacity", 0.9)
+        .style("filter", `drop-shadow(0 0 4px ${themeRef.current.pointer})`)
+        .style("pointer-events", "none");
+
+      // Add subtle pulsing animation: grow and fade over 2s, then back
+      const pulseStart = scheduler.now();
+      pointerPulsesRef.current.set(endpoint.key, scheduler.onFrame((now) => {
+        const phase = ((now - pulseStart) % 4000) / 2000;
+        const swell = reducedMotionRef.current ? 0 : d3.easeCubicInOut(phase < 1 ? phase : 2 - phase);
+
+        pointer
+          .attr("r", (4 + swell * 2) / zoomTransformRef.current.k)
+          .style("opacity", 0.9 - swell * 0.3);
+      }));
+    }
+  };
+
+  // Function to drop a pointer once no live attack uses its place any more
+  const releaseAttackPointer = (scene: MapScene, endpoint: AttackEndpoint) => {
+    const pointerCounts = pointerCountsRef.current;
+    const count = (pointerCounts.get(endpoint.key) ?? 0) - 1;
+
+    if (count > 0) {
+      pointerCounts.set(endpoint.key, count);
+      return;
+    }
+
+    pointerCounts.delete(endpoint.key);
+    pointerPulsesRef.current.get(endpoint.key)?.();
+    pointerPulsesRef.current.delete(endpoint.key);
+    scene.pointersGroup.selectAll<SVGCircleElement, unknown>('.attack-pointer')
+      .filter(function() { return this.dataset.key === endpoint.key; })
+      .interrupt()
+      .transition()
+      .duration(600)
+      .style("opacity", 0)
+      .remove();
+  };
+
+  // Tooltip content for an attack arc, in the current theme and language
+  const attackTooltip = (attack: ThreatAttack) => attackTooltipContent(
+    attack,
+    localeRef.current,
+    themeRef.current.severity[attack.severity],
+    tooltipFieldsRef.current
+  );
+
+  // Function to add one attack arc with the current renderer. Merged attacks get no arc of their own;
+  // they are drawn by the flow arcs instead.
+  const addAttackArc = (scene: MapScene, resolved: ResolvedAttack, index: number) => {
+    if (flowSettingsRef.current.aggregation !== 'none') {
+      return { remove: () => {}, update: () => {}, emphasize: () => {}, pulse: () => {} };
+    }
+    return rendererRef.current === 'canvas'
+      ? addCanvasAttackArc(scene, resolved, index)
+      : addSvgAttackArc(scene, resolved, index);
+  };
+
+  // Function to add an attack arc to the canvas layer; its frame loop animates the dash flow and particles
+  const addCanvasAttackArc = (scene: MapScene, resolved: ResolvedAttack, index: number) => {
+    const { attack, source: sourceCoord, target: targetCoord } = resolved;
+    const severity = (threatData as ThreatData).severityLevels[attack.severity];
+
+    if (!sourceCoord || !targetCoord || !severity) {
+      return { remove: () => {}, update: () => {}, emphasize: () => {}, pulse: () => {} };
+    }
+
+    const arc = scene.arcLayer.add(
+      {
+        id: attack.id,
+        color: themeRef.current.severity[attack.severity],
+        strokeWidth: severity.strokeWidth,
+        // Same stagger as the SVG arcs, wrapped so large snapshots do not wait minutes for their last arcs
+        delay: (index % CANVAS_STAGGER_WRAP) * 400
+      },
+      createArcGeometry(sourceCoord, targetCoord, scene.projection)
+    );
+
+    return {
+      remove: arc.remove,
+      update: () => arc.update(createArcGeometry(sourceCoord, targetCoord, scene.projection)),
+      emphasize: (on: boolean) => scene.arcLayer.setHovered(on ? attack.id : null),
+      pulse: arc.pulse
+    };
+  };
+
+  // Function to add one animated SVG attack arc with its particle stream.
+  // Returns `remove`, which stops the animations and fades the arc out, `update`,
+  // which re-projects the arc (particles pick up the new endpoints on their next frame),
+  // and `emphasize` and `pulse`, which draw attention to it.
+  const addSvgAttackArc = (scene: MapScene, resolved: ResolvedAttack, index: number) => {
+    const { attack, source: sourceCoord, target: targetCoord } = resolved;
+    const { arcsGroup, tooltip, svgElement } = scene;
     const threats = threatData as ThreatData;
 
-    // Create arcs group
-    const arcsGroup = mainGroup.append("g")
-      .attr("class", "attack-arcs");
+    // Cancels every scheduler task started for this arc, so it can be torn down on its own
+    const cancels = new Set<() => void>();
+    let stopped = false;
+
+    const own = (cancel: () => void) => {
+      cancels.add(cancel);
+      return () => {
+        cancel();
+        cancels.delete(cancel);
+      };
+    };
+
+    const severity = threats.severityLevels[attack.severity];
+
+    if (!sourceCoord || !targetCoord || !severity) {
+      return { remove: () => {}, update: () => {}, emphasize: () => {}, pulse: () => {} };
+    }
+    const color = themeRef.current.severity[attack.severity];
+
+    // Arc shape shared by the path and its particles, recomputed by `update` whenever the projection changes
+    let geometry: ArcGeometry | null = null;
+
+    // Group the arc with its particles so filters can hide them together
+    const attackGroup = arcsGroup
+      .append("g")
+      .attr("class", "attack")
+      .attr("data-attack-id", attack.id);
+
+    // Create animated dramatic globe-style arc
+    const arcPath = attackGroup
+      .append("path")
+      .attr("class", `attack-arc attack-${attack.severity}`)
+      .style("fill", "none")
+      .style("stroke", color)
+      .style("stroke-width", `${severity.strokeWidth / zoomTransformRef.current.k}px`)
+      .attr("data-stroke-width", severity.strokeWidth)
+      .style("opacity", 0.9)
+      .style("filter", `drop-shadow(0 0 6px ${color})`)
+      .style("stroke-linecap", "round")
+      .attr("data-attack-id", attack.id)
+      .attr("data-source", attack.source)
+      .attr("data-target", attack.target)
+      .attr("data-type", attack.type)
+      .attr("data-description", attack.description)
+      // Focusable, with the tooltip's content as its accessible name and description
+      .attr("tabindex", 0)
+      .attr("role", "button")
+      .attr("aria-label", attackArcLabel(localeRef.current, attack));
+    arcPath.append("desc").text(attack.description);
+
+    // Add flowing arc animation (stroke-dasharray effect)
+    const pathElement = arcPath.node() as SVGPathElement;
+    let pathLength = pathElement ? pathElement.getTotalLength() : 0;
 
-    // Add animated arcs for each attack
-    threats.attacks.forEach((attack, index) => {
-      const sourceCoord = coordinates[attack.source];
-      const targetCoord = coordinates[attack.target];
-
-      if (sourceCoord && targetCoord) {
-        const sourcePoint = projection([sourceCoord.lng, sourceCoord.lat]);
-        const targetPoint = projection([targetCoord.lng, targetCoord.lat]);
-
-        if (sourcePoint && targetPoint) {
-          const severity = threats.severityLevels[attack.severity];
-
-          // Create animated dramatic globe-style arc
-          const arcPath = arcsGroup
-            .append("path")
-            .attr("class", `attack-arc attack-${attack.severity}`)
-            .attr("d", createDramaticGlobeArc(sourcePoint, targetPoint))
-            .style("fill", "none")
-            .style("stroke", severity.color)
-            .style("stroke-width", severity.strokeWidth)
-            .style("opacity", 0.9)
-            .style("filter", `drop-shadow(0 0 6px ${severity.color})`)
-            .style("stroke-linecap", "round")
-            .attr("data-attack-id", attack.id)
-            .attr("data-source", attack.source)
-            .attr("data-target", attack.target)
-            .attr("data-type", attack.type)
-            .attr("data-description", attack.description);
-
-          // Add flowing arc animation (stroke-dasharray effect)
-          const pathElement = arcPath.node() as SVGPathElement;
-          if (pathElement) {
-            const pathLength = pathElement.getTotalLength();
-            
-            // Set up flowing arc animation
-            const dashLength = 15;
-            const gapLength = 8;
-            
-            // Set initial dash pattern
-            pathElement.style.strokeDasharray = `${dashLength},${gapLength}`;
-            pathElement.style.strokeDashoffset = `${pathLength + dashLength}`;
-            
-            // Animate the arc flow
-            const animateArc = () => {
-              pathElement.style.transition = `stroke-dashoffset 3000ms linear`;
-              pathElement.style.strokeDashoffset = `${-pathLength - dashLength}`;
-              
-              // Restart animation after completion
-              setTimeout(() => {
-                pathElement.style.strokeDashoffset = `${pathLength + dashLength}`;
-                setTimeout(animateArc, 500);
-              }, 3000);
-            };
-            
-            // Start arc animation with delay
-            setTimeout(animateArc, index * 400);
-            
-            // Create subtle particle stream (arc is main animation)
-            const createParticleStream = () => {
-              let particleId = 0;
-              const streamInterval = 1500; // Slower particle stream since arc is animated
-              
-              const spawnParticle = () => {
-                const particle = arcsGroup
-                  .append("circle")
-                  .attr("class", `attack-particle ${attack.id}-${particleId}`)
-                  .attr("cx", sourcePoint[0])
-                  .attr("cy", sourcePoint[1])
-                  .attr("r", 2)
-                  .style("fill", severity.color)
-                  .style("opacity", 0.7)
-                  .style("filter", `drop-shadow(0 0 4px ${severity.color})`)
-                  .style("pointer-events", "none");
-
-                // Animate this particle along the arc
-                const animateParticle = () => {
-                  const startTime = Date.now();
-                  const duration = 2500; // Fixed duration for consistent flow
-                  
-                  const animate = () => {
-                    const elapsed = Date.now() - startTime;
-                    const progress = Math.min(elapsed / duration, 1);
-                    
-                    if (progress < 1) {
-                      // Easing function for smooth movement
-                      const easeProgress = 1 - Math.pow(1 - progress, 3); // Ease out cubic
-                      
-                      // Calculate position along the dramatic cubic bezier curve
-                      const dx = targetPoint[0] - sourcePoint[0];
-                      const dy = targetPoint[1] - sourcePoint[1];
-                      const distance = Math.sqrt(dx * dx + dy * dy);
-                      const arcHeight = Math.min(distance * 0.6, 300);
-                      
-                      // Calculate control points for cubic bezier
-                      const midX = (sourcePoint[0] + targetPoint[0]) / 2;
-                      const cp1X = sourcePoint[0] + (midX - sourcePoint[0]) * 0.5;
-                      const cp1Y = sourcePoint[1] - arcHeight * 0.3;
-                      const cp2X = targetPoint[0] - (targetPoint[0] - midX) * 0.5;
-                      const cp2Y = targetPoint[1] - arcHeight * 0.3;
-                      
-                      // Cubic bezier interpolation
-                      const t = easeProgress;
-                      const x = Math.pow(1 - t, 3) * sourcePoint[0] + 
-                               3 * Math.pow(1 - t, 2) * t * cp1X + 
-                               3 * (1 - t) * Math.pow(t, 2) * cp2X + 
-                               Math.pow(t, 3) * targetPoint[0];
-                      const y = Math.pow(1 - t, 3) * sourcePoint[1] + 
-                               3 * Math.pow(1 - t, 2) * t * cp1Y + 
-                               3 * (1 - t) * Math.pow(t, 2) * cp2Y + 
-                               Math.pow(t, 3) * targetPoint[1];
-                      
-                      // Update particle position (subtle since arc is main animation)
-                      particle
-                        .attr("cx", x)
-                        .attr("cy", y)
-                        .style("opacity", 0.7 - progress * 0.3) // Fade out as it travels
-                        .style("r", 2 + Math.sin(progress * Math.PI) * 0.5); // Subtle pulse
-                      
-                      requestAnimationFrame(animate);
-                    } else {
-                      // Particle reached target - remove it
-                      particle.remove();
-                    }
-                  };
-                  
-                  animate();
-                };
-                
-                // Start this particle's animation
-                animateParticle();
-                particleId++;
-              };
-              
-              // Start spawning particles
-              spawnParticle(); // First particle
-              
-              // Continue spawning particles at intervals
-              const intervalId = setInterval(spawnParticle, streamInterval);
-              
-              // Store interval ID for cleanup
-              (arcsGroup.node() as any).__particleInterval = intervalId;
-            };
-            
-            // Start the particle stream with delay
-            setTimeout(createParticleStream, index * 300);
-          }
-
-                 // Hover effects
-                 arcPath
-                   .on("mouseover", function(event) {
-                     d3.select(this)
-                       .style("opacity", 1)
-                       .style("stroke-width", severity.strokeWidth * 1.5);
-
-                     const [mouseX, mouseY] = d3.pointer(event, svgElement);
-
-              tooltip
-                .style("display", "block")
-                .style("left", `${mouseX + 10}px`)
-                .style("top", `${mouseY - 40}px`)
-                .html(`
-                  <div style="font-weight: bold; color: ${severity.color};">${attack.type}</div>
-                  <div style="margin: 3px 0;">From: <strong>${sourceCoord.name}</strong></div>
-                  <div style="margin: 3px 0;">To: <strong>${targetCoord.name}</strong></div>
-                  <div style="margin: 3px 0;">Severity: <span style="color: ${severity.color};">${attack.severity.toUpperCase()}</span></div>
-                  <div style="margin-top: 8px; font-size: 11px; line-height: 1.3;">${attack.description}</div>
-                `);
-            })
-            .on("mouseout", function() {
-              d3.select(this)
-                .style("opacity", 0.8)
-                .style("stroke-width", severity.strokeWidth);
-
-              tooltip.style("display", "none");
-            });
+    const update = () => {
+      geometry = createArcGeometry(sourceCoord, targetCoord, scene.projection);
+
+      // Hide the whole attack while it is entirely behind the globe
+      attackGroup.style("visibility", geometry ? "visible" : "hidden");
+      if (!geometry) return;
+
+      arcPath.attr("d", geometry.d);
+      pathLength = pathElement.getTotalLength();
+    };
+    update();
+
+    if (pathElement) {
+      // Set up flowing arc animation
+      const dashLength = 15;
+      const gapLength = 8;
+
+      // Set initial dash pattern
+      pathElement.style.strokeDasharray = `${dashLength},${gapLength}`;
+      pathElement.style.strokeDashoffset = `${pathLength + dashLength}`;
+
+      // Animate the arc flow: the dash offset runs across the arc in 3s, then rests for 0.5s
+      const flowStart = scheduler.now() + index * 400;
+      own(scheduler.onFrame((now) => {
+        if (reducedMotionRef.current) {
+          pathElement.style.strokeDashoffset = '0';
+          return;
         }
-      }
+
+        const elapsed = now - flowStart;
+        if (elapsed < 0) return;
+
+        const phase = elapsed % 3500;
+        const offset = phase < 3000
+          ? pathLength + dashLength - (2 * (pathLength + dashLength) * phase) / 3000
+          : pathLength + dashLength;
+        pathElement.style.strokeDashoffset = `${offset}`;
+      }));
+
+      // Create subtle particle stream (arc is main animation)
+      const createParticleStream = () => {
+        let particleId = 0;
+        const streamInterval = 1500; // Slower particle stream since arc is animated
+
+        const spawnParticle = () => {
+          if (reducedMotionRef.current) return;
+          const start = geometry?.pointAt(0);
+          const particle = attackGroup
+            .append("circle")
+            .attr("class", `attack-particle ${attack.id}-${particleId}`)
+            .attr("cx", start ? start[0] : 0)
+            .attr("cy", start ? start[1] : 0)
+            .attr("r", 2 / zoomTransformRef.current.k)
+            .style("fill", color)
+            .style("opacity", 0.7)
+            .style("filter", `drop-shadow(0 0 4px ${color})`)
+            .style("pointer-events", "none");
+
+          // Animate this particle along the arc
+          const startTime = scheduler.now();
+          const duration = 2500; // Fixed duration for consistent flow
+
+          const stopParticle = own(scheduler.onFrame((now) => {
+            const progress = Math.min((now - startTime) / duration, 1);
+
+            if (progress < 1) {
+              // Easing function for smooth movement
+              const easeProgress = 1 - Math.pow(1 - progress, 3); // Ease out cubic
+
+              // Position along the arc's current geometry (null while behind the globe)
+              const point = geometry?.pointAt(easeProgress);
+
+              // Update particle position (subtle since arc is main animation)
+              particle
+                .attr("cx", point ? point[0] : 0)
+                .attr("cy", point ? point[1] : 0)
+                .style("visibility", point ? "visible" : "hidden")
+                .style("opacity", 0.7 - progress * 0.3) // Fade out as it travels
+                .style("r", (2 + Math.sin(progress * Math.PI) * 0.5) / zoomTransformRef.current.k); // Subtle pulse
+            } else {
+              // Particle reached target - remove it
+              stopParticle();
+              particle.remove();
+            }
+          }));
+
+          particleId++;
+        };
+
+        // Start spawning particles
+        spawnParticle(); // First particle
+
+        // Continue spawning particles at intervals
+        own(scheduler.setInterval(spawnParticle, streamInterval));
+      };
+
+      // Start the particle stream with delay
+      own(scheduler.setTimeout(createParticleStream, index * 300));
+    }
+
+    // Hover and feed emphasis widen the arc, the pulse swells it on top of that
+    let emphasized = false;
+    let swell = 0;
+    let stopPulse = () => {};
+
+    const applyArcWidth = () => {
+      arcPath.style("stroke-width", `${(severity.strokeWidth * (emphasized ? 1.5 : 1) * (1 + swell)) / zoomTransformRef.current.k}px`);
+    };
+
+    const emphasize = (on: boolean) => {
+      emphasized = on;
+      arcPath.style("opacity", on ? 1 : 0.8);
+      applyArcWidth();
+    };
+
+    const pulse = () => {
+      if (stopped || reducedMotionRef.current) return;
+      stopPulse();
+      const pulseStart = scheduler.now();
+      stopPulse = own(scheduler.onFrame((now) => {
+        swell = arcPulseSwell(now - pulseStart);
+        applyArcWidth();
+        if (now - pulseStart >= ARC_PULSE_DURATION) stopPulse();
+      }));
+    };
+
+    // Widen the arc and show its tooltip next to a point in SVG units
+    const showArcTooltip = (point: [number, number]) => {
+      emphasize(true);
+      showTooltip(tooltip, attackTooltip(attack), point, ARC_TOOLTIP_OFFSET);
+    };
+
+    // Hover and keyboard focus effects
+    arcPath
+      .on("mouseover", (event) => showArcTooltip(d3.pointer(event, svgElement)))
+      .on("focus", () => {
+        const middle = geometry?.pointAt(0.5);
+        if (middle) showArcTooltip(zoomTransformRef.current.apply(middle));
+      })
+      .on("mouseout blur", () => {
+        emphasize(emphasizedAttackRef.current === attack.id);
+        tooltip.style("display", "none");
+      })
+      .on("click", (event) => {
+        event.stopPropagation();
+        setSelectedAttackId(attack.id);
+      })
+      .on("keydown", (event: KeyboardEvent) => {
+        if (event.key !== 'Enter' && event.key !== ' ') return;
+        event.preventDefault();
+        setSelectedAttackId(attack.id);
+      });
+
+    const remove = () => {
+      if (stopped) return;
+      stopped = true;
+
+      cancels.forEach(cancel => cancel());
+      cancels.clear();
+
+      arcPath
+        .on("mouseover focus mouseout blur click keydown", null);
+
+      attackGroup
+        .transition()
+        .duration(600)
+        .style("opacity", 0)
+        .remove();
+    };
+
+    return { remove, update, emphasize, pulse };
+  };
+
+  // Merge the visible attacks into flows and bring the flow arcs in line: arcs of flows that are
+  // gone fade out, flows that gained or lost attacks keep their arc, and new flows get one
+  const syncFlows = (scene: MapScene, visibleAttacks: ResolvedAttack[]) => {
+    const shownFlows = shownFlowsRef.current;
+    const { aggregation, window } = flowSettingsRef.current;
+    const flows = aggregation === 'none' ? [] : aggregateAttackFlows(visibleAttacks, aggregation, window);
+    const keys = new Set(flows.map(flow => flow.key));
+
+    shownFlows.forEach(({ remove }, key) => {
+      if (keys.has(key)) return;
+      remove();
+      shownFlows.delete(key);
     });
+    flows.forEach(flow => {
+      const shown = shownFlows.get(flow.key);
+      if (shown) shown.set(flow);
+      else shownFlows.set(flow.key, addFlowArc(scene, flow));
+    });
+
+    flowKeysRef.current = new Map(flows.flatMap(flow => flow.attacks.map(attack => [attack.id, flow.key] as [string, string])));
+    updateFlowGeometry();
+  };
+
+  // Project the flow arcs. Bundled flows are laid out together in screen space; otherwise each
+  // flow follows the current arc mode like a single attack's arc.
+  const updateFlowGeometry = () => {
+    const scene = sceneRef.current;
+    const shownFlows = shownFlowsRef.current;
+    if (!scene || shownFlows.size === 0) return;
+
+    if (flowSettingsRef.current.bundle) {
+      const flows = Array.from(shownFlows.values(), ({ flow }) => flow);
+      const geometries = createBundledFlowArcs(flows, end => projectVisible(scene.projection, [end.lng, end.lat]));
+      shownFlows.forEach(({ setGeometry }, key) => setGeometry(geometries.get(key) ?? null));
+      return;
+    }
+
+    shownFlows.forEach(({ flow, setGeometry }) => setGeometry(createArcGeometry(flow.source, flow.target, scene.projection)));
+  };
+
+  // Function to add the SVG arc of a flow: its width follows the attack count and its colour the
+  // worst severity, and the dashes run from source to target. Flows are few enough to stay SVG
+  // with either renderer.
+  const addFlowArc = (scene: MapScene, initialFlow: AttackFlow): ShownFlow => {
+    const { arcsGroup, tooltip, svgElement } = scene;
+    let flow = initialFlow;
+    let geometry: ArcGeometry | null = null;
+    let stopped = false;
+
+    const flowGroup = arcsGroup
+      .append("g")
+      .attr("class", "attack-flow")
+      .attr("data-flow-key", flow.key);
+
+    const flowPath = flowGroup
+      .append("path")
+      .attr("class", "flow-arc")
+      .style("fill", "none")
+      .style("opacity", 0.85)
+      .style("stroke-linecap", "round")
+      .attr("tabindex", 0)
+      .attr("role", "button");
+
+    // Hover and feed emphasis widen the arc, the pulse swells it on top of that
+    let emphasized = false;
+    let swell = 0;
+    let stopPulse = () => {};
+
+    const color = () => themeRef.current.severity[flow.severity];
+
+    const applyWidth = () => {
+      flowPath.style("stroke-width", `${(flowStrokeWidth(flow.attacks.length) * (emphasized ? 1.5 : 1) * (1 + swell)) / zoomTransformRef.current.k}px`);
+    };
+
+    const restyle = () => {
+      const k = zoomTransformRef.current.k;
+      flowPath
+        .style("stroke", color())
+        .style("filter", `drop-shadow(0 0 6px ${color()})`)
+        .style("stroke-dasharray", FLOW_DASH.map(length => length / k).join(","))
+        .attr("aria-label", flowArcLabel(localeRef.current, flow));
+      applyWidth();
+    };
+    restyle();
+
+    const setGeometry = (next: ArcGeometry | null) => {
+      geometry = next;
+      flowGroup.style("visibility", geometry ? "visible" : "hidden");
+      if (geometry) flowPath.attr("d", geometry.d);
+    };
+
+    // Dashes move one pattern length per period, so every flow runs at the same speed on screen
+    const flowStart = scheduler.now();
+    const stopFlow = scheduler.onFrame((now) => {
+      const patternLength = (FLOW_DASH[0] + FLOW_DASH[1]) / zoomTransformRef.current.k;
+      const phase = reducedMotionRef.current ? 0 : ((now - flowStart) % FLOW_DASH_PERIOD) / FLOW_DASH_PERIOD;
+      flowPath.style("stroke-dashoffset", `${-phase * patternLength}`);
+    });
+
+    const emphasize = (on: boolean) => {
+      emphasized = on;
+      flowPath.style("opacity", on ? 1 : 0.85);
+      applyWidth();
+    };
+
+    const pulse = () => {
+      if (stopped || reducedMotionRef.current) return;
+      stopPulse();
+      const pulseStart = scheduler.now();
+      const cancel = scheduler.onFrame((now) => {
+        swell = arcPulseSwell(now - pulseStart);
+        applyWidth();
+        if (now - pulseStart >= ARC_PULSE_DURATION) stopPulse();
+      });
+      stopPulse = () => {
+        cancel();
+        swell = 0;
+      };
+    };
+
+    const isEmphasized = () => flow.attacks.some(attack => attack.id === emphasizedAttackRef.current);
+
+    const showFlowTooltip = (point: [number, number]) => {
+      emphasize(true);
+      showTooltip(tooltip, flowTooltipContent(flow, localeRef.current, color()), point, ARC_TOOLTIP_OFFSET);
+    };
+
+    // Selecting a flow selects its newest attack
+    const select = () => setSelectedAttackId(flow.attacks[flow.attacks.length - 1].id);
+
+    flowPath
+      .on("mouseover", (event) => showFlowTooltip(d3.pointer(event, svgElement)))
+      .on("focus", () => {
+        const middle = geometry?.pointAt(0.5);
+        if (middle) showFlowTooltip(zoomTransformRef.current.apply(middle));
+      })
+      .on("mouseout blur", () => {
+        emphasize(isEmphasized());
+        tooltip.style("display", "none");
+      })
+      .on("click", (event) => {
+        event.stopPropagation();
+        select();
+      })
+      .on("keydown", (event: KeyboardEvent) => {
+        if (event.key !== 'Enter' && event.key !== ' ') return;
+        event.preventDefault();
+        select();
+      });
+
+    if (isEmphasized()) emphasize(true);
+
+    const set = (next: AttackFlow) => {
+      flow = next;
+      restyle();
+    };
+
+    const remove = () => {
+      if (stopped) return;
+      stopped = true;
+      stopFlow();
+      stopPulse();
+      flowPath.on("mouseover focus mouseout blur click keydown", null);
+      flowGroup
+        .transition()
+        .duration(600)
+        .style("opacity", 0)
+        .remove();
+    };
+
+    return {
+      get flow() {
+        return flow;
+      },
+      set,
+      setGeometry,
+      restyle,
+      remove,
+      emphasize,
+      pulse
+    };
+  };
+
+  // The arc an attack is drawn with: its flow arc while attacks are merged, otherwise its own
+  const arcOf = (id: string) => {
+    const flowKey = flowKeysRef.current.get(id);
+    return flowKey ? shownFlowsRef.current.get(flowKey) : shownAttacksRef.current.get(id);
+  };
+
+  // Hovering a feed entry widens its arc and pulses it once
+  const emphasizeAttack = (id: string | null) => {
+    const previous = emphasizedAttackRef.current;
+    if (previous === id) return;
+
+    emphasizedAttackRef.current = id;
+    if (previous) arcOf(previous)?.emphasize(false);
+    if (id) {
+      arcOf(id)?.emphasize(true);
+      arcOf(id)?.pulse();
+    }
+  };
+
+  const selectFeedAttack = (id: string) => {
+    arcOf(id)?.pulse();
+    setSelectedAttackId(id);
+  };
+
+  const isFileDrag = (event: React.DragEvent) => event.dataTransfer.types.includes('Files');
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setDragActive(false);
+
+    const file = event.dataTransfer.files[0];
+    if (!file) return;
+    file.text()
+      .then(text => setPendingImport({ name: file.name, text }))
+      .catch(error => setPendingImport({ name: file.name, text: '', error: error instanceof Error ? error.message : String(error) }));
+  };
+
+  // Imported attacks are a recording, so they are shown in snapshot mode rather than live
+  const applyImport = (imported: ThreatAttack[]) => {
+    setPendingImport(null);
+    setSelectedAttackId(null);
+    setImportedAttacks(imported);
+    if (mode === 'live') setMode('static');
+  };
+
+  // Standalone SVG of the map as drawn right now, with the legend and counters it shows
+  const buildMapSvg = () => {
+    const scene = sceneRef.current;
+    if (!scene) return null;
+
+    return createMapSvg(scene.svgElement, {
+      theme,
+      canvasArcs: rendererRef.current === 'canvas' ? scene.arcLayer.snapshot() : [],
+      zoomScale: zoomTransformRef.current.k,
+      legend: choropleth && intensityScale
+        ? { title: locale.messages.intensityMetrics[choropleth], scale: intensityScale.scale, emptyColor: theme.land, emptyLabel: locale.messages.noAttacks }
+        : undefined,
+      counters: computeAttackCounters(statsWindow.attacks, statsWindow.now ?? Date.now(), { timeZone: counterTimeZone }),
+      timeZone: counterTimeZone,
+      locale
+    });
+  };
+
+  const exportFileName = (extension: string) => `attack-map-${d3.utcFormat('%Y%m%d-%H%M%S')(new Date())}.${extension}`;
+
+  const exportSvg = () => {
+    const svgText = buildMapSvg();
+    if (svgText) downloadFile(svgText, exportFileName('svg'), 'image/svg+xml');
+  };
+
+  const exportPng = async (scale: number) => {
+    const svgText = buildMapSvg();
+    if (!svgText) return;
+    downloadFile(await renderSvgToPng(svgText, width, height, scale), exportFileName('png'));
+  };
+
+  // Attacks on the map that pass the filters, oldest first
+  const exportAttacks = (format: AttackExportFormat) => {
+    const shown = Array.from(shownAttacksRef.current.values(), ({ attack }) => attack)
+      .filter(attack => matchesFilters(attack, filters))
+      .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    downloadFile(formatAttacks(shown, format), exportFileName(format), format === 'csv' ? 'text/csv' : 'application/json');
+  };
+
+  const hoveredHubStats = hoveredHub && hubStats.find(stats => stats.hub.id === hoveredHub.id);
+
+  // Map functions from the latest render, for the effects and d3 handlers bound once. They only
+  // read refs and state setters, so the effects call them through the ref instead of listing them.
+  const mapActionsRef = useRef({
+    applyFilters,
+    renderScene,
+    applyZoomScale,
+    resetZoom,
+    focusCountry,
+    selectHub,
+    applyView,
+    addAttackArc,
+    addAttackPointer,
+    releaseAttackPointer
+  });
+  mapActionsRef.current = {
+    applyFilters,
+    renderScene,
+    applyZoomScale,
+    resetZoom,
+    focusCountry,
+    selectHub,
+    applyView,
+    addAttackArc,
+    addAttackPointer,
+    releaseAttackPointer
   };
 
   return (
-    <div style={{
-      width: '100%',
-      height: '100vh',
-      position: 'relative',
-      overflow: 'hidden',
-      background: '#ffffff'
-    }}>
-      <svg 
+    <div
+      ref={containerRef}
+      // Panels follow the language's direction; the map itself is never mirrored
+      dir={locale.dir}
+      lang={locale.tag}
+      onDragEnter={(event) => {
+        if (isFileDrag(event)) setDragActive(true);
+      }}
+      // Focusing a country near the edge would otherwise scroll the clipped map out of place
+      onScroll={(event) => {
+        event.currentTarget.scrollTop = 0;
+        event.currentTarget.scrollLeft = 0;
+      }}
+      style={{
+        width: '100%',
+        height: containerHeight,
+        position: 'relative',
+        overflow: 'hidden',
+        background: theme.background,
+        colorScheme: theme.colorScheme,
+        ...themeCssVariables(theme)
+      }}
+    >
+      <svg
         ref={svgRef}
         width={width}
         height={height}
         viewBox={`0 0 ${width} ${height}`}
+        direction="ltr"
         style={{ width: '100%', height: '100%' }}
       />
+      <canvas
+        ref={canvasRef}
+        style={{
+          position: 'absolute',
+          top: 0,
+          left: 0,
+          width: '100%',
+          height: '100%',
+          pointerEvents: 'none'
+        }}
+      />
+      <MapToolbar
+        mode={mode}
+        onModeChange={setMode}
+        choropleth={choropleth}
+        onChoroplethChange={setChoropleth}
+        projection={projectionType}
+        onProjectionChange={setProjectionType}
+        autoSpin={autoSpin}
+        onAutoSpinChange={setAutoSpin}
+        arcMode={arcMode}
+        onArcModeChange={setArcMode}
+        renderer={renderer}
+        onRendererChange={setRenderer}
+        paused={paused}
+        onPausedChange={setPaused}
+        theme={themeName}
+        onThemeChange={setThemeName}
+        tableOpen={tableOpen}
+        onTableOpenChange={setTableOpen}
+        localeName={localeName}
+        onLocaleChange={setLocaleName}
+        flowAggregation={flowAggregation}
+        onFlowAggregationChange={setFlowAggregation}
+        flowWindow={flowWindow}
+        onFlowWindowChange={setFlowWindow}
+        bundleFlows={bundleFlows}
+        onBundleFlowsChange={setBundleFlows}
+        locale={locale}
+      >
+        <ExportMenu
+          mapWidth={width}
+          mapHeight={height}
+          attackCount={counts.visible}
+          onExportSvg={exportSvg}
+          onExportPng={exportPng}
+          onExportAttacks={exportAttacks}
+          locale={locale}
+        />
+      </MapToolbar>
+      <AttackCounters
+        attacks={statsWindow.attacks}
+        now={statsWindow.now}
+        timeZone={counterTimeZone}
+        scheduler={scheduler}
+        locale={locale}
+      />
+      <FilterPanel
+        filters={filters}
+        onChange={setFilters}
+        visibleCount={counts.visible}
+        totalCount={counts.shown}
+        locale={locale}
+      />
+      {choropleth && intensityScale && (
+        <IntensityLegend
+          title={locale.messages.intensityMetrics[choropleth]}
+          scale={intensityScale.scale}
+          emptyColor={theme.land}
+          emptyLabel={locale.messages.noAttacks}
+          locale={locale}
+        />
+      )}
+      <ZoomControls
+        zoom={viewTransform.k}
+        minZoom={MIN_ZOOM}
+        maxZoom={MAX_ZOOM}
+        onZoomIn={() => zoomBy(ZOOM_STEP)}
+        onZoomOut={() => zoomBy(1 / ZOOM_STEP)}
+        onReset={resetZoom}
+        locale={locale}
+      />
+      <ZoomMinimap
+        mapWidth={width}
+        mapHeight={height}
+        transform={viewTransform}
+        projection={projectionType}
+        globeCentre={globeCentre}
+        onNavigate={navigateTo}
+        locale={locale}
+      />
+      <HubPanel
+        stats={hubStats}
+        hubs={hubs}
+        customized={hubsCustomized}
+        onSave={saveHubs}
+        onReset={resetHubs}
+        onSelectHub={selectHub}
+        locale={locale}
+      />
+      <AttackFeed
+        attacks={feedAttacks}
+        selectedId={selectedAttackId}
+        onHover={emphasizeAttack}
+        onSelect={selectFeedAttack}
+        raised={mode === 'replay'}
+        locale={locale}
+      />
+      <AttackTable
+        attacks={feedAttacks}
+        open={tableOpen}
+        onClose={() => setTableOpen(false)}
+        onSelect={selectFeedAttack}
+        selectedId={selectedAttackId}
+        locale={locale}
+      />
+      {hoveredHub && hoveredHubStats && (
+        <HubHoverCard stats={hoveredHubStats} x={hoveredHub.x} y={hoveredHub.y} locale={locale} />
+      )}
+      {selectedCountry && (
+        <CountryDrawer
+          country={selectedCountry.code}
+          name={countryName(locale, selectedCountry.code, selectedCountry.name)}
+          attacks={loadedAttacks}
+          onClose={() => setSelectedCountry(null)}
+          locale={locale}
+        />
+      )}
+      {mode === 'replay' && (
+        <ReplayControls clock={replayClock} activeCount={counts.visible} locale={locale} />
+      )}
       <div
         ref={tooltipRef}
+        // Its content is also on the focused element as an accessible name or description
+        aria-hidden="true"
         style={{
-          color: '#222',
-          backgroundColor: '#fff',
+          color: theme.tooltip.text,
+          backgroundColor: theme.tooltip.background,
           padding: '0.5em',
-          textShadow: '#f5f5f5 0 1px 0',
+          textShadow: theme.tooltip.textShadow,
           borderRadius: '2px',
           opacity: 0.9,
           position: 'absolute',
           pointerEvents: 'none',
           fontSize: '13px',
           zIndex: 1000,
-          boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+          boxShadow: theme.tooltip.shadow,
           display: 'none'
         }}
       />
+      {pendingImport && (
+        <AttackImportDialog
+          geoIpUrl={geoIpUrl}
+          fileName={pendingImport.name}
+          text={pendingImport.text}
+          readError={pendingImport.error}
+          onImport={applyImport}
+          onCancel={() => setPendingImport(null)}
+          locale={locale}
+        />
+      )}
+      {dragActive && (
+        <div
+          onDragOver={(event) => event.preventDefault()}
+          onDragLeave={() => setDragActive(false)}
+          onDrop={handleDrop}
+          style={{
+            position: 'absolute',
+            inset: 0,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            background: PANEL_COLORS.background,
+            border: `3px dashed ${PANEL_COLORS.secondary}`,
+            fontSize: '18px',
+            color: PANEL_COLORS.text,
+            zIndex: 1100
+          }}
+        >
+          {locale.messages.dropFile}
+        </div>
+      )}
     </div>
   );
 };
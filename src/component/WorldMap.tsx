@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
 import * as topojson from 'topojson-client';
 import { gsap } from 'gsap';
@@ -8,71 +8,86 @@ import colorData from '../data/randomcountries.json';
 import worldData from '../data/world.json';
 import countryCoordinates from '../data/countryCoordinates.json';
 import threatData from '../data/threatData.json';
+import AttackCounters from './AttackCounters';
+import FilterPanel from './FilterPanel';
+import IntensityLegend from './IntensityLegend';
+import { ArcGeometry, ArcMode, createGeodesicArc, createQuadraticArc } from '../lib/arcGeometry';
+import { AttackFilterKey, AttackFilters, EMPTY_FILTERS, isFilterValueActive, matchesFilters, toggleFilterValue } from '../lib/attackFilters';
+import { IntensityMetric, computeIntensity, createIntensityScale } from '../lib/attackIntensity';
+import { toIso3 } from '../lib/countryCodes';
+import { AttackEndpoint, resolveAttackEndpoint } from '../lib/attackEndpoints';
+import { MAP_LOCALES, MapLocaleName, attackPlaceName, countryName, severityLabel, threatTypeLabel } from '../lib/mapLocales';
+import { MAP_THEMES, MapThemeName, themeCssVariables, threatTypeColor } from '../lib/mapThemes';
+import { AttackTooltipField, DEFAULT_TOOLTIP_FIELDS, attackTooltipContent, countryTooltipContent, showTooltip } from '../lib/mapTooltip';
+import { useAnimationScheduler } from '../hooks/useAnimationScheduler';
+import { usePrefersReducedMotion } from '../hooks/usePrefersReducedMotion';
+import { CountryCoordinate, CountryFeature, ThreatAttack, ThreatData, ThreatSeverity } from '../types/threat';
 
 // Type definitions for better type safety
-interface CountryFeature {
-  id: string;
-  properties: {
-    name: string;
-  };
-}
-
 interface CountryColorData {
   [key: string]: number;
 }
 
-interface CountryCoordinate {
-  lat: number;
-  lng: number;
-  name: string;
+interface WorldMapProps {
+  // Shade countries by attack intensity, or by the legacy randomcountries.json groups
+  colorMode?: IntensityMetric | 'groups';
+  // Great-circle arcs (default) or the original quadratic curves
+  arcMode?: ArcMode;
+  // Freeze every animation on the map (they also pause on their own while the tab is hidden)
+  paused?: boolean;
+  // IANA time zone in which the attack counters roll over to a new day
+  counterTimeZone?: string;
+  theme?: MapThemeName;
+  locale?: MapLocaleName;
+  // Extra lines in the attack tooltip, filled from the attack's fields
+  tooltipFields?: AttackTooltipField[];
 }
 
-interface ThreatAttack {
-  id: string;
-  source: string;
-  target: string;
-  type: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  timestamp: string;
-  duration: number;
-  description: string;
-}
-
-interface ThreatHub {
-  id: string;
-  country: string;
-  name: string;
-  type: 'primary' | 'secondary';
-  importance: number;
-}
-
-interface ThreatData {
-  hubs: ThreatHub[];
-  attacks: ThreatAttack[];
-  threatTypes: {
-    [key: string]: {
-      color: string;
-      priority: number;
-    };
-  };
-  severityLevels: {
-    [key: string]: {
-      color: string;
-      strokeWidth: number;
-    };
-  };
-}
-
-const WorldMap: React.FC = () => {
+const WorldMap: React.FC<WorldMapProps> = ({
+  colorMode = 'targeted',
+  arcMode = 'geodesic',
+  paused = false,
+  counterTimeZone = 'UTC',
+  theme = 'light',
+  locale = 'en',
+  tooltipFields = DEFAULT_TOOLTIP_FIELDS
+}) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const tooltipRef = useRef<HTMLDivElement>(null);
+  const [filters, setFilters] = useState<AttackFilters>(EMPTY_FILTERS);
+  const [visibleAttacks, setVisibleAttacks] = useState((threatData as ThreatData).attacks);
+  const { scheduler, setPaused } = useAnimationScheduler();
+  const reducedMotion = usePrefersReducedMotion();
 
   const width = 1100;
   const height = 750;
 
+  const mapTheme = MAP_THEMES[theme];
+  const mapLocale = MAP_LOCALES[locale];
+  const messages = mapLocale.messages;
+  const threats = threatData as ThreatData;
+  const intensity = colorMode === 'groups' ? null : computeIntensity(threats.attacks, colorMode);
+  const intensityScale = intensity ? createIntensityScale(intensity, mapTheme.intensity) : null;
+  // The data is a snapshot, so the counters are measured back from its latest attack
+  const latestAttackTime = d3.max(threats.attacks, attack => Date.parse(attack.timestamp)) ?? 0;
+
+  // GSAP reports a repeat: -1 animation, or a timeline holding one, as lasting about 1e12 seconds
+  const isEndless = (animation: gsap.core.Animation) => animation.totalDuration() > 1e9;
+
+  // Fill for a country in the current colour mode
+  const countryFill = (feature: CountryFeature) => {
+    if (intensity && intensityScale) {
+      const value = intensity.get(toIso3(feature.id)) ?? 0;
+      return value > 0 ? intensityScale(value) : mapTheme.land;
+    }
+    const groupNum = (colorData as CountryColorData)[feature.id] || 0;
+    return mapTheme.countryGroups[groupNum];
+  };
+
   useEffect(() => {
     if (!svgRef.current || !tooltipRef.current) return;
 
+    const { mapTheme, mapLocale, countryFill, addThreatArcs, addThreatLegend } = drawingRef.current;
     const svg = d3.select(svgRef.current);
     const tooltip = d3.select(tooltipRef.current);
 
@@ -120,6 +135,14 @@ const WorldMap: React.FC = () => {
     // Create path generator
     const path = d3.geoPath().projection(projection);
 
+    // Highlight a hovered or focused country and show its name next to a point
+    const showCountry = (element: SVGPathElement, feature: CountryFeature, point: [number, number]) => {
+      d3.select(element)
+        .style("fill", mapTheme.hover);
+
+      showTooltip(tooltip, countryTooltipContent(countryName(mapLocale, toIso3(feature.id), feature.properties.name)), point, [5, -25]);
+    };
+
     // Convert topojson to geojson
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const countries = topojson.feature(worldData as any, worldData.objects.world_subunits as any);
@@ -138,70 +161,112 @@ const WorldMap: React.FC = () => {
         const feature = d as CountryFeature;
         return `subunit-boundary subunit gray-country ${feature.id}`;
       })
-      .style("fill", (d) => {
-        const feature = d as CountryFeature;
-        const groupNum = (colorData as CountryColorData)[feature.id] || 0;
-        const colors = ['#000000', '#F5E9CA', '#6DA690', '#BAC366', '#FE4D57', '#1D0463'];
-        return colors[groupNum];
-      })
-      .style("stroke", "#777")
+      .style("fill", (d) => countryFill(d as CountryFeature))
+      .style("stroke", mapTheme.border)
       .style("stroke-width", "1px")
       .style("stroke-linejoin", "round")
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       .attr("d", path as any)
+      // Reachable with Tab, named for screen readers
+      .attr("tabindex", 0)
+      .attr("aria-label", (d) => countryName(mapLocale, toIso3((d as CountryFeature).id), (d as CountryFeature).properties.name))
       .on("mouseover", function(event, d) {
-        const feature = d as CountryFeature;
-        
-        // Change country color to black on hover
-        d3.select(this)
-          .style("fill", "#000000");
-        
         // Show tooltip with country name only - at mouse position relative to SVG
-        const [mouseX, mouseY] = d3.pointer(event, svg.node());
-        
-        tooltip
-          .style("display", "block")
-          .style("left", `${mouseX + 5}px`)
-          .style("top", `${mouseY - 25}px`)
-          .html(`<p>${feature.properties.name}</p>`);
+        showCountry(this, d as CountryFeature, d3.pointer(event, svg.node()));
       })
-      .on("mouseout", function(event, d) {
+      .on("focus", function(event, d) {
+        const feature = d as CountryFeature;
+        // The countries group is scaled about the centre of the map
+        const k = d3.zoomTransform(svg.node() as SVGSVGElement).k;
+        const [x, y] = path.centroid(feature as unknown as d3.GeoPermissibleObjects);
+        showCountry(this, feature, [width / 2 + (x - width / 2) * k, height / 2 + (y - height / 2) * k]);
+      })
+      .on("mouseout blur", function(event, d) {
         const feature = d as CountryFeature;
         
         // Restore original color
-        const groupNum = (colorData as CountryColorData)[feature.id] || 0;
-        const colors = ['#000000', '#F5E9CA', '#6DA690', '#BAC366', '#FE4D57', '#1D0463'];
-        
         d3.select(this)
-          .style("fill", colors[groupNum]);
+          .style("fill", countryFill(feature));
         
         // Hide tooltip
         tooltip.style("display", "none");
       });
 
-    // Add threat map functionality
-    addThreatArcs(svg, projection);
-    addThreatLegend(svg);
-    addAttackCounter(svg);
-    startThreatAnimation(svg);
-  }, []);
-
-  // Function to create dramatic archer-like curved paths between countries
-  const createArcPath = (source: [number, number], target: [number, number]) => {
-    const dx = target[0] - source[0];
-    const dy = target[1] - source[1];
-    const distance = Math.sqrt(dx * dx + dy * dy);
-    
-    // Create higher, more dramatic arc for longer distances
-    const baseHeight = distance * 0.3;
-    const arcHeight = Math.min(baseHeight, 200); // Maximum arc height
-    
-    // Calculate control point for quadratic curve
-    const midX = (source[0] + target[0]) / 2;
-    const midY = (source[1] + target[1]) / 2 - arcHeight;
-    
-    // Create smooth quadratic curve (more archer-like)
-    return `M${source[0]},${source[1]}Q${midX},${midY} ${target[0]},${target[1]}`;
+    // Add threat map functionality. Every GSAP tween and timeline is created inside one context,
+    // so the scheduler can pause them together and the cleanup can kill them all
+    const animations = gsap.context(() => {
+      addThreatArcs(svg, projection);
+      addThreatLegend(svg);
+      startThreatAnimation(svg);
+    }, svgRef);
+
+    // Static mode: entrances jump to their end, looping dashes, pulses and rings hold their first frame
+    if (reducedMotion) {
+      animations.getTweens().forEach((tween: gsap.core.Tween) => tween.progress(isEndless(tween) ? 0 : 1).pause());
+    }
+
+    const untrack = scheduler.track({
+      pause: () => animations.getTweens().forEach((tween: gsap.core.Tween) => tween.pause()),
+      resume: () => {
+        if (reducedMotion) return;
+        animations.getTweens().forEach((tween: gsap.core.Tween) => tween.resume());
+      },
+      kill: () => animations.kill()
+    });
+
+    return () => {
+      untrack();
+      animations.revert();
+    };
+  }, [colorMode, arcMode, theme, locale, tooltipFields, reducedMotion, scheduler]);
+
+  useEffect(() => {
+    setPaused(paused);
+  }, [paused, setPaused]);
+
+  // Show or hide arcs, particles and markers for the current filters and keep the counters in sync
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    const threats = threatData as ThreatData;
+    const attacksById = new Map<string, ThreatAttack>(threats.attacks.map(attack => [attack.id, attack]));
+
+    const visibleAttacks = threats.attacks.filter(attack => matchesFilters(attack, filters));
+    const visibleIds = new Set(visibleAttacks.map(attack => attack.id));
+    const visibleCountries = new Set(visibleAttacks.flatMap(attack => [attack.source, attack.target]));
+
+    svg.selectAll<SVGElement, unknown>('[data-attack-id]')
+      .style("display", function() {
+        const attack = attacksById.get(this.dataset.attackId ?? '');
+        return !attack || visibleIds.has(attack.id) ? null : "none";
+      });
+
+    svg.selectAll<SVGElement, unknown>('.threat-marker, .threat-marker-ring')
+      .style("display", function() {
+        return visibleCountries.has(this.dataset.country ?? '') ? null : "none";
+      });
+
+    // Dim legend entries that are filtered out
+    svg.selectAll<SVGGElement, unknown>('.legend-entry')
+      .style("opacity", function() {
+        const key = this.dataset.filterKey as AttackFilterKey;
+        return isFilterValueActive(filters, key, this.dataset.filterValue ?? '') ? 1 : 0.35;
+      });
+
+    setVisibleAttacks(visibleAttacks);
+  }, [filters, colorMode]);
+
+  // Arc shape between two attack endpoints, shared by the arc path and its particles
+  const createArcGeometry = (
+    projection: d3.GeoProjection,
+    source: CountryCoordinate,
+    target: CountryCoordinate,
+    sourcePoint: [number, number],
+    targetPoint: [number, number]
+  ) => {
+    if (arcMode === 'bezier') return createQuadraticArc(sourcePoint, targetPoint);
+    return createGeodesicArc(projection, [source.lng, source.lat], [target.lng, target.lat]);
   };
 
   // Function to add threat arcs to the map
@@ -215,8 +280,8 @@ const WorldMap: React.FC = () => {
 
     // Add arcs for each attack
     threats.attacks.forEach((attack, index) => {
-      const sourceCoord = coordinates[attack.source];
-      const targetCoord = coordinates[attack.target];
+      const sourceCoord = resolveAttackEndpoint(attack, 'source');
+      const targetCoord = resolveAttackEndpoint(attack, 'target');
 
       if (sourceCoord && targetCoord) {
         const sourcePoint = projection([sourceCoord.lng, sourceCoord.lat]);
@@ -224,14 +289,18 @@ const WorldMap: React.FC = () => {
 
         if (sourcePoint && targetPoint) {
           const severity = threats.severityLevels[attack.severity];
+          const sourceName = attackPlaceName(mapLocale, attack, 'source');
+          const targetName = attackPlaceName(mapLocale, attack, 'target');
+          const color = mapTheme.severity[attack.severity];
+          const geometry = createArcGeometry(projection, sourceCoord, targetCoord, sourcePoint, targetPoint);
 
           // Create arc path with smooth flowing animation
           const arcPath = arcsGroup
             .append("path")
             .attr("class", `threat-arc threat-${attack.severity}`)
-            .attr("d", createArcPath(sourcePoint, targetPoint))
+            .attr("d", geometry.d)
             .style("fill", "none")
-            .style("stroke", severity.color)
+            .style("stroke", color)
             .style("stroke-width", severity.strokeWidth)
             .style("opacity", 0.8)
             .style("filter", "drop-shadow(0 0 3px rgba(255,0,0,0.6))")
@@ -241,7 +310,11 @@ const WorldMap: React.FC = () => {
             .attr("data-source", sourceCoord.name)
             .attr("data-target", targetCoord.name)
             .attr("data-type", attack.type)
-            .attr("data-description", attack.description);
+            .attr("data-description", attack.description)
+            // Focusable, with the tooltip's content as its accessible name and description
+            .attr("tabindex", 0)
+            .attr("aria-label", messages.arcLabel(threatTypeLabel(mapLocale, attack.type), sourceName, targetName, severityLabel(mapLocale, attack.severity)));
+          arcPath.append("desc").text(attack.description);
 
           // Smooth flowing dash animation like ReactGlobe
           const pathElement = arcPath.node();
@@ -286,57 +359,55 @@ const WorldMap: React.FC = () => {
               delay: index * 0.15
             });
 
-          // Add traveling particle effect along the arc
-          addTravelingParticle(arcsGroup, sourcePoint, targetPoint, severity.color, index);
+          // Add traveling particle effect along the arc; particles are pure motion, so static mode leaves them out
+          if (!reducedMotion) addTravelingParticle(arcsGroup, attack.id, geometry.pointAt, sourcePoint, color, index);
           }
 
-          // Enhanced hover effects with GSAP
+          // Enhanced hover and focus effects with GSAP; the tooltip shows next to the given point
+          const showArc = (element: SVGPathElement, point: [number, number]) => {
+            // Smooth hover animation with GSAP
+            gsap.to(element, {
+              opacity: 1,
+              scale: 1.1,
+              duration: 0.3,
+              ease: "power2.out"
+            });
+            
+            // Smooth stroke width animation
+            gsap.to(element, {
+              attr: { "stroke-width": severity.strokeWidth * 2 },
+              duration: 0.2,
+              ease: "power1.out"
+            });
+
+            if (!tooltipRef.current) return;
+            const tooltip = d3.select(tooltipRef.current);
+
+            // Animate tooltip appearance
+            showTooltip(tooltip, attackTooltipContent(attack, mapLocale, color, tooltipFields), point, [10, -40]);
+            tooltip
+              .style("opacity", 0)
+              .select(".map-tooltip-title")
+              .style("text-shadow", `0 0 5px ${color}`);
+            
+            // Animate tooltip fade in
+            gsap.to(tooltip.node(), {
+              opacity: 1,
+              y: -5,
+              duration: 0.2,
+              ease: "power1.out"
+            });
+          };
+
           arcPath
             .on("mouseover", function(event) {
-              // eslint-disable-next-line @typescript-eslint/no-this-alias
-              const element = this;
-              
-              // Smooth hover animation with GSAP
-              gsap.to(element, {
-                opacity: 1,
-                scale: 1.1,
-                duration: 0.3,
-                ease: "power2.out"
-              });
-              
-              // Smooth stroke width animation
-              gsap.to(element, {
-                attr: { "stroke-width": severity.strokeWidth * 2 },
-                duration: 0.2,
-                ease: "power1.out"
-              });
-
-              const tooltip = d3.select(tooltipRef.current);
-              const [mouseX, mouseY] = d3.pointer(event, svg.node());
-
-              // Animate tooltip appearance
-              tooltip
-                .style("display", "block")
-                .style("left", `${mouseX + 10}px`)
-                .style("top", `${mouseY - 40}px`)
-                .style("opacity", 0)
-                .html(`
-                  <div style="font-weight: bold; color: ${severity.color}; text-shadow: 0 0 5px ${severity.color};">${attack.type}</div>
-                  <div style="margin: 3px 0;">From: <strong>${sourceCoord.name}</strong></div>
-                  <div style="margin: 3px 0;">To: <strong>${targetCoord.name}</strong></div>
-                  <div style="margin: 3px 0;">Severity: <span style="color: ${severity.color};">${attack.severity.toUpperCase()}</span></div>
-                  <div style="margin-top: 8px; font-size: 11px; line-height: 1.3;">${attack.description}</div>
-                `);
-              
-              // Animate tooltip fade in
-              gsap.to(tooltip.node(), {
-                opacity: 1,
-                y: -5,
-                duration: 0.2,
-                ease: "power1.out"
-              });
+              showArc(this, d3.pointer(event, svg.node()));
             })
-            .on("mouseout", function() {
+            .on("focus", function() {
+              const middle = geometry.pointAt(0.5);
+              if (middle) showArc(this, middle);
+            })
+            .on("mouseout blur", function() {
               // eslint-disable-next-line @typescript-eslint/no-this-alias
               const element = this;
               
@@ -372,14 +443,15 @@ const WorldMap: React.FC = () => {
 
     // Add enhanced hub markers and regular threat markers
     addThreatHubs(arcsGroup, coordinates, threats, projection);
-    addThreatMarkers(arcsGroup, coordinates, threats, projection);
+    addThreatMarkers(arcsGroup, threats, projection);
   };
 
   // Function to add smooth traveling particle effect like ReactGlobe
   const addTravelingParticle = (
     group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    attackId: string,
+    pointAt: ArcGeometry['pointAt'],
     sourcePoint: [number, number],
-    targetPoint: [number, number],
     color: string,
     index: number
   ) => {
@@ -388,6 +460,7 @@ const WorldMap: React.FC = () => {
       const particle = group
         .append("circle")
         .attr("class", "attack-particle")
+        .attr("data-attack-id", attackId)
         .attr("cx", sourcePoint[0])
         .attr("cy", sourcePoint[1])
         .attr("r", 2 + Math.random() * 2)
@@ -397,15 +470,16 @@ const WorldMap: React.FC = () => {
 
       const particleElement = particle.node();
       if (particleElement) {
-        // Calculate aggressive attack arc path
-        const dx = targetPoint[0] - sourcePoint[0];
-        const dy = targetPoint[1] - sourcePoint[1];
-        const distance = Math.sqrt(dx * dx + dy * dy);
-        const arcHeight = Math.min(distance * 0.4, 200); // Higher arc for more dramatic effect
-        
-        const midX = (sourcePoint[0] + targetPoint[0]) / 2;
-        const midY = (sourcePoint[1] + targetPoint[1]) / 2 - arcHeight;
-        
+        // Travel along the same geometry as the arc, so particles stay on it
+        // across the antimeridian and on great-circle routes
+        const progress = { t: 0 };
+        const moveToProgress = () => {
+          const point = pointAt(progress.t);
+          if (point) {
+            particle.attr("cx", point[0]).attr("cy", point[1]);
+          }
+        };
+
         // Create aggressive attack animation
         const tl = gsap.timeline({ 
           repeat: -1, 
@@ -414,18 +488,15 @@ const WorldMap: React.FC = () => {
         });
         
         // Fast attack trajectory
-        tl.to(particleElement, {
-          attr: { cx: midX, cy: midY },
-          duration: 0.8 + Math.random() * 0.3,
-          ease: "power2.out"
-        })
-        .to(particleElement, {
-          attr: { cx: targetPoint[0], cy: targetPoint[1] },
-          duration: 0.8 + Math.random() * 0.3,
-          ease: "power2.in"
+        tl.to(progress, {
+          t: 1,
+          duration: 1.6 + Math.random() * 0.6,
+          ease: "power2.inOut",
+          onUpdate: moveToProgress
         })
-        .set(particleElement, {
-          attr: { cx: sourcePoint[0], cy: sourcePoint[1] }
+        .call(() => {
+          progress.t = 0;
+          moveToProgress();
         });
 
         // Aggressive opacity and size animation
@@ -477,7 +548,7 @@ const WorldMap: React.FC = () => {
             .attr("cx", point[0])
             .attr("cy", point[1])
             .attr("r", 0)
-            .style("fill", hub.type === 'primary' ? "#ff0000" : "#ff8800")
+            .style("fill", mapTheme.hubs[hub.type])
             .style("opacity", 0.3)
             .style("filter", "drop-shadow(0 0 12px rgba(255,0,0,0.8))");
 
@@ -487,8 +558,8 @@ const WorldMap: React.FC = () => {
             .attr("cx", point[0])
             .attr("cy", point[1])
             .attr("r", 0)
-            .style("fill", "#ffffff")
-            .style("stroke", hub.type === 'primary' ? "#ff0000" : "#ff8800")
+            .style("fill", mapTheme.background)
+            .style("stroke", mapTheme.hubs[hub.type])
             .style("stroke-width", 3)
             .style("opacity", 0)
             .style("filter", "drop-shadow(0 0 8px rgba(255,255,255,0.9))");
@@ -544,7 +615,7 @@ const WorldMap: React.FC = () => {
                 .attr("cy", point[1])
                 .attr("r", 15 + i * 8)
                 .style("fill", "none")
-                .style("stroke", "#ff0000")
+                .style("stroke", mapTheme.hubs.primary)
                 .style("stroke-width", 1)
                 .style("opacity", 0.2)
                 .style("stroke-dasharray", "5,10");
@@ -589,93 +660,92 @@ const WorldMap: React.FC = () => {
   // Function to add threat markers (source/target points)
   const addThreatMarkers = (
     arcsGroup: d3.Selection<SVGGElement, unknown, null, undefined>,
-    coordinates: { [key: string]: CountryCoordinate },
     threats: ThreatData,
     projection: d3.GeoProjection
   ) => {
-    const attackPoints = new Set<string>();
-    
-    // Collect all source and target countries
+    const attackPoints = new Map<string, AttackEndpoint>();
+
+    // Collect all source and target points, one per city or country
     threats.attacks.forEach(attack => {
-      attackPoints.add(attack.source);
-      attackPoints.add(attack.target);
+      [resolveAttackEndpoint(attack, 'source'), resolveAttackEndpoint(attack, 'target')].forEach(endpoint => {
+        if (endpoint) attackPoints.set(endpoint.key, endpoint);
+      });
     });
 
-    // Add markers for each country involved in attacks
-    attackPoints.forEach(countryCode => {
-      const coord = coordinates[countryCode];
-      if (coord) {
-        const point = projection([coord.lng, coord.lat]);
-        if (point) {
-          // Add enhanced pulsing marker with GSAP
-          const marker = arcsGroup
-            .append("circle")
-            .attr("class", "threat-marker")
-            .attr("cx", point[0])
-            .attr("cy", point[1])
-            .attr("r", 0)
-            .style("fill", "#ff0000")
-            .style("stroke", "#ffffff")
-            .style("stroke-width", 2)
-            .style("opacity", 0)
-            .style("filter", "drop-shadow(0 0 8px rgba(255,0,0,0.8))");
-
-          const markerElement = marker.node();
-          if (markerElement) {
-            // Smooth entrance animation
-            gsap.to(markerElement, {
-              attr: { r: 4 },
-              opacity: 0.9,
-              duration: 0.8,
-              delay: Math.random() * 2,
-              ease: "back.out(1.7)"
-            });
+    // Add markers for each point involved in attacks
+    attackPoints.forEach(endpoint => {
+      const point = projection([endpoint.lng, endpoint.lat]);
+      if (point) {
+        // Add enhanced pulsing marker with GSAP
+        const marker = arcsGroup
+          .append("circle")
+          .attr("class", "threat-marker")
+          .attr("data-country", endpoint.country)
+          .attr("cx", point[0])
+          .attr("cy", point[1])
+          .attr("r", 0)
+          .style("fill", mapTheme.pointer)
+          .style("stroke", mapTheme.background)
+          .style("stroke-width", 2)
+          .style("opacity", 0)
+          .style("filter", "drop-shadow(0 0 8px rgba(255,0,0,0.8))");
+
+        const markerElement = marker.node();
+        if (markerElement) {
+          // Smooth entrance animation
+          gsap.to(markerElement, {
+            attr: { r: 4 },
+            opacity: 0.9,
+            duration: 0.8,
+            delay: Math.random() * 2,
+            ease: "back.out(1.7)"
+          });
+
+          // Continuous pulsing with GSAP for smoother effect
+          gsap.to(markerElement, {
+            scale: 1.4,
+            opacity: 0.4,
+            duration: 1,
+            ease: "power2.inOut",
+            repeat: -1,
+            yoyo: true,
+            delay: Math.random() * 1
+          });
+        }
 
-            // Continuous pulsing with GSAP for smoother effect
-            gsap.to(markerElement, {
-              scale: 1.4,
-              opacity: 0.4,
-              duration: 1,
-              ease: "power2.inOut",
+        // Add outer ring effect
+        const outerRing = arcsGroup
+          .append("circle")
+          .attr("class", "threat-marker-ring")
+          .attr("data-country", endpoint.country)
+          .attr("cx", point[0])
+          .attr("cy", point[1])
+          .attr("r", 0)
+          .style("fill", "none")
+          .style("stroke", mapTheme.pointer)
+          .style("stroke-width", 1)
+          .style("opacity", 0);
+
+        const ringElement = outerRing.node();
+        if (ringElement) {
+          // Expanding ring animation with GSAP
+          gsap.fromTo(ringElement, 
+            {
+              attr: { r: 0, "stroke-width": 3 },
+              opacity: 0
+            },
+            {
+              attr: { r: 12, "stroke-width": 0 },
+              opacity: 0.6,
+              duration: 3,
+              ease: "power2.out",
               repeat: -1,
-              yoyo: true,
-              delay: Math.random() * 1
-            });
-          }
-
-          // Add outer ring effect
-          const outerRing = arcsGroup
-            .append("circle")
-            .attr("class", "threat-marker-ring")
-            .attr("cx", point[0])
-            .attr("cy", point[1])
-            .attr("r", 0)
-            .style("fill", "none")
-            .style("stroke", "#ff0000")
-            .style("stroke-width", 1)
-            .style("opacity", 0);
-
-          const ringElement = outerRing.node();
-          if (ringElement) {
-            // Expanding ring animation with GSAP
-            gsap.fromTo(ringElement, 
-              {
-                attr: { r: 0, "stroke-width": 3 },
-                opacity: 0
-              },
-              {
-                attr: { r: 12, "stroke-width": 0 },
-                opacity: 0.6,
-                duration: 3,
-                ease: "power2.out",
-                repeat: -1,
-                delay: Math.random() * 2,
-                onComplete: function() {
-                  gsap.set(this.targets()[0], { attr: { r: 0 }, opacity: 0 });
-                }
+              delay: Math.random() * 2,
+              onComplete: function() {
+                gsap.set(this.targets()[0], { attr: { r: 0 }, opacity: 0 });
               }
-            );
-          }
+            }
+          );
         }
       }
     });
@@ -751,6 +821,33 @@ const WorldMap: React.FC = () => {
     });
   };
 
+  // Function to add a clickable legend row that toggles the matching filter
+  const addLegendEntry = (
+    legend: d3.Selection<SVGGElement, unknown, null, undefined>,
+    key: AttackFilterKey,
+    value: string,
+    y: number
+  ) => {
+    const entry = legend.append("g")
+      .attr("class", "legend-entry")
+      .attr("data-filter-key", key)
+      .attr("data-filter-value", value)
+      .style("cursor", "pointer")
+      .on("click", () => {
+        setFilters(current => toggleFilterValue(current, key, value));
+      });
+
+    // Invisible hit area so the gaps between sample and label are clickable too
+    entry.append("rect")
+      .attr("x", -4)
+      .attr("y", y - 8)
+      .attr("width", 210)
+      .attr("height", 16)
+      .style("fill", "transparent");
+
+    return entry;
+  };
+
   // Function to add threat legend
   const addThreatLegend = (svg: d3.Selection<SVGSVGElement, unknown, null, undefined>) => {
     const threats = threatData as ThreatData;
@@ -766,8 +863,8 @@ const WorldMap: React.FC = () => {
       .attr("y", -10)
       .attr("width", 0)
       .attr("height", 180)
-      .style("fill", "rgba(0, 0, 0, 0.9)")
-      .style("stroke", "#ff0000")
+      .style("fill", mapTheme.badge.background)
+      .style("stroke", mapTheme.badge.border)
       .style("stroke-width", 1)
       .style("stroke-dasharray", "5,5")
       .style("rx", 8)
@@ -793,32 +890,33 @@ const WorldMap: React.FC = () => {
     legend.append("text")
       .attr("x", 0)
       .attr("y", 0)
-      .style("fill", "white")
+      .style("fill", mapTheme.badge.text)
       .style("font-size", "14px")
       .style("font-weight", "bold")
-      .text("Cyber Threats");
+      .text(messages.cyberThreats);
 
     // Add severity levels
     const severityLevels = Object.entries(threats.severityLevels);
     severityLevels.forEach(([level, config], index) => {
       const y = 20 + index * 20;
+      const entry = addLegendEntry(legend, 'severities', level, y);
       
       // Add line sample
-      legend.append("line")
+      entry.append("line")
         .attr("x1", 0)
         .attr("y1", y)
         .attr("x2", 20)
         .attr("y2", y)
-        .style("stroke", config.color)
+        .style("stroke", mapTheme.severity[level as ThreatSeverity])
         .style("stroke-width", config.strokeWidth);
 
       // Add text
-      legend.append("text")
+      entry.append("text")
         .attr("x", 25)
         .attr("y", y + 4)
-        .style("fill", "white")
+        .style("fill", mapTheme.badge.text)
         .style("font-size", "11px")
-        .text(`${level.toUpperCase()} Severity`);
+        .text(messages.severityLegend(severityLabel(mapLocale, level as ThreatSeverity)));
     });
 
     // Add threat types (top 6)
@@ -826,141 +924,89 @@ const WorldMap: React.FC = () => {
       .sort((a, b) => b[1].priority - a[1].priority)
       .slice(0, 6);
 
-    topThreatTypes.forEach(([type, config], index) => {
+    topThreatTypes.forEach(([type], index) => {
       const y = 110 + index * 15;
+      const entry = addLegendEntry(legend, 'types', type, y);
       
       // Add color indicator
-      legend.append("circle")
+      entry.append("circle")
         .attr("cx", 5)
         .attr("cy", y)
         .attr("r", 3)
-        .style("fill", config.color);
+        .style("fill", threatTypeColor(mapTheme, type));
 
       // Add text
-      legend.append("text")
+      entry.append("text")
         .attr("x", 15)
         .attr("y", y + 4)
-        .style("fill", "white")
+        .style("fill", mapTheme.badge.text)
         .style("font-size", "10px")
-        .text(type);
+        .text(threatTypeLabel(mapLocale, type));
     });
   };
 
-  // Function to add attack counter display
-  const addAttackCounter = (svg: d3.Selection<SVGSVGElement, unknown, null, undefined>) => {
-    const threats = threatData as ThreatData;
-    const totalAttacks = threats.attacks.length;
-    
-    // Create counter group
-    const counterGroup = svg.append("g")
-      .attr("class", "attack-counter")
-      .attr("transform", `translate(${width - 250}, 30)`);
-
-    // Add counter background
-    const counterBg = counterGroup
-      .append("rect")
-      .attr("x", -20)
-      .attr("y", -15)
-      .attr("width", 240)
-      .attr("height", 60)
-      .style("fill", "rgba(0, 0, 0, 0.9)")
-      .style("stroke", "#ff0000")
-      .style("stroke-width", 2)
-      .style("rx", 8)
-      .style("filter", "drop-shadow(0 4px 8px rgba(0,0,0,0.6))")
-      .style("opacity", 0);
-
-    // Add main counter text
-    const counterText = counterGroup
-      .append("text")
-      .attr("x", 0)
-      .attr("y", 0)
-      .style("fill", "#ff0000")
-      .style("font-size", "24px")
-      .style("font-weight", "bold")
-      .style("text-anchor", "start")
-      .style("opacity", 0)
-      .style("text-shadow", "2px 2px 4px rgba(0,0,0,0.8)")
-      .text(`${totalAttacks.toLocaleString()} ATTACKS`);
-
-    // Add subtitle
-    const subtitle = counterGroup
-      .append("text")
-      .attr("x", 0)
-      .attr("y", 20)
-      .style("fill", "#ffffff")
-      .style("font-size", "12px")
-      .style("text-anchor", "start")
-      .style("opacity", 0)
-      .style("text-shadow", "1px 1px 2px rgba(0,0,0,0.8)")
-      .text("ON THIS DAY");
-
-    // Animate counter entrance
-    gsap.timeline({ delay: 2 })
-      .to(counterBg.node(), {
-        opacity: 1,
-        duration: 0.5,
-        ease: "power2.out"
-      })
-      .to(counterText.node(), {
-        opacity: 1,
-        duration: 0.3,
-        ease: "power1.out"
-      }, "-=0.2")
-      .to(subtitle.node(), {
-        opacity: 1,
-        duration: 0.3,
-        ease: "power1.out"
-      }, "-=0.1");
-
-    // Add pulsing effect to counter
-    gsap.to(counterText.node(), {
-      scale: 1.05,
-      duration: 2,
-      ease: "power2.inOut",
-      repeat: -1,
-      yoyo: true
-    });
-
-    // Add blinking effect to background
-    gsap.to(counterBg.node(), {
-      stroke: "#ff4444",
-      duration: 1,
-      ease: "power2.inOut",
-      repeat: -1,
-      yoyo: true
-    });
-  };
+  // What the map effect draws with, from the latest render. Everything here follows from the
+  // effect's dependencies, so the effect reads it through the ref instead of listing it.
+  const drawingRef = useRef({ mapTheme, mapLocale, countryFill, addThreatArcs, addThreatLegend });
+  drawingRef.current = { mapTheme, mapLocale, countryFill, addThreatArcs, addThreatLegend };
 
   return (
-    <div style={{
+    <div dir={mapLocale.dir} lang={mapLocale.tag} style={{
       width: '100%',
       height: '100vh',
       position: 'relative',
       overflow: 'hidden',
-      background: '#ffffff'
+      background: mapTheme.background,
+      colorScheme: mapTheme.colorScheme,
+      ...themeCssVariables(mapTheme)
     }}>
       <svg 
         ref={svgRef}
         width={width}
         height={height}
         viewBox={`0 0 ${width} ${height}`}
+        direction="ltr"
         style={{ width: '100%', height: '100%' }}
       />
+      <AttackCounters
+        attacks={visibleAttacks}
+        now={latestAttackTime}
+        timeZone={counterTimeZone}
+        scheduler={scheduler}
+        locale={mapLocale}
+      />
+      <FilterPanel
+        filters={filters}
+        onChange={setFilters}
+        visibleCount={visibleAttacks.length}
+        totalCount={(threatData as ThreatData).attacks.length}
+        locale={mapLocale}
+      />
+      {colorMode !== 'groups' && intensityScale && (
+        <IntensityLegend
+          title={messages.intensityMetrics[colorMode]}
+          scale={intensityScale}
+          emptyColor={mapTheme.land}
+          emptyLabel={messages.noAttacks}
+          locale={mapLocale}
+        />
+      )}
       <div
         ref={tooltipRef}
+        // Its content is also on the focused element as an accessible name or description
+        aria-hidden="true"
         style={{
-          color: '#222',
-          backgroundColor: '#fff',
+          color: mapTheme.tooltip.text,
+          backgroundColor: mapTheme.tooltip.background,
           padding: '0.5em',
-          textShadow: '#f5f5f5 0 1px 0',
+          textShadow: mapTheme.tooltip.textShadow,
           borderRadius: '2px',
           opacity: 0.9,
           position: 'absolute',
           pointerEvents: 'none',
           fontSize: '13px',
           zIndex: 1000,
-          boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+          boxShadow: mapTheme.tooltip.shadow,
           display: 'none'
         }}
       />
@@ -0,0 +1,60 @@
+'use client';
+
+import React from 'react';
+import { MapLocale } from '../lib/mapLocales';
+import { PANEL_COLORS } from '../lib/mapThemes';
+
+interface ZoomControlsProps {
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onReset: () => void;
+  // Current zoom factor, used to disable the buttons at the limits
+  zoom: number;
+  minZoom: number;
+  maxZoom: number;
+  locale: MapLocale;
+}
+
+const buttonStyle: React.CSSProperties = {
+  width: '32px',
+  height: '32px',
+  border: 'none',
+  borderRadius: '4px',
+  background: 'transparent',
+  color: PANEL_COLORS.text,
+  fontSize: '18px',
+  lineHeight: 1,
+  cursor: 'pointer'
+};
+
+// Vertical +/−/reset button stack for the map zoom
+const ZoomControls: React.FC<ZoomControlsProps> = ({ onZoomIn, onZoomOut, onReset, zoom, minZoom, maxZoom, locale }) => {
+  const messages = locale.messages;
+
+  return (
+    <div style={{
+      position: 'absolute',
+      insetInlineEnd: '16px',
+      bottom: '176px',
+      display: 'flex',
+      flexDirection: 'column',
+      padding: '2px',
+      background: PANEL_COLORS.background,
+      borderRadius: '6px',
+      boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+      zIndex: 900
+    }}>
+      <button type="button" onClick={onZoomIn} disabled={zoom >= maxZoom} aria-label={messages.zoomIn} style={buttonStyle}>
+        +
+      </button>
+      <button type="button" onClick={onZoomOut} disabled={zoom <= minZoom} aria-label={messages.zoomOut} style={buttonStyle}>
+        −
+      </button>
+      <button type="button" onClick={onReset} aria-label={messages.resetZoom} title={messages.resetZoom} style={{ ...buttonStyle, fontSize: '14px' }}>
+        ⟲
+      </button>
+    </div>
+  );
+};
+
+export default ZoomControls;
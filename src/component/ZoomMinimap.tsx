@@ -0,0 +1,92 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import * as d3 from 'd3';
+import * as topojson from 'topojson-client';
+import worldData from '../data/world.json';
+import { MapLocale } from '../lib/mapLocales';
+import { ProjectionType, createProjection } from '../lib/projections';
+import { MAP_COLORS, PANEL_COLORS } from '../lib/mapThemes';
+
+interface ZoomMinimapProps {
+  // Size of the main map's viewBox
+  mapWidth: number;
+  mapHeight: number;
+  // Zoom transform of the main map
+  transform: { k: number; x: number; y: number };
+  projection: ProjectionType;
+  // [lng, lat] at the centre of the globe view (only used in globe mode)
+  globeCentre: [number, number];
+  // Called with the [lng, lat] the user clicked on
+  onNavigate: (lngLat: [number, number]) => void;
+  locale: MapLocale;
+}
+
+const MINIMAP_WIDTH = 176;
+
+// Small flat overview of the world with the part shown on the main map outlined
+const ZoomMinimap: React.FC<ZoomMinimapProps> = ({ mapWidth, mapHeight, transform, projection, globeCentre, onNavigate, locale }) => {
+  const minimapHeight = Math.round((MINIMAP_WIDTH * mapHeight) / mapWidth);
+  const ratio = MINIMAP_WIDTH / mapWidth;
+
+  // Same flat projection as the main map, scaled down, so viewport maths is a plain ratio
+  const miniProjection = useMemo(
+    () => createProjection('mercator', MINIMAP_WIDTH, minimapHeight),
+    [minimapHeight]
+  );
+
+  const countryPaths = useMemo(() => {
+    const path = d3.geoPath().projection(miniProjection);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const countries = topojson.feature(worldData as any, worldData.objects.world_subunits as any);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return (countries as any).features.map((feature: d3.GeoPermissibleObjects) => path(feature) ?? '');
+  }, [miniProjection]) as string[];
+
+  const handleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const lngLat = miniProjection.invert?.([event.clientX - rect.left, event.clientY - rect.top]);
+    if (lngLat) onNavigate(lngLat);
+  };
+
+  const globePoint = projection === 'globe' ? miniProjection(globeCentre) : null;
+
+  return (
+    <div style={{
+      position: 'absolute',
+      insetInlineEnd: '16px',
+      bottom: '24px',
+      padding: '4px',
+      background: PANEL_COLORS.background,
+      borderRadius: '6px',
+      boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+      zIndex: 900
+    }}>
+      <svg
+        width={MINIMAP_WIDTH}
+        height={minimapHeight}
+        onClick={handleClick}
+        aria-label={locale.messages.mapOverview}
+        style={{ display: 'block', cursor: 'pointer', background: MAP_COLORS.ocean }}
+      >
+        {countryPaths.map((d, index) => (
+          <path key={index} d={d} style={{ fill: MAP_COLORS.land, stroke: MAP_COLORS.ocean }} strokeWidth={0.3} />
+        ))}
+        {globePoint ? (
+          <circle cx={globePoint[0]} cy={globePoint[1]} r={4} style={{ fill: 'none', stroke: MAP_COLORS.pointer }} strokeWidth={1.5} />
+        ) : (
+          <rect
+            x={(-transform.x / transform.k) * ratio}
+            y={(-transform.y / transform.k) * ratio}
+            width={(mapWidth / transform.k) * ratio}
+            height={(mapHeight / transform.k) * ratio}
+            style={{ fill: MAP_COLORS.pointer, fillOpacity: 0.08, stroke: MAP_COLORS.pointer }}
+            strokeWidth={1.5}
+          />
+        )}
+      </svg>
+    </div>
+  );
+};
+
+export default ZoomMinimap;
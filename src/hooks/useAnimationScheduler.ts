@@ -0,0 +1,38 @@
+'use client';
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import { AnimationScheduler, createAnimationScheduler } from '../lib/animationScheduler';
+
+// One animation scheduler per map component. Everything registered with it is cancelled on unmount
+// (and on hot reload), and it pauses itself while the tab is hidden.
+export const useAnimationScheduler = () => {
+  const [scheduler] = useState<AnimationScheduler>(createAnimationScheduler);
+
+  const paused = useSyncExternalStore(
+    scheduler.subscribe,
+    () => scheduler.isPaused('user'),
+    () => false
+  );
+
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.hidden) scheduler.pause('hidden');
+      else scheduler.resume('hidden');
+    };
+
+    handleVisibility();
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      scheduler.cancelAll();
+    };
+  }, [scheduler]);
+
+  const setPaused = useCallback((value: boolean) => {
+    if (value) scheduler.pause('user');
+    else scheduler.resume('user');
+  }, [scheduler]);
+
+  return { scheduler, paused, setPaused };
+};
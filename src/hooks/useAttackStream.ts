@@ -0,0 +1,53 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { ThreatAttack } from '../types/threat';
+
+export type AttackStreamStatus = 'idle' | 'connecting' | 'open' | 'error';
+
+interface UseAttackStreamOptions {
+  url?: string;
+  enabled?: boolean;
+  onAttack: (attack: ThreatAttack) => void;
+}
+
+// Subscribes to the server-sent attack stream and forwards each attack to `onAttack`.
+// EventSource reconnects on its own, so errors only change the reported status.
+export const useAttackStream = ({ url = '/api/attacks/stream', enabled = true, onAttack }: UseAttackStreamOptions) => {
+  const [status, setStatus] = useState<AttackStreamStatus>('idle');
+
+  // Keep the latest callback without re-opening the connection on every render
+  const onAttackRef = useRef(onAttack);
+  useEffect(() => {
+    onAttackRef.current = onAttack;
+  }, [onAttack]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus('idle');
+      return;
+    }
+
+    setStatus('connecting');
+    const source = new EventSource(url);
+
+    const handleAttack = (event: MessageEvent<string>) => {
+      try {
+        onAttackRef.current(JSON.parse(event.data) as ThreatAttack);
+      } catch {
+        // Malformed events are skipped; the stream itself is still fine
+      }
+    };
+
+    source.addEventListener('open', () => setStatus('open'));
+    source.addEventListener('error', () => setStatus('error'));
+    source.addEventListener('attack', handleAttack as EventListener);
+
+    return () => {
+      source.removeEventListener('attack', handleAttack as EventListener);
+      source.close();
+    };
+  }, [url, enabled]);
+
+  return status;
+};
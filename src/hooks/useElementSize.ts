@@ -0,0 +1,32 @@
+'use client';
+
+import { RefObject, useEffect, useState } from 'react';
+
+export interface ElementSize {
+  width: number;
+  height: number;
+}
+
+// Content size of an element, kept up to date with a ResizeObserver.
+// `initialSize` is used until the first measurement (and while the element has no area).
+export const useElementSize = (ref: RefObject<HTMLElement | null>, initialSize: ElementSize): ElementSize => {
+  const [size, setSize] = useState(initialSize);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const width = Math.round(entry.contentRect.width);
+      const height = Math.round(entry.contentRect.height);
+      if (width === 0 || height === 0) return;
+
+      setSize(current => (current.width === width && current.height === height ? current : { width, height }));
+    });
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return size;
+};
@@ -0,0 +1,50 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ThreatHub } from '../types/threat';
+
+const STORAGE_KEY = 'threat-map.hubs';
+
+const isHub = (value: unknown): value is ThreatHub => {
+  const hub = value as ThreatHub;
+  return typeof hub === 'object' && hub !== null &&
+    typeof hub.id === 'string' &&
+    typeof hub.country === 'string' &&
+    typeof hub.name === 'string' &&
+    (hub.type === 'primary' || hub.type === 'secondary') &&
+    typeof hub.importance === 'number';
+};
+
+// Hub list edited from the hub panel and saved in localStorage, so users can add or change hubs
+// without touching threatData.json. Falls back to `defaultHubs` until something has been saved.
+export const useHubConfig = (defaultHubs: ThreatHub[]) => {
+  const [hubs, setHubs] = useState<ThreatHub[]>(defaultHubs);
+  const [customized, setCustomized] = useState(false);
+
+  // Read the saved hubs after mount, so server and client render the same thing first
+  useEffect(() => {
+    try {
+      const saved: unknown = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? 'null');
+      if (Array.isArray(saved) && saved.every(isHub)) {
+        setHubs(saved);
+        setCustomized(true);
+      }
+    } catch {
+      // Unreadable saved hubs are ignored, like ones that do not look like hubs
+    }
+  }, []);
+
+  const saveHubs = useCallback((next: ThreatHub[]) => {
+    setHubs(next);
+    setCustomized(true);
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  }, []);
+
+  const resetHubs = useCallback(() => {
+    setHubs(defaultHubs);
+    setCustomized(false);
+    window.localStorage.removeItem(STORAGE_KEY);
+  }, [defaultHubs]);
+
+  return { hubs, customized, saveHubs, resetHubs };
+};
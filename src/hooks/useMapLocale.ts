@@ -0,0 +1,25 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { MAP_LOCALES, MapLocaleName } from '../lib/mapLocales';
+
+const STORAGE_KEY = 'threat-map.locale';
+
+// Language picked from the toolbar, remembered in localStorage across visits.
+// Uses `defaultLocale` (the deployment's language) until the user has picked one.
+export const useMapLocale = (defaultLocale: MapLocaleName) => {
+  const [localeName, setLocaleNameState] = useState<MapLocaleName>(defaultLocale);
+
+  // Read the saved language after mount, so server and client render the same thing first
+  useEffect(() => {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    if (saved !== null && Object.hasOwn(MAP_LOCALES, saved)) setLocaleNameState(saved as MapLocaleName);
+  }, []);
+
+  const setLocaleName = useCallback((next: MapLocaleName) => {
+    setLocaleNameState(next);
+    window.localStorage.setItem(STORAGE_KEY, next);
+  }, []);
+
+  return { localeName, locale: MAP_LOCALES[localeName], setLocaleName };
+};
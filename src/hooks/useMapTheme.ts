@@ -0,0 +1,25 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { MAP_THEMES, MapThemeName } from '../lib/mapThemes';
+
+const STORAGE_KEY = 'threat-map.theme';
+
+// Theme picked from the toolbar, remembered in localStorage across visits.
+// Uses `defaultTheme` until the user has picked one.
+export const useMapTheme = (defaultTheme: MapThemeName) => {
+  const [themeName, setThemeNameState] = useState<MapThemeName>(defaultTheme);
+
+  // Read the saved theme after mount, so server and client render the same thing first
+  useEffect(() => {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    if (saved !== null && Object.hasOwn(MAP_THEMES, saved)) setThemeNameState(saved as MapThemeName);
+  }, []);
+
+  const setThemeName = useCallback((next: MapThemeName) => {
+    setThemeNameState(next);
+    window.localStorage.setItem(STORAGE_KEY, next);
+  }, []);
+
+  return { themeName, theme: MAP_THEMES[themeName], setThemeName };
+};
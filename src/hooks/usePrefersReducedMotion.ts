@@ -0,0 +1,19 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+
+const QUERY = '(prefers-reduced-motion: reduce)';
+
+const subscribe = (onChange: () => void) => {
+  const media = window.matchMedia(QUERY);
+  media.addEventListener('change', onChange);
+  return () => media.removeEventListener('change', onChange);
+};
+
+// Whether the user asked the system for less motion; follows changes to the setting while the page is open.
+// False during server rendering.
+export const usePrefersReducedMotion = () => useSyncExternalStore(
+  subscribe,
+  () => window.matchMedia(QUERY).matches,
+  () => false
+);
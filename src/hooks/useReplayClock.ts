@@ -0,0 +1,68 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { AnimationScheduler } from '../lib/animationScheduler';
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 25, 50, 100];
+
+interface UseReplayClockOptions {
+  // Bounds of the replay window in epoch milliseconds
+  start: number;
+  end: number;
+  enabled?: boolean;
+  // Advance on this scheduler's frames, so the clock stops with the map's animations
+  scheduler: AnimationScheduler;
+}
+
+export interface ReplayClock {
+  time: number;
+  start: number;
+  end: number;
+  playing: boolean;
+  speed: number;
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  setSpeed: (speed: number) => void;
+}
+
+// Virtual clock for timeline replay. While playing, `time` advances by the
+// scheduler's frame delta multiplied by `speed` and stops at `end`.
+export const useReplayClock = ({ start, end, enabled = true, scheduler }: UseReplayClockOptions): ReplayClock => {
+  const [time, setTime] = useState(start);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(REPLAY_SPEEDS[0]);
+
+  // Rewind whenever the replay window changes
+  useEffect(() => {
+    setTime(start);
+    setPlaying(false);
+  }, [start, end]);
+
+  useEffect(() => {
+    if (!enabled || !playing) return;
+
+    return scheduler.onFrame((now, delta) => {
+      setTime(current => Math.min(current + delta * speed, end));
+    });
+  }, [enabled, playing, speed, end, scheduler]);
+
+  // Stop once the clock has reached the end of the window
+  useEffect(() => {
+    if (playing && time >= end) setPlaying(false);
+  }, [playing, time, end]);
+
+  const play = useCallback(() => {
+    // Restart from the beginning when play is pressed at the end of the window
+    setTime(current => (current >= end ? start : current));
+    setPlaying(true);
+  }, [start, end]);
+
+  const pause = useCallback(() => setPlaying(false), []);
+
+  const seek = useCallback((value: number) => {
+    setTime(Math.min(Math.max(value, start), end));
+  }, [start, end]);
+
+  return { time, start, end, playing, speed, play, pause, seek, setSpeed };
+};
@@ -0,0 +1,34 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { resolveAttackAddresses } from '../lib/attackImport';
+import { convertWithGeoIpLookup } from '../lib/geoIpLookup';
+import { ThreatAttack } from '../types/threat';
+
+// Attacks with the countries of those that only carry `sourceIp` or `targetIp` filled in through
+// the GeoIP route. Attack lists that name every country come back as they are, without a request;
+// otherwise the list is empty until the lookup has answered.
+export const useResolvedAttacks = (attacks: ThreatAttack[], geoIpUrl: string) => {
+  const needsLookup = useMemo(() => attacks.some(attack => !attack.source || !attack.target), [attacks]);
+  const [resolved, setResolved] = useState<{ from: ThreatAttack[]; attacks: ThreatAttack[] } | null>(null);
+
+  useEffect(() => {
+    if (!needsLookup) return;
+    const controller = new AbortController();
+
+    convertWithGeoIpLookup(geoIpUrl, new Map(), geoIp => resolveAttackAddresses(attacks, geoIp), controller.signal)
+      .then(result => {
+        if (!controller.signal.aborted) setResolved({ from: attacks, attacks: result });
+      })
+      .catch(() => {
+        // Draw what can be drawn without the lookup
+        if (controller.signal.aborted) return;
+        setResolved({ from: attacks, attacks: resolveAttackAddresses(attacks) });
+      });
+
+    return () => controller.abort();
+  }, [attacks, geoIpUrl, needsLookup]);
+
+  if (!needsLookup) return attacks;
+  return resolved?.from === attacks ? resolved.attacks : [];
+};
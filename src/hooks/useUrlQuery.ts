@@ -0,0 +1,33 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+// Browsers throttle history updates, so rapid changes (zoom transitions, a playing replay) are batched
+const WRITE_INTERVAL = 500;
+
+// Mirrors `query` into the page's query string with history.replaceState, so the current view can be
+// shared as a link without filling the back button history. Nothing is written while `query` is null.
+export const useUrlQuery = (query: string | null) => {
+  const lastWriteRef = useRef(0);
+
+  useEffect(() => {
+    if (query === null) return;
+
+    const write = () => {
+      lastWriteRef.current = Date.now();
+      const { pathname, search, hash } = window.location;
+      const next = query ? `?${query}` : '';
+      if (next !== search) window.history.replaceState(null, '', `${pathname}${next}${hash}`);
+    };
+
+    const wait = lastWriteRef.current + WRITE_INTERVAL - Date.now();
+    if (wait <= 0) {
+      write();
+      return;
+    }
+
+    // Only the latest query is written once the interval is up
+    const timer = window.setTimeout(write, wait);
+    return () => window.clearTimeout(timer);
+  }, [query]);
+};
@@ -0,0 +1,8 @@
+// Runs once when the server starts
+export async function register() {
+  // Load the GeoIP table up front so the first import does not wait for it
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { loadGeoIpDatabase } = await import('./lib/geoIpDatabase');
+    await loadGeoIpDatabase();
+  }
+}
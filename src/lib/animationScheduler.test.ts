@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAnimationScheduler } from './animationScheduler';
+
+// Hand-driven clock and frame queue, so each test decides when time passes and frames run
+let clock = 0;
+let frames = new Map<number, FrameRequestCallback>();
+let nextFrame = 1;
+
+const advance = (ms: number) => {
+  clock += ms;
+  const pending = Array.from(frames.values());
+  frames = new Map();
+  pending.forEach(callback => callback(clock));
+};
+
+beforeEach(() => {
+  clock = 1000;
+  frames = new Map();
+  vi.spyOn(performance, 'now').mockImplementation(() => clock);
+  vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+    frames.set(nextFrame, callback);
+    return nextFrame++;
+  });
+  vi.stubGlobal('cancelAnimationFrame', (id: number) => frames.delete(id));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('createAnimationScheduler', () => {
+  it('stays paused until both the user and the hidden tab let go, in either order', () => {
+    const scheduler = createAnimationScheduler();
+    const listener = vi.fn();
+    scheduler.subscribe(listener);
+
+    scheduler.pause('user');
+    scheduler.pause('hidden');
+    scheduler.resume('user');
+    expect(scheduler.isPaused()).toBe(true);
+    expect(scheduler.isPaused('hidden')).toBe(true);
+    expect(scheduler.isPaused('user')).toBe(false);
+    scheduler.resume('hidden');
+    expect(scheduler.isPaused()).toBe(false);
+
+    scheduler.pause('hidden');
+    scheduler.pause('user');
+    scheduler.resume('hidden');
+    expect(scheduler.isPaused('user')).toBe(true);
+    scheduler.resume('user');
+    expect(scheduler.isPaused()).toBe(false);
+    expect(listener).toHaveBeenCalledTimes(8);
+  });
+
+  it('ignores a repeated pause or a resume for a reason it is not paused for', () => {
+    const scheduler = createAnimationScheduler();
+    const animation = { pause: vi.fn(), resume: vi.fn(), kill: vi.fn() };
+    scheduler.track(animation);
+
+    scheduler.pause('user');
+    scheduler.pause('user');
+    scheduler.pause('hidden');
+    scheduler.resume('hidden');
+    scheduler.resume('hidden');
+    expect(scheduler.isPaused('user')).toBe(true);
+    expect(animation.pause).toHaveBeenCalledTimes(1);
+    expect(animation.resume).not.toHaveBeenCalled();
+
+    scheduler.resume();
+    expect(animation.resume).toHaveBeenCalledTimes(1);
+  });
+
+  it('resumes where it stopped, without counting the paused time', () => {
+    const scheduler = createAnimationScheduler();
+    const start = scheduler.now();
+    const onFrame = vi.fn();
+    const timeout = vi.fn();
+    scheduler.onFrame(onFrame);
+    scheduler.setTimeout(timeout, 100);
+
+    advance(16);
+    expect(onFrame).toHaveBeenLastCalledWith(start + 16, 16);
+    scheduler.pause('hidden');
+    advance(60_000);
+    expect(scheduler.now()).toBe(start + 16);
+    expect(onFrame).toHaveBeenCalledTimes(1);
+
+    scheduler.resume('hidden');
+    advance(16);
+    expect(onFrame).toHaveBeenLastCalledWith(start + 32, 16);
+    expect(timeout).not.toHaveBeenCalled();
+    advance(68);
+    expect(timeout).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips callbacks unsubscribed by an earlier one in the same frame', () => {
+    const scheduler = createAnimationScheduler();
+    const second = vi.fn();
+    const timer = vi.fn();
+    let cancelSecond = () => {};
+    let cancelTimer = () => {};
+    scheduler.setTimeout(() => cancelTimer(), 0);
+    cancelTimer = scheduler.setTimeout(timer, 0);
+    scheduler.onFrame(() => cancelSecond());
+    cancelSecond = scheduler.onFrame(second);
+
+    advance(16);
+    expect(timer).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('stops the frame loop once the last callback unsubscribes during a frame', () => {
+    const scheduler = createAnimationScheduler();
+    let unsubscribe = () => {};
+    const callback = vi.fn(() => unsubscribe());
+    unsubscribe = scheduler.onFrame(callback);
+
+    advance(16);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(frames.size).toBe(0);
+    advance(16);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,155 @@
+// Why the scheduler is paused: by the user, or because the tab is in the background
+export type PauseReason = 'user' | 'hidden';
+
+// Anything with its own playhead that should follow the scheduler, e.g. a GSAP timeline or context
+export interface PausableAnimation {
+  pause: () => void;
+  resume: () => void;
+  kill: () => void;
+}
+
+// Called once per frame with the scheduler time and the milliseconds since the previous frame
+export type FrameCallback = (now: number, elapsed: number) => void;
+
+export interface AnimationScheduler {
+  // Milliseconds on the scheduler clock, which stands still while paused
+  now: () => number;
+  // Each registration returns a function that cancels it
+  setTimeout: (callback: () => void, delay: number) => () => void;
+  setInterval: (callback: () => void, interval: number) => () => void;
+  onFrame: (callback: FrameCallback) => () => void;
+  track: (animation: PausableAnimation) => () => void;
+  pause: (reason?: PauseReason) => void;
+  resume: (reason?: PauseReason) => void;
+  // Paused for the given reason, or for any reason when omitted
+  isPaused: (reason?: PauseReason) => boolean;
+  // Notified whenever the paused state changes
+  subscribe: (listener: () => void) => () => void;
+  // Cancel every timer, frame callback and tracked animation
+  cancelAll: () => void;
+}
+
+interface Timer {
+  due: number;
+  callback: () => void;
+  interval?: number;
+}
+
+// One requestAnimationFrame loop drives every timer and frame callback registered with the scheduler,
+// so pausing the loop freezes all of them and cancelAll tears them down in one go.
+// The loop only runs while something is registered and the scheduler is not paused.
+export const createAnimationScheduler = (): AnimationScheduler => {
+  const timers = new Set<Timer>();
+  const frameCallbacks = new Set<FrameCallback>();
+  const animations = new Set<PausableAnimation>();
+  const listeners = new Set<() => void>();
+  const pauseReasons = new Set<PauseReason>();
+
+  // Wall-clock time spent paused, subtracted from performance.now()
+  let pausedTotal = 0;
+  let pausedAt = 0;
+  let lastFrame = 0;
+  let frameId = 0;
+
+  const now = () => (pauseReasons.size > 0 ? pausedAt : performance.now()) - pausedTotal;
+
+  const hasWork = () => timers.size > 0 || frameCallbacks.size > 0;
+
+  const frame = () => {
+    frameId = 0;
+    const time = now();
+    const elapsed = time - lastFrame;
+    lastFrame = time;
+
+    // Snapshot first: callbacks may register or cancel others
+    Array.from(timers).forEach(timer => {
+      if (!timers.has(timer) || timer.due > time) return;
+      if (timer.interval === undefined) {
+        timers.delete(timer);
+      } else {
+        // Skip missed ticks instead of firing them in a burst
+        timer.due += Math.max(timer.interval, Math.ceil((time - timer.due) / timer.interval) * timer.interval);
+      }
+      timer.callback();
+    });
+
+    Array.from(frameCallbacks).forEach(callback => {
+      if (frameCallbacks.has(callback)) callback(time, elapsed);
+    });
+
+    requestLoop();
+  };
+
+  const requestLoop = () => {
+    if (frameId || pauseReasons.size > 0 || !hasWork()) return;
+    if (typeof requestAnimationFrame === 'undefined') return;
+    frameId = requestAnimationFrame(frame);
+  };
+
+  const addTimer = (timer: Timer) => {
+    timers.add(timer);
+    requestLoop();
+    return () => {
+      timers.delete(timer);
+    };
+  };
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  return {
+    now,
+    setTimeout: (callback, delay) => addTimer({ due: now() + delay, callback }),
+    setInterval: (callback, interval) => addTimer({ due: now() + interval, callback, interval }),
+    onFrame: (callback) => {
+      if (!frameId) lastFrame = now();
+      frameCallbacks.add(callback);
+      requestLoop();
+      return () => {
+        frameCallbacks.delete(callback);
+      };
+    },
+    track: (animation) => {
+      animations.add(animation);
+      if (pauseReasons.size > 0) animation.pause();
+      return () => {
+        animations.delete(animation);
+      };
+    },
+    pause: (reason = 'user') => {
+      if (pauseReasons.has(reason)) return;
+      if (pauseReasons.size === 0) {
+        pausedAt = performance.now();
+        cancelAnimationFrame(frameId);
+        frameId = 0;
+        animations.forEach(animation => animation.pause());
+      }
+      pauseReasons.add(reason);
+      notify();
+    },
+    resume: (reason = 'user') => {
+      if (!pauseReasons.delete(reason)) return;
+      if (pauseReasons.size === 0) {
+        pausedTotal += performance.now() - pausedAt;
+        lastFrame = now();
+        animations.forEach(animation => animation.resume());
+        requestLoop();
+      }
+      notify();
+    },
+    isPaused: (reason) => (reason ? pauseReasons.has(reason) : pauseReasons.size > 0),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    cancelAll: () => {
+      cancelAnimationFrame(frameId);
+      frameId = 0;
+      timers.clear();
+      frameCallbacks.clear();
+      animations.forEach(animation => animation.kill());
+      animations.clear();
+    }
+  };
+};
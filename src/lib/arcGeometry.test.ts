@@ -0,0 +1,92 @@
+import * as d3 from 'd3';
+import { describe, expect, it } from 'vitest';
+import { createBundledArc, createCubicArc, createGeodesicArc, createQuadraticArc } from './arcGeometry';
+
+const WIDTH = 1100;
+const HEIGHT = 750;
+
+const mercator = () => d3.geoMercator()
+  .translate([WIDTH / 2, HEIGHT / 2])
+  .scale((WIDTH - 1) / 2 / Math.PI);
+
+// Number of separately drawn pieces in an SVG path
+const segmentCount = (d: string) => (d.match(/M/g) ?? []).length;
+
+describe('screen-space arcs', () => {
+  it('starts the cubic arc at the source and ends it at the target', () => {
+    const arc = createCubicArc([100, 300], [500, 200]);
+    expect(arc.d.startsWith('M100,300C')).toBe(true);
+    expect(arc.pointAt(0)).toEqual([100, 300]);
+    expect(arc.pointAt(1)).toEqual([500, 200]);
+  });
+
+  it('lifts the cubic arc above the straight line', () => {
+    const [, y] = createCubicArc([100, 300], [500, 300]).pointAt(0.5) ?? [0, 0];
+    expect(y).toBeLessThan(300);
+  });
+
+  it('lifts the quadratic arc above the straight line', () => {
+    const arc = createQuadraticArc([100, 300], [500, 300]);
+    expect(arc.pointAt(0)).toEqual([100, 300]);
+    expect(arc.pointAt(1)).toEqual([500, 300]);
+    expect(arc.pointAt(0.5)?.[1]).toBeLessThan(300);
+  });
+
+  it('draws the plain cubic arc when bundling has no strength', () => {
+    const bundled = createBundledArc([100, 300], [500, 200], [900, 0], [0, 700], 0);
+    expect(bundled.d).toBe(createCubicArc([100, 300], [500, 200]).d);
+  });
+
+  it('pulls bundled arcs towards their bundle point but keeps the ends', () => {
+    const plain = createCubicArc([100, 300], [500, 300]);
+    const bundled = createBundledArc([100, 300], [500, 300], [100, 700], [500, 700], 1);
+    expect(bundled.pointAt(0)).toEqual([100, 300]);
+    expect(bundled.pointAt(1)).toEqual([500, 300]);
+    expect(bundled.pointAt(0.5)?.[1]).toBeGreaterThan(plain.pointAt(0.5)?.[1] ?? 0);
+  });
+});
+
+describe('createGeodesicArc', () => {
+  it('has nothing to draw between a point and itself', () => {
+    const arc = createGeodesicArc(mercator(), [2.35, 48.86], [2.35, 48.86]);
+    expect(arc.d).toBe('');
+    expect(arc.pointAt(0.5)).toBeNull();
+  });
+
+  it('draws one piece when the great circle stays on the map', () => {
+    const projection = mercator();
+    const arc = createGeodesicArc(projection, [-0.13, 51.51], [37.62, 55.76]);
+    expect(segmentCount(arc.d)).toBe(1);
+
+    const start = arc.pointAt(0);
+    const london = projection([-0.13, 51.51]);
+    expect(start?.[0]).toBeCloseTo(london?.[0] ?? NaN);
+    expect(start?.[1]).toBeCloseTo(london?.[1] ?? NaN);
+  });
+
+  it('splits the arc where it crosses the antimeridian on a flat map', () => {
+    // Tokyo to San Francisco crosses the Pacific
+    const projection = mercator();
+    const arc = createGeodesicArc(projection, [139.69, 35.69], [-122.42, 37.77]);
+    expect(segmentCount(arc.d)).toBe(2);
+
+    // Each piece ends at the map's edge instead of running across the whole map
+    const xs = arc.d.split('M').filter(Boolean).map(piece => piece.split(/[L,]/).filter((_, i) => i % 2 === 0).map(Number));
+    expect(Math.max(...xs[0])).toBeCloseTo(projection([180, 0])?.[0] ?? NaN, 2);
+    expect(Math.min(...xs[1])).toBeCloseTo(projection([-180, 0])?.[0] ?? NaN, 2);
+  });
+
+  it('hides the part of the arc behind the globe', () => {
+    const globe = d3.geoOrthographic()
+      .translate([WIDTH / 2, HEIGHT / 2])
+      .scale(300)
+      .clipAngle(90)
+      .rotate([0, 0]);
+
+    // From the front of the globe to its far side
+    const arc = createGeodesicArc(globe, [0, 0], [170, 0]);
+    expect(arc.pointAt(0)).not.toBeNull();
+    expect(arc.pointAt(1)).toBeNull();
+    expect(segmentCount(arc.d)).toBe(1);
+  });
+});
@@ -0,0 +1,188 @@
+import * as d3 from 'd3';
+import { isPointVisible } from './projections';
+
+export type ArcMode = 'geodesic' | 'bezier';
+
+export const ARC_MODE_LABELS: { [key in ArcMode]: string } = {
+  geodesic: 'Great-circle arcs',
+  bezier: 'Curved arcs'
+};
+
+type ScreenPoint = [number, number];
+type LngLat = [number, number];
+
+// Shape of an attack arc on screen. `d` is the SVG path; `pointAt(t)` gives the position
+// a particle should have at progress t in [0, 1], or null while that point is hidden.
+export interface ArcGeometry {
+  d: string;
+  pointAt: (t: number) => ScreenPoint | null;
+}
+
+const EMPTY_ARC: ArcGeometry = { d: '', pointAt: () => null };
+
+const cubicBezier = (source: ScreenPoint, cp1: ScreenPoint, cp2: ScreenPoint, target: ScreenPoint): ArcGeometry => ({
+  d: `M${source[0]},${source[1]}C${cp1[0]},${cp1[1]} ${cp2[0]},${cp2[1]} ${target[0]},${target[1]}`,
+  pointAt: (t) => {
+    const u = 1 - t;
+    return [
+      u * u * u * source[0] + 3 * u * u * t * cp1[0] + 3 * u * t * t * cp2[0] + t * t * t * target[0],
+      u * u * u * source[1] + 3 * u * u * t * cp1[1] + 3 * u * t * t * cp2[1] + t * t * t * target[1]
+    ];
+  }
+});
+
+// Control points of the cubic arc, lifted above the straight line between the endpoints
+const liftedControlPoints = (source: ScreenPoint, target: ScreenPoint): [ScreenPoint, ScreenPoint] => {
+  const dx = target[0] - source[0];
+  const dy = target[1] - source[1];
+  const distance = Math.sqrt(dx * dx + dy * dy);
+
+  // Calculate dramatic arc height based on distance
+  const arcHeight = Math.min(distance * 0.6, 300);
+
+  const midX = (source[0] + target[0]) / 2;
+  return [
+    [source[0] + (midX - source[0]) * 0.5, source[1] - arcHeight * 0.3],
+    [target[0] - (target[0] - midX) * 0.5, target[1] - arcHeight * 0.3]
+  ];
+};
+
+// Cubic bezier lifted above the straight line between the endpoints (SimpleWorldMap's "dramatic" arc)
+export const createCubicArc = (source: ScreenPoint, target: ScreenPoint): ArcGeometry => {
+  const [cp1, cp2] = liftedControlPoints(source, target);
+  return cubicBezier(source, cp1, cp2, target);
+};
+
+// The cubic arc with its control points pulled `strength` (0 to 1) of the way towards points halfway
+// to the bundle points, so arcs given the same bundle point leave or arrive together
+export const createBundledArc = (
+  source: ScreenPoint,
+  target: ScreenPoint,
+  sourceBundle: ScreenPoint,
+  targetBundle: ScreenPoint,
+  strength: number
+): ArcGeometry => {
+  const [cp1, cp2] = liftedControlPoints(source, target);
+  const pull = (control: ScreenPoint, end: ScreenPoint, bundle: ScreenPoint): ScreenPoint => [
+    control[0] + ((end[0] + bundle[0]) / 2 - control[0]) * strength,
+    control[1] + ((end[1] + bundle[1]) / 2 - control[1]) * strength
+  ];
+  return cubicBezier(source, pull(cp1, source, sourceBundle), pull(cp2, target, targetBundle), target);
+};
+
+// Quadratic bezier with a single raised control point (WorldMap's "archer" arc)
+export const createQuadraticArc = (source: ScreenPoint, target: ScreenPoint): ArcGeometry => {
+  const dx = target[0] - source[0];
+  const dy = target[1] - source[1];
+  const distance = Math.sqrt(dx * dx + dy * dy);
+  const arcHeight = Math.min(distance * 0.3, 200);
+
+  const control: ScreenPoint = [(source[0] + target[0]) / 2, (source[1] + target[1]) / 2 - arcHeight];
+
+  return {
+    d: `M${source[0]},${source[1]}Q${control[0]},${control[1]} ${target[0]},${target[1]}`,
+    pointAt: (t) => {
+      const u = 1 - t;
+      return [
+        u * u * source[0] + 2 * u * t * control[0] + t * t * target[0],
+        u * u * source[1] + 2 * u * t * control[1] + t * t * target[1]
+      ];
+    }
+  };
+};
+
+interface GeodesicArcOptions {
+  // Number of samples along the great circle
+  samples?: number;
+  // Peak lift as a fraction of the projection scale per radian of arc length
+  lift?: number;
+  // Upper bound for the lift on flat maps, in pixels
+  maxLift?: number;
+}
+
+// Great-circle arc between two [lng, lat] points, lifted for visual height.
+// Flat projections lift the arc upwards and split it where it crosses the antimeridian;
+// clipped (globe) projections lift it away from the globe centre and split it at the horizon.
+export const createGeodesicArc = (
+  projection: d3.GeoProjection,
+  source: LngLat,
+  target: LngLat,
+  options: GeodesicArcOptions = {}
+): ArcGeometry => {
+  const { samples = 64, lift = 0.3, maxLift = 160 } = options;
+
+  const interpolate = d3.geoInterpolate(source, target);
+  const angle = d3.geoDistance(source, target);
+  if (angle === 0) return EMPTY_ARC;
+
+  const isGlobe = Boolean(projection.clipAngle());
+  const [cx, cy] = projection.translate();
+
+  // Globe lift is an altitude relative to the radius; flat lift is a pixel offset
+  const peak = isGlobe
+    ? Math.min(angle * lift * 0.5, 0.35)
+    : Math.min(angle * projection.scale() * lift, maxLift);
+
+  const liftPoint = (point: ScreenPoint, t: number): ScreenPoint => {
+    const height = peak * Math.sin(Math.PI * t);
+    if (isGlobe) {
+      return [cx + (point[0] - cx) * (1 + height), cy + (point[1] - cy) * (1 + height)];
+    }
+    return [point[0], point[1] - height];
+  };
+
+  const projectAt = (lngLat: LngLat, t: number): ScreenPoint | null => {
+    if (!isPointVisible(projection, lngLat)) return null;
+    const point = projection(lngLat);
+    return point ? liftPoint(point, t) : null;
+  };
+
+  const segments: ScreenPoint[][] = [];
+  let current: ScreenPoint[] = [];
+  const endSegment = () => {
+    if (current.length > 1) segments.push(current);
+    current = [];
+  };
+
+  let previous: { lngLat: LngLat; t: number } | null = null;
+
+  for (let i = 0; i <= samples; i++) {
+    const t = i / samples;
+    const lngLat = interpolate(t) as LngLat;
+
+    // Crossing the antimeridian on a flat map: finish the segment at one edge
+    // and start the next one at the opposite edge
+    if (!isGlobe && previous && Math.abs(lngLat[0] - previous.lngLat[0]) > 180) {
+      const edge = previous.lngLat[0] > 0 ? 180 : -180;
+      const unwrapped = lngLat[0] + (edge > 0 ? 360 : -360);
+      const f = (edge - previous.lngLat[0]) / (unwrapped - previous.lngLat[0]);
+      const lat = previous.lngLat[1] + f * (lngLat[1] - previous.lngLat[1]);
+      const tEdge = previous.t + f * (t - previous.t);
+      const epsilon = 1e-6;
+
+      const exit = projectAt([edge - Math.sign(edge) * epsilon, lat], tEdge);
+      if (exit) current.push(exit);
+      endSegment();
+
+      const entry = projectAt([-edge + Math.sign(edge) * epsilon, lat], tEdge);
+      if (entry) current.push(entry);
+    }
+
+    const point = projectAt(lngLat, t);
+    if (point) {
+      current.push(point);
+    } else {
+      endSegment();
+    }
+
+    previous = { lngLat, t };
+  }
+  endSegment();
+
+  const line = d3.line<ScreenPoint>();
+
+  return {
+    d: segments.map(segment => line(segment) ?? '').join(''),
+    pointAt: (t) => projectAt(interpolate(t) as LngLat, t)
+  };
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { computeAttackCounters, startOfZonedDay } from './attackCounters';
+import { ThreatAttack } from '../types/threat';
+
+const at = (iso: string) => Date.parse(iso);
+
+const attackAt = (timestamp: string, id = timestamp): ThreatAttack => ({
+  id,
+  source: 'CHN',
+  target: 'USA',
+  type: 'malware',
+  severity: 'high',
+  timestamp,
+  duration: 1000,
+  description: ''
+});
+
+describe('startOfZonedDay', () => {
+  it('starts the day at midnight UTC by default', () => {
+    expect(startOfZonedDay(at('2024-06-01T13:45:10Z'))).toBe(at('2024-06-01T00:00:00Z'));
+    expect(startOfZonedDay(at('2024-06-01T00:00:00Z'), 'UTC')).toBe(at('2024-06-01T00:00:00Z'));
+  });
+
+  it('uses the local date in zones ahead of UTC', () => {
+    // 10:00 in Tokyo
+    expect(startOfZonedDay(at('2024-06-01T01:00:00Z'), 'Asia/Tokyo')).toBe(at('2024-05-31T15:00:00Z'));
+    // 01:30 the next day in Kolkata, half an hour off the hour
+    expect(startOfZonedDay(at('2024-06-01T20:00:00Z'), 'Asia/Kolkata')).toBe(at('2024-06-01T18:30:00Z'));
+  });
+
+  it('uses the local date in zones behind UTC', () => {
+    // 22:00 the previous evening in New York
+    expect(startOfZonedDay(at('2024-06-02T02:00:00Z'), 'America/New_York')).toBe(at('2024-06-01T04:00:00Z'));
+  });
+
+  it('follows daylight saving changes in New York', () => {
+    // The day the clocks go forward began on standard time, the day they go back on daylight time
+    expect(startOfZonedDay(at('2024-03-10T12:00:00Z'), 'America/New_York')).toBe(at('2024-03-10T05:00:00Z'));
+    expect(startOfZonedDay(at('2024-11-03T12:00:00Z'), 'America/New_York')).toBe(at('2024-11-03T04:00:00Z'));
+  });
+
+  it('starts the day at 01:00 where midnight is skipped in Santiago', () => {
+    expect(startOfZonedDay(at('2024-06-01T12:00:00Z'), 'America/Santiago')).toBe(at('2024-06-01T04:00:00Z'));
+    // Clocks jump from 00:00 to 01:00 on 8 September 2024
+    expect(startOfZonedDay(at('2024-09-08T15:00:00Z'), 'America/Santiago')).toBe(at('2024-09-08T04:00:00Z'));
+  });
+});
+
+describe('computeAttackCounters', () => {
+  const now = at('2024-06-01T12:00:00Z');
+
+  it('counts attacks in the last minute, the last hour and the day so far', () => {
+    const counters = computeAttackCounters([
+      attackAt('2024-06-01T11:59:30Z'),
+      attackAt('2024-06-01T11:30:00Z'),
+      attackAt('2024-06-01T02:00:00Z'),
+      attackAt('2024-05-31T23:59:00Z'),
+      // Not started yet
+      attackAt('2024-06-01T12:00:01Z')
+    ], now);
+
+    expect(counters.lastMinute).toBe(1);
+    expect(counters.lastHour).toBe(2);
+    expect(counters.today).toBe(3);
+    expect(counters.dayStart).toBe(at('2024-06-01T00:00:00Z'));
+  });
+
+  it('rolls the day over in the given time zone', () => {
+    // 21:00 in Tokyo, whose day started at 15:00 UTC the day before
+    const counters = computeAttackCounters(
+      [attackAt('2024-06-01T02:00:00Z'), attackAt('2024-05-31T16:00:00Z'), attackAt('2024-05-31T14:00:00Z')],
+      now,
+      { timeZone: 'Asia/Tokyo' }
+    );
+    expect(counters.today).toBe(2);
+  });
+
+  it('buckets the sparkline oldest first, the last bucket ending now', () => {
+    const counters = computeAttackCounters([
+      attackAt('2024-06-01T11:59:59Z'),
+      attackAt('2024-06-01T11:59:01Z'),
+      attackAt('2024-06-01T11:57:30Z'),
+      // Older than the sparkline
+      attackAt('2024-06-01T11:50:00Z')
+    ], now, { sparklineBuckets: 5, sparklineInterval: 60 * 1000 });
+
+    expect(counters.sparkline).toEqual([0, 0, 1, 0, 2]);
+  });
+});
@@ -0,0 +1,91 @@
+import { ThreatAttack } from '../types/threat';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export interface AttackCounters {
+  lastMinute: number;
+  lastHour: number;
+  // Attacks since midnight in the counters' time zone
+  today: number;
+  // Epoch ms of that midnight
+  dayStart: number;
+  // Attacks per interval, oldest first, the last bucket ending at `now`
+  sparkline: number[];
+}
+
+interface AttackCounterOptions {
+  // IANA time zone the day rolls over in
+  timeZone?: string;
+  sparklineBuckets?: number;
+  sparklineInterval?: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const zoneFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Milliseconds the time zone is ahead of UTC at the given instant
+const zoneOffset = (time: number, timeZone: string) => {
+  const parts = zoneFormatter(timeZone).formatToParts(new Date(time));
+  const field = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value ?? 0);
+  const wallClock = Date.UTC(field('year'), field('month') - 1, field('day'), field('hour'), field('minute'), field('second'));
+  return wallClock - Math.floor(time / 1000) * 1000;
+};
+
+// Epoch ms of the most recent midnight in `timeZone` at or before `time`
+export const startOfZonedDay = (time: number, timeZone = 'UTC') => {
+  const offset = zoneOffset(time, timeZone);
+  const local = new Date(time + offset);
+  const localMidnight = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+
+  // The offset at midnight differs from the current one on daylight saving days
+  return localMidnight - zoneOffset(localMidnight - offset, timeZone);
+};
+
+// Rolling counts of attacks that started before `now` (epoch ms)
+export const computeAttackCounters = (
+  attacks: ThreatAttack[],
+  now: number,
+  options: AttackCounterOptions = {}
+): AttackCounters => {
+  const { timeZone = 'UTC', sparklineBuckets = 30, sparklineInterval = MINUTE } = options;
+
+  const dayStart = startOfZonedDay(now, timeZone);
+  const sparklineStart = now - sparklineBuckets * sparklineInterval;
+  const sparkline = new Array<number>(sparklineBuckets).fill(0);
+  let lastMinute = 0;
+  let lastHour = 0;
+  let today = 0;
+
+  attacks.forEach(attack => {
+    const time = Date.parse(attack.timestamp);
+    if (time > now) return;
+
+    if (time > now - MINUTE) lastMinute++;
+    if (time > now - HOUR) lastHour++;
+    if (time >= dayStart) today++;
+    if (time > sparklineStart) {
+      const bucket = Math.min(Math.floor((time - sparklineStart) / sparklineInterval), sparklineBuckets - 1);
+      sparkline[bucket]++;
+    }
+  });
+
+  return { lastMinute, lastHour, today, dayStart, sparkline };
+};
@@ -0,0 +1,71 @@
+import cities from '../data/cities.json';
+import { getCountryCoordinate } from './countryCodes';
+import { AttackLocation, City, CountryCoordinate, ThreatAttack } from '../types/threat';
+
+// Point an arc starts or ends at
+export interface AttackEndpoint extends CountryCoordinate {
+  // Same for every attack at the same point, so they can share a pointer
+  key: string;
+  // ISO3 code of the country the point belongs to
+  country: string;
+}
+
+const cityKey = (country: string, name: string) => `${country}|${name.trim().toLowerCase()}`;
+
+const citiesByKey = new Map((cities as City[]).map(city => [cityKey(city.country, city.name), city]));
+
+// Gazetteer entry for a city in a country
+export const findCity = (country: string, name: string): City | undefined => citiesByKey.get(cityKey(country, name));
+
+// Valid AttackLocation from untyped input, e.g. an imported record
+export const toAttackLocation = (value: unknown): AttackLocation | undefined => {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const { lat, lng, city } = value as { [key: string]: unknown };
+  const hasCoordinates = typeof lat === 'number' && Number.isFinite(lat) && Math.abs(lat) <= 90 &&
+    typeof lng === 'number' && Number.isFinite(lng) && Math.abs(lng) <= 180;
+  const hasCity = typeof city === 'string' && city.trim() !== '';
+  if (!hasCoordinates && !hasCity) return undefined;
+
+  return {
+    ...(hasCoordinates ? { lat: lat as number, lng: lng as number } : {}),
+    ...(hasCity ? { city: (city as string).trim() } : {})
+  };
+};
+
+// Where one end of an attack is drawn: its own coordinates, then its city from the gazetteer,
+// then the centroid of its country. Undefined when the country is unknown as well.
+export const resolveAttackEndpoint = (attack: ThreatAttack, end: 'source' | 'target'): AttackEndpoint | undefined => {
+  const country = attack[end];
+  const location = end === 'source' ? attack.sourceLocation : attack.targetLocation;
+  const countryCoord = getCountryCoordinate(country);
+
+  if (location?.lat !== undefined && location.lng !== undefined) {
+    return {
+      key: `${country}@${location.lat.toFixed(3)},${location.lng.toFixed(3)}`,
+      country,
+      lat: location.lat,
+      lng: location.lng,
+      name: location.city ?? countryCoord?.name ?? country
+    };
+  }
+
+  const city = location?.city ? findCity(country, location.city) : undefined;
+  if (city) {
+    return { key: cityKey(country, city.name), country, lat: city.lat, lng: city.lng, name: city.name };
+  }
+
+  return countryCoord && { key: country, country, ...countryCoord };
+};
+
+// An attack with both ends resolved, so code drawing or grouping many attacks resolves each one once
+export interface ResolvedAttack {
+  attack: ThreatAttack;
+  source?: AttackEndpoint;
+  target?: AttackEndpoint;
+}
+
+export const resolveAttackEndpoints = (attack: ThreatAttack): ResolvedAttack => ({
+  attack,
+  source: resolveAttackEndpoint(attack, 'source'),
+  target: resolveAttackEndpoint(attack, 'target')
+});
@@ -0,0 +1,45 @@
+import { ThreatAttack, ThreatSeverity } from '../types/threat';
+
+// An empty list means "no restriction" for that dimension
+export interface AttackFilters {
+  severities: ThreatSeverity[];
+  types: string[];
+  sources: string[];
+  targets: string[];
+}
+
+export type AttackFilterKey = keyof AttackFilters;
+
+export const EMPTY_FILTERS: AttackFilters = {
+  severities: [],
+  types: [],
+  sources: [],
+  targets: []
+};
+
+export const matchesFilters = (attack: ThreatAttack, filters: AttackFilters) => {
+  return (filters.severities.length === 0 || filters.severities.includes(attack.severity)) &&
+    (filters.types.length === 0 || filters.types.includes(attack.type)) &&
+    (filters.sources.length === 0 || filters.sources.includes(attack.source)) &&
+    (filters.targets.length === 0 || filters.targets.includes(attack.target));
+};
+
+export const hasActiveFilters = (filters: AttackFilters) => {
+  return (Object.keys(filters) as AttackFilterKey[]).some(key => filters[key].length > 0);
+};
+
+// Whether a single legend/filter value is currently let through
+export const isFilterValueActive = (filters: AttackFilters, key: AttackFilterKey, value: string) => {
+  const values = filters[key] as string[];
+  return values.length === 0 || values.includes(value);
+};
+
+// Add the value to its dimension, or remove it when it is already selected
+export const toggleFilterValue = (filters: AttackFilters, key: AttackFilterKey, value: string): AttackFilters => {
+  const values = filters[key] as string[];
+  const nextValues = values.includes(value)
+    ? values.filter(item => item !== value)
+    : [...values, value];
+
+  return { ...filters, [key]: nextValues };
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateAttackFlows, flowStrokeWidth, getCountryRegion, getRegion } from './attackFlows';
+import { resolveAttackEndpoints } from './attackEndpoints';
+import { ThreatAttack, ThreatSeverity } from '../types/threat';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const attack = (id: string, source: string, target: string, timestamp: string, severity: ThreatSeverity = 'medium'): ThreatAttack => ({
+  id,
+  source,
+  target,
+  type: 'DDoS',
+  severity,
+  timestamp,
+  duration: 3000,
+  description: ''
+});
+
+const aggregate = (attacks: ThreatAttack[], by: 'country' | 'region', window = HOUR) =>
+  aggregateAttackFlows(attacks.map(resolveAttackEndpoints), by, window);
+
+describe('aggregateAttackFlows', () => {
+  it('merges attacks between the same countries within a window, oldest first', () => {
+    const flows = aggregate([
+      attack('A2', 'CHN', 'USA', '2024-06-01T12:40:00Z', 'low'),
+      attack('A1', 'CHN', 'USA', '2024-06-01T12:10:00Z', 'high'),
+      attack('A3', 'USA', 'CHN', '2024-06-01T12:20:00Z')
+    ], 'country');
+
+    expect(flows).toHaveLength(2);
+    expect(flows[0]).toMatchObject({
+      source: { kind: 'country', code: 'CHN', lat: 35.8617, lng: 104.1954 },
+      target: { kind: 'country', code: 'USA' },
+      start: Date.parse('2024-06-01T12:00:00Z'),
+      end: Date.parse('2024-06-01T13:00:00Z'),
+      severity: 'high'
+    });
+    expect(flows[0].attacks.map(({ id }) => id)).toEqual(['A1', 'A2']);
+    expect(flows[1].attacks.map(({ id }) => id)).toEqual(['A3']);
+  });
+
+  it('keys flows by their ends and fixed window, so the key survives attacks joining and leaving', () => {
+    const first = attack('A1', 'CHN', 'USA', '2024-06-01T12:01:00Z');
+    const second = attack('A2', 'CHN', 'USA', '2024-06-01T12:04:00Z');
+    const [before] = aggregate([first], 'country', 5 * MINUTE);
+    const [after] = aggregate([first, second], 'country', 5 * MINUTE);
+    const [without] = aggregate([second], 'country', 5 * MINUTE);
+
+    expect(before.key).toBe(`CHN>USA@${Date.parse('2024-06-01T12:00:00Z')}`);
+    expect(after.key).toBe(before.key);
+    expect(without.key).toBe(before.key);
+    expect(aggregate([attack('A3', 'CHN', 'USA', '2024-06-01T12:05:00Z')], 'country', 5 * MINUTE)[0].key).not.toBe(before.key);
+  });
+
+  it('takes the worst severity of the merged attacks', () => {
+    const [flow] = aggregate([
+      attack('A1', 'RUS', 'DEU', '2024-06-01T12:00:00Z', 'critical'),
+      attack('A2', 'RUS', 'DEU', '2024-06-01T12:01:00Z', 'low')
+    ], 'country');
+    expect(flow.severity).toBe('critical');
+  });
+
+  it('merges countries into their regions at the region anchor', () => {
+    const flows = aggregate([
+      attack('A1', 'CHN', 'USA', '2024-06-01T12:00:00Z'),
+      attack('A2', 'JPN', 'CAN', '2024-06-01T12:01:00Z')
+    ], 'region');
+
+    expect(flows).toHaveLength(1);
+    expect(flows[0]).toMatchObject({
+      key: `eastern-asia>northern-america@${Date.parse('2024-06-01T12:00:00Z')}`,
+      source: { kind: 'region', code: 'eastern-asia', lat: 35, lng: 115 }
+    });
+  });
+
+  it('keeps places outside the region table on their own, at their coordinates, and drops unplaceable attacks', () => {
+    const atSea = { ...attack('A1', 'XSE', 'DEU', '2024-06-01T12:00:00Z'), sourceLocation: { lat: 10, lng: -30 } };
+    const flows = aggregate([atSea, attack('A2', 'Atlantis', 'DEU', '2024-06-01T12:00:00Z')], 'region');
+
+    expect(flows).toHaveLength(1);
+    expect(flows[0].source).toEqual({ kind: 'country', code: 'XSE', lat: 10, lng: -30 });
+    expect(flows[0].target).toMatchObject({ kind: 'region', code: 'western-europe' });
+  });
+});
+
+describe('region lookups', () => {
+  it('only know their own keys', () => {
+    expect(getCountryRegion('JPN')).toBe('eastern-asia');
+    expect(getCountryRegion('constructor')).toBeUndefined();
+    expect(getRegion('eastern-asia')?.name).toBe('Eastern Asia');
+    expect(getRegion('toString')).toBeUndefined();
+  });
+});
+
+describe('flowStrokeWidth', () => {
+  it('grows with the square root of the count, up to a cap', () => {
+    expect(flowStrokeWidth(1)).toBe(1.5);
+    expect(flowStrokeWidth(4)).toBe(3);
+    expect(flowStrokeWidth(16)).toBe(6);
+    expect(flowStrokeWidth(10000)).toBe(14);
+  });
+});
@@ -0,0 +1,147 @@
+import regionData from '../data/regions.json';
+import { ArcGeometry, createBundledArc } from './arcGeometry';
+import { ResolvedAttack } from './attackEndpoints';
+import { getCountryCoordinate } from './countryCodes';
+import { SEVERITY_ORDER } from './countryStats';
+import { ThreatAttack, ThreatSeverity } from '../types/threat';
+
+// Draw every attack as its own arc, or merge the attacks between the same two countries or regions
+export type FlowAggregation = 'none' | 'country' | 'region';
+
+export const FLOW_AGGREGATION_LABELS: { [key in FlowAggregation]: string } = {
+  none: 'One arc per attack',
+  country: 'Merge by country pair',
+  region: 'Merge by region pair'
+};
+
+const MINUTE = 60 * 1000;
+
+// Lengths of the time windows attacks are merged within
+export const FLOW_WINDOWS = [MINUTE, 5 * MINUTE, 15 * MINUTE, 60 * MINUTE, 24 * 60 * MINUTE];
+
+export const DEFAULT_FLOW_WINDOW = 60 * MINUTE;
+
+interface Region {
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+const regions = regionData.regions as { [key: string]: Region };
+const countryRegions = regionData.countries as { [iso3: string]: string };
+
+// UN geoscheme subregion of a country, e.g. "eastern-asia"
+export const getCountryRegion = (iso3: string): string | undefined =>
+  Object.hasOwn(countryRegions, iso3) ? countryRegions[iso3] : undefined;
+
+export const getRegion = (key: string): Region | undefined => (Object.hasOwn(regions, key) ? regions[key] : undefined);
+
+// One end of a flow: a country at its centroid, or a region at its anchor point
+export interface FlowEnd {
+  kind: 'country' | 'region';
+  // ISO3 code or region key
+  code: string;
+  lat: number;
+  lng: number;
+}
+
+// Attacks merged into one arc
+export interface AttackFlow {
+  key: string;
+  source: FlowEnd;
+  target: FlowEnd;
+  // Time window the attacks started in, epoch ms
+  start: number;
+  end: number;
+  // Oldest first
+  attacks: ThreatAttack[];
+  // Worst severity among the attacks
+  severity: ThreatSeverity;
+}
+
+// Countries outside the region table, and places known only by their coordinates, stay on their own
+const flowEnd = (resolved: ResolvedAttack, end: 'source' | 'target', by: 'country' | 'region'): FlowEnd | undefined => {
+  const country = resolved.attack[end];
+  const regionKey = by === 'region' ? getCountryRegion(country) : undefined;
+  if (regionKey) return { kind: 'region', code: regionKey, lat: regions[regionKey].lat, lng: regions[regionKey].lng };
+
+  const coordinate = getCountryCoordinate(country) ?? resolved[end];
+  return coordinate && { kind: 'country', code: country, lat: coordinate.lat, lng: coordinate.lng };
+};
+
+// Merge attacks on the same source and target country (or region) that started in the same time window.
+// Windows are fixed slots of `window` ms, so a flow keeps its key while attacks join and leave it.
+export const aggregateAttackFlows = (attacks: ResolvedAttack[], by: 'country' | 'region', window: number): AttackFlow[] => {
+  const flows = new Map<string, AttackFlow>();
+
+  attacks.forEach(resolved => {
+    const { attack } = resolved;
+    const source = flowEnd(resolved, 'source', by);
+    const target = flowEnd(resolved, 'target', by);
+    if (!source || !target) return;
+
+    const start = Math.floor(Date.parse(attack.timestamp) / window) * window;
+    const key = `${source.code}>${target.code}@${start}`;
+    const flow = flows.get(key);
+    if (!flow) {
+      flows.set(key, { key, source, target, start, end: start + window, attacks: [attack], severity: attack.severity });
+      return;
+    }
+
+    flow.attacks.push(attack);
+    if (SEVERITY_ORDER.indexOf(attack.severity) > SEVERITY_ORDER.indexOf(flow.severity)) flow.severity = attack.severity;
+  });
+
+  flows.forEach(flow => flow.attacks.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp)));
+  return Array.from(flows.values());
+};
+
+// Stroke width of a flow arc. It grows with the square root of the count, so a flow of a hundred
+// attacks is wide without drowning out the rest.
+const FLOW_MIN_WIDTH = 1.5;
+const FLOW_WIDTH_STEP = 1.5;
+const FLOW_MAX_WIDTH = 14;
+
+export const flowStrokeWidth = (count: number) =>
+  Math.min(FLOW_MIN_WIDTH + FLOW_WIDTH_STEP * (Math.sqrt(count) - 1), FLOW_MAX_WIDTH);
+
+type ScreenPoint = [number, number];
+
+// How far flows out of one end are pulled towards each other, 0 (not at all) to 1
+const BUNDLE_STRENGTH = 0.7;
+
+// Screen-space arcs for the flows with edge bundling: flows leaving the same end set off towards
+// the mean of their targets, and flows arriving at the same end come in from the mean of their
+// sources, so they share a trunk before fanning out. Flows with an end off screen get null.
+export const createBundledFlowArcs = (
+  flows: AttackFlow[],
+  project: (end: FlowEnd) => ScreenPoint | null
+): Map<string, ArcGeometry | null> => {
+  const points = new Map(flows.map(flow => [flow.key, { source: project(flow.source), target: project(flow.target) }]));
+
+  // Mean screen position of the far ends of the flows at each end
+  const outgoing = new Map<string, ScreenPoint[]>();
+  const incoming = new Map<string, ScreenPoint[]>();
+  flows.forEach(flow => {
+    const { source, target } = points.get(flow.key) ?? {};
+    if (!source || !target) return;
+    outgoing.set(flow.source.code, [...(outgoing.get(flow.source.code) ?? []), target]);
+    incoming.set(flow.target.code, [...(incoming.get(flow.target.code) ?? []), source]);
+  });
+  const mean = (list: ScreenPoint[]): ScreenPoint => [
+    list.reduce((sum, point) => sum + point[0], 0) / list.length,
+    list.reduce((sum, point) => sum + point[1], 0) / list.length
+  ];
+
+  return new Map(flows.map(flow => {
+    const { source, target } = points.get(flow.key) ?? {};
+    if (!source || !target) return [flow.key, null];
+    return [flow.key, createBundledArc(
+      source,
+      target,
+      mean(outgoing.get(flow.source.code) ?? [target]),
+      mean(incoming.get(flow.target.code) ?? [source]),
+      BUNDLE_STRENGTH
+    )];
+  }));
+};
@@ -0,0 +1,107 @@
+import cities from '../data/cities.json';
+import countryCoordinates from '../data/countryCoordinates.json';
+import threatData from '../data/threatData.json';
+import { AttackLocation, City, ThreatAttack, ThreatData, ThreatSeverity } from '../types/threat';
+
+export interface AttackGeneratorOptions {
+  // Probability (0-1) that a generated attack targets one of the configured hubs
+  hubBias?: number;
+  // Relative weights used when picking a severity
+  severityWeights?: Partial<Record<ThreatSeverity, number>>;
+  // Range of the generated `duration` field in milliseconds
+  minDuration?: number;
+  maxDuration?: number;
+  // Injectable random source so callers can get reproducible streams
+  random?: () => number;
+}
+
+export interface AttackGenerator {
+  next: () => ThreatAttack;
+}
+
+const DEFAULT_SEVERITY_WEIGHTS: Record<ThreatSeverity, number> = {
+  low: 4,
+  medium: 3,
+  high: 2,
+  critical: 1
+};
+
+const pickWeighted = <T extends string>(weights: Record<T, number>, random: () => number): T => {
+  const entries = Object.entries(weights) as [T, number][];
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = random() * total;
+
+  for (const [key, weight] of entries) {
+    roll -= weight;
+    if (roll <= 0) return key;
+  }
+
+  return entries[entries.length - 1][0];
+};
+
+// Local attack generator used to feed the live stream without any external service.
+// Sources and targets are drawn from countryCoordinates.json so every attack can be drawn,
+// and placed in one of the country's gazetteer cities when it has any.
+export const createAttackGenerator = (options: AttackGeneratorOptions = {}): AttackGenerator => {
+  const {
+    hubBias = 0.6,
+    minDuration = 2000,
+    maxDuration = 5000,
+    random = Math.random
+  } = options;
+
+  const threats = threatData as ThreatData;
+  const countryIds = Object.keys(countryCoordinates);
+  const hubCountries = threats.hubs.map(hub => hub.country);
+  const threatTypes = Object.keys(threats.threatTypes);
+  const severityWeights = { ...DEFAULT_SEVERITY_WEIGHTS, ...options.severityWeights };
+  const citiesByCountry = new Map<string, City[]>();
+  (cities as City[]).forEach(city => {
+    citiesByCountry.set(city.country, [...(citiesByCountry.get(city.country) ?? []), city]);
+  });
+
+  let sequence = 0;
+
+  const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+
+  const pickLocation = (country: string): AttackLocation | undefined => {
+    const countryCities = citiesByCountry.get(country);
+    return countryCities ? { city: pick(countryCities).name } : undefined;
+  };
+
+  const next = (): ThreatAttack => {
+    const target = hubCountries.length > 0 && random() < hubBias
+      ? pick(hubCountries)
+      : pick(countryIds);
+
+    // Never generate an attack from a country onto itself
+    let source = pick(countryIds);
+    while (source === target) {
+      source = pick(countryIds);
+    }
+
+    const type = pick(threatTypes);
+    const severity = pickWeighted(severityWeights, random);
+    const coordinates = countryCoordinates as { [key: string]: { name: string } };
+
+    const sourceLocation = pickLocation(source);
+    const targetLocation = pickLocation(target);
+
+    sequence++;
+
+    return {
+      id: `LIVE-${Date.now().toString(36)}-${sequence}`,
+      source,
+      target,
+      type,
+      severity,
+      timestamp: new Date().toISOString(),
+      duration: Math.round(minDuration + random() * (maxDuration - minDuration)),
+      description: `${type} from ${coordinates[source].name} targeting ${coordinates[target].name}`,
+      ...(sourceLocation ? { sourceLocation } : {}),
+      ...(targetLocation ? { targetLocation } : {})
+    };
+  };
+
+  return { next };
+};
@@ -0,0 +1,268 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectImportFormat,
+  guessFieldMapping,
+  importAttacks,
+  parseCsvAttacks,
+  parseJsonLinesAttacks,
+  parseStixBundle,
+  resolveAttackAddresses
+} from './attackImport';
+import { createGeoIpIndex } from './geoIp';
+import { MAP_LOCALES } from './mapLocales';
+
+const geoIp = createGeoIpIndex([
+  'network,country,city,latitude,longitude',
+  '192.0.2.0/24,US,Ashburn,39.0438,-77.4874',
+  '203.0.113.0/24,SG,Singapore,1.3521,103.8198'
+].join('\n'));
+
+describe('guessFieldMapping', () => {
+  it('recognises the header names SIEM exports use', () => {
+    expect(guessFieldMapping(['Event ID', 'src_country', 'Dest Country', 'src_ip', 'Signature', 'Priority', 'event_time'])).toEqual({
+      id: 'Event ID',
+      source: 'src_country',
+      target: 'Dest Country',
+      sourceIp: 'src_ip',
+      type: 'Signature',
+      severity: 'Priority',
+      timestamp: 'event_time'
+    });
+  });
+});
+
+describe('parseCsvAttacks', () => {
+  it('converts rows, filling in defaults for optional fields', () => {
+    const { attacks, errors } = parseCsvAttacks([
+      'id,src,dst,category,severity,time',
+      'A1,CN,USA,Malware,critical,2024-06-01T12:00:00Z',
+      ',Russia,DEU,,7.5,2024-06-01T12:01:00Z'
+    ].join('\n'));
+
+    expect(errors).toEqual([]);
+    expect(attacks).toEqual([
+      {
+        id: 'A1',
+        source: 'CHN',
+        target: 'USA',
+        type: 'Malware',
+        severity: 'critical',
+        timestamp: '2024-06-01T12:00:00.000Z',
+        duration: 3000,
+        description: 'Malware from China targeting United States'
+      },
+      expect.objectContaining({ id: 'IMPORT-2', source: 'RUS', target: 'DEU', type: 'Unknown', severity: 'high' })
+    ]);
+  });
+
+  it('buckets numeric severities like CVSS ratings, scaling 0-100 scores down', () => {
+    const { attacks } = parseCsvAttacks([
+      'source,target,timestamp,score',
+      'CHN,USA,2024-06-01T12:00:00Z,2',
+      'CHN,USA,2024-06-01T12:00:00Z,5',
+      'CHN,USA,2024-06-01T12:00:00Z,95',
+      'CHN,USA,2024-06-01T12:00:00Z,'
+    ].join('\n'));
+    expect(attacks.map(attack => attack.severity)).toEqual(['low', 'medium', 'critical', 'medium']);
+  });
+
+  it('reports unusable rows with their line numbers', () => {
+    const { attacks, errors } = parseCsvAttacks([
+      'source,target,timestamp,severity,duration',
+      'Atlantis,USA,2024-06-01T12:00:00Z,high,',
+      'ZZZ,USA,2024-06-01T12:00:00Z,high,',
+      'CHN,,2024-06-01T12:00:00Z,high,',
+      'CHN,USA,yesterday,high,',
+      'CHN,USA,2024-06-01T12:00:00Z,constructor,',
+      'CHN,USA,2024-06-01T12:00:00Z,high,-5'
+    ].join('\n'));
+
+    expect(attacks).toEqual([]);
+    expect(errors).toEqual([
+      'Line 2: unknown source country "Atlantis"',
+      'Line 3: unknown source country "ZZZ"',
+      'Line 4: missing target',
+      'Line 5: invalid timestamp "yesterday"',
+      'Line 6: unknown severity "constructor"',
+      'Line 7: invalid duration "-5"'
+    ]);
+  });
+
+  it('reports errors in the language it is given', () => {
+    const { errors } = parseCsvAttacks('source,target,timestamp\nCHN,USA,yesterday', { errorMessages: MAP_LOCALES.ja.messages.importErrors });
+    expect(errors).toEqual(['2 行目: 日時「yesterday」が不正です']);
+  });
+
+  it('uses the given column mapping over the guessed one', () => {
+    const { attacks } = parseCsvAttacks([
+      'from,to,when,category',
+      'JPN,KOR,2024-06-01T12:00:00Z,Phishing'
+    ].join('\n'), { csvMapping: { source: 'from', target: 'to', timestamp: 'when', type: '' } });
+
+    expect(attacks[0]).toMatchObject({ source: 'JPN', target: 'KOR', type: 'Unknown' });
+  });
+
+  it('gives repeated ids a numeric suffix', () => {
+    const { attacks } = parseCsvAttacks([
+      'id,source,target,timestamp',
+      'X,CHN,USA,2024-06-01T12:00:00Z',
+      'X,CHN,USA,2024-06-01T12:00:01Z'
+    ].join('\n'));
+    expect(attacks.map(attack => attack.id)).toEqual(['X', 'X-2']);
+  });
+
+  it('resolves countries and locations from addresses', () => {
+    const { attacks, errors } = parseCsvAttacks([
+      'src_ip,dst_ip,target,timestamp',
+      '192.0.2.10,203.0.113.5,,2024-06-01T12:00:00Z',
+      // The given country wins; the address's position is dropped when it disagrees
+      '192.0.2.10,203.0.113.5,JPN,2024-06-01T12:00:00Z',
+      '10.0.0.1,203.0.113.5,,2024-06-01T12:00:00Z'
+    ].join('\n'), { geoIp });
+
+    expect(attacks[0]).toMatchObject({
+      source: 'USA',
+      target: 'SGP',
+      sourceIp: '192.0.2.10',
+      sourceLocation: { lat: 39.0438, lng: -77.4874, city: 'Ashburn' },
+      targetLocation: { city: 'Singapore' }
+    });
+    expect(attacks[1].target).toBe('JPN');
+    expect(attacks[1].targetLocation).toBeUndefined();
+    expect(errors).toEqual(['Line 4: sourceIp "10.0.0.1" is not in the GeoIP database']);
+  });
+
+  it('needs a GeoIP table for records that only have addresses', () => {
+    const { errors } = parseCsvAttacks('src_ip,target,timestamp\n192.0.2.10,USA,2024-06-01T12:00:00Z');
+    expect(errors).toEqual(['Line 2: no GeoIP database to resolve sourceIp "192.0.2.10"']);
+  });
+});
+
+describe('parseJsonLinesAttacks', () => {
+  it('converts one object per line and skips blank lines', () => {
+    const { attacks, errors } = parseJsonLinesAttacks([
+      '{"src":"CN","dst":"US","ts":"2024-06-01T12:00:00Z","type":"DDoS"}',
+      '',
+      'not json',
+      '[1, 2]',
+      '{"source":"RUS","target":"GBR","timestamp":"2024-06-01T12:00:00Z","targetLocation":{"city":"London"}}'
+    ].join('\n'));
+
+    expect(attacks).toEqual([
+      expect.objectContaining({ id: 'IMPORT-1', source: 'CHN', target: 'USA', type: 'DDoS' }),
+      expect.objectContaining({ id: 'IMPORT-5', source: 'RUS', target: 'GBR', targetLocation: { city: 'London' } })
+    ]);
+    expect(errors).toEqual(['Line 3: invalid JSON', 'Line 4: not a JSON object']);
+  });
+});
+
+describe('parseStixBundle', () => {
+  const bundle = (objects: object[]) => JSON.stringify({ type: 'bundle', id: 'bundle--1', objects });
+
+  const pattern = { type: 'attack-pattern', id: 'attack-pattern--1', name: 'Spearphishing', description: 'Targeted mail' };
+  const china = { type: 'location', id: 'location--cn', country: 'CN' };
+  const germany = { type: 'location', id: 'location--de', country: 'DE' };
+
+  it('turns sightings into attacks, with the source from an originates-from relationship', () => {
+    const { attacks, errors } = parseStixBundle(bundle([
+      pattern,
+      china,
+      germany,
+      {
+        type: 'sighting',
+        id: 'sighting--1',
+        sighting_of_ref: pattern.id,
+        where_sighted_refs: ['identity--1', germany.id],
+        first_seen: '2024-06-01T12:00:00Z',
+        last_seen: '2024-06-01T12:00:05Z',
+        x_severity: 'high'
+      },
+      { type: 'relationship', id: 'relationship--1', relationship_type: 'originates-from', source_ref: pattern.id, target_ref: china.id }
+    ]));
+
+    expect(errors).toEqual([]);
+    expect(attacks).toEqual([{
+      id: 'sighting--1',
+      source: 'CHN',
+      target: 'DEU',
+      type: 'Spearphishing',
+      severity: 'high',
+      timestamp: '2024-06-01T12:00:00.000Z',
+      duration: 5000,
+      description: 'Targeted mail'
+    }]);
+  });
+
+  it('reads the source from x_source_ref and reports dangling references', () => {
+    const { attacks, errors } = parseStixBundle(bundle([
+      pattern,
+      china,
+      germany,
+      { type: 'sighting', id: 'sighting--1', sighting_of_ref: pattern.id, where_sighted_refs: [germany.id], x_source_ref: china.id, first_seen: '2024-06-01T12:00:00Z' },
+      { type: 'sighting', id: 'sighting--2', sighting_of_ref: 'malware--missing', first_seen: '2024-06-01T12:00:00Z' },
+      { type: 'sighting', id: 'sighting--3', sighting_of_ref: pattern.id, first_seen: '2024-06-01T12:00:00Z' }
+    ]));
+
+    expect(attacks).toEqual([expect.objectContaining({ id: 'sighting--1', source: 'CHN', target: 'DEU', severity: 'medium' })]);
+    expect(errors).toEqual(['sighting--2: unknown sighting_of_ref "malware--missing"', 'sighting--3: missing source']);
+  });
+
+  it('rejects anything that is not a bundle', () => {
+    expect(parseStixBundle('{"type":"indicator"}').errors).toEqual(['Bundle: not a STIX bundle']);
+    expect(parseStixBundle('{').errors).toEqual(['Bundle: invalid JSON']);
+    ['null', '1', '"x"'].forEach(text => {
+      expect(parseStixBundle(text)).toEqual({ attacks: [], errors: ['Bundle: not a STIX bundle'] });
+    });
+  });
+});
+
+describe('detectImportFormat', () => {
+  it('goes by the extension, then by the content', () => {
+    expect(detectImportFormat('alerts.csv', '{}')).toBe('csv');
+    expect(detectImportFormat('alerts.ndjson', 'a,b')).toBe('jsonl');
+    expect(detectImportFormat('', 'source,target\nCHN,USA')).toBe('csv');
+    expect(detectImportFormat('', '{"a":1}\n{"a":2}')).toBe('jsonl');
+    expect(detectImportFormat('', '  {"type":"bundle","objects":[]}')).toBe('stix');
+  });
+});
+
+describe('importAttacks', () => {
+  it('dispatches on the format', () => {
+    expect(importAttacks('source,target,timestamp\nCHN,USA,2024-06-01T12:00:00Z', 'csv').attacks).toHaveLength(1);
+    expect(importAttacks('{"source":"CHN","target":"USA","timestamp":"2024-06-01T12:00:00Z"}', 'jsonl').attacks).toHaveLength(1);
+    expect(importAttacks(JSON.stringify({ type: 'bundle', objects: [] }), 'stix')).toEqual({ attacks: [], errors: [] });
+  });
+});
+
+describe('resolveAttackAddresses', () => {
+  const attack = {
+    id: 'S1',
+    source: 'CHN',
+    target: 'USA',
+    type: 'DDoS',
+    severity: 'high' as const,
+    timestamp: '2024-06-01T12:00:00.000Z',
+    duration: 5000,
+    description: 'Flood'
+  };
+
+  it('passes attacks that name both countries through untouched', () => {
+    expect(resolveAttackAddresses([attack], geoIp)[0]).toBe(attack);
+  });
+
+  it('fills in the countries of attacks that only carry addresses, and drops those it cannot place', () => {
+    const addressOnly = { ...attack, source: '', target: '', sourceIp: '192.0.2.10', targetIp: '203.0.113.5' };
+    const unknown = { ...addressOnly, id: 'S2', sourceIp: '10.0.0.1' };
+
+    expect(resolveAttackAddresses([addressOnly, unknown], geoIp)).toEqual([{
+      ...attack,
+      source: 'USA',
+      target: 'SGP',
+      sourceIp: '192.0.2.10',
+      targetIp: '203.0.113.5',
+      sourceLocation: { lat: 39.0438, lng: -77.4874, city: 'Ashburn' },
+      targetLocation: { lat: 1.3521, lng: 103.8198, city: 'Singapore' }
+    }]);
+    expect(resolveAttackAddresses([addressOnly])).toEqual([]);
+  });
+});
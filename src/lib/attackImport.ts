@@ -0,0 +1,465 @@
+import * as d3 from 'd3';
+import { toAttackLocation } from './attackEndpoints';
+import { getCountryCoordinate, resolveCountryCode } from './countryCodes';
+import { GeoIpIndex } from './geoIp';
+import { AttackLocation, ThreatAttack, ThreatSeverity } from '../types/threat';
+
+export type ImportFormat = 'csv' | 'jsonl' | 'stix';
+
+export const IMPORT_FORMAT_LABELS: { [key in ImportFormat]: string } = {
+  csv: 'CSV',
+  jsonl: 'JSON Lines',
+  stix: 'STIX 2.1 bundle'
+};
+
+// Fields read from imported records; locations come from the addresses or from the record's own location fields
+export type AttackField = Exclude<keyof ThreatAttack, 'sourceLocation' | 'targetLocation'>;
+
+export const ATTACK_FIELDS: AttackField[] = [
+  'id', 'source', 'target', 'sourceIp', 'targetIp', 'type', 'severity', 'timestamp', 'duration', 'description'
+];
+
+// Fields every imported record has to provide; the others get defaults.
+// A country can also be resolved from the matching address through the GeoIP table.
+export const REQUIRED_ATTACK_FIELDS: AttackField[] = ['source', 'target', 'timestamp'];
+
+// CSV column (or JSON Lines key) holding each attack field
+export type FieldMapping = Partial<Record<AttackField, string>>;
+
+// Why records were skipped, in the language of the map; field names and values stay as in the file
+export interface ImportErrorMessages {
+  // Where a skipped record is, and the message listed for it
+  line: (line: number) => string;
+  bundle: string;
+  skipped: (where: string, reason: string) => string;
+
+  unknownCountry: (field: 'source' | 'target', value: string) => string;
+  missingField: (field: AttackField) => string;
+  noGeoIpDatabase: (field: 'sourceIp' | 'targetIp', ip: string) => string;
+  addressNotFound: (field: 'sourceIp' | 'targetIp', ip: string) => string;
+  invalidTimestamp: (value: string) => string;
+  unknownSeverity: (value: string) => string;
+  invalidDuration: (value: string) => string;
+  invalidJson: string;
+  notJsonObject: string;
+  notStixBundle: string;
+  unknownSightingRef: (ref: string) => string;
+}
+
+export const EN_IMPORT_ERRORS: ImportErrorMessages = {
+  line: (line) => `Line ${line}`,
+  bundle: 'Bundle',
+  skipped: (where, reason) => `${where}: ${reason}`,
+  unknownCountry: (field, value) => `unknown ${field} country "${value}"`,
+  missingField: (field) => `missing ${field}`,
+  noGeoIpDatabase: (field, ip) => `no GeoIP database to resolve ${field} "${ip}"`,
+  addressNotFound: (field, ip) => `${field} "${ip}" is not in the GeoIP database`,
+  invalidTimestamp: (value) => `invalid timestamp "${value}"`,
+  unknownSeverity: (value) => `unknown severity "${value}"`,
+  invalidDuration: (value) => `invalid duration "${value}"`,
+  invalidJson: 'invalid JSON',
+  notJsonObject: 'not a JSON object',
+  notStixBundle: 'not a STIX bundle',
+  unknownSightingRef: (ref) => `unknown sighting_of_ref "${ref}"`
+};
+
+export interface AttackImportOptions {
+  // Columns to use instead of the ones guessed from the CSV header; an empty string leaves a field unmapped
+  csvMapping?: FieldMapping;
+  // Prefix for the ids of records that do not bring their own
+  idPrefix?: string;
+  // Resolves `sourceIp` and `targetIp`; without it records need their countries
+  geoIp?: GeoIpIndex;
+  // Language of the errors, English unless given
+  errorMessages?: ImportErrorMessages;
+}
+
+export interface AttackImportResult {
+  attacks: ThreatAttack[];
+  // One message per skipped record, e.g. `Line 4: unknown source country "Atlantis"`
+  errors: string[];
+}
+
+const DEFAULT_DURATION = 3000;
+
+// Header names SIEM exports commonly use for each field, compared without case and punctuation
+const FIELD_ALIASES: Record<AttackField, string[]> = {
+  id: ['id', 'eventid', 'alertid', 'uuid'],
+  source: ['source', 'src', 'srccountry', 'sourcecountry', 'srcgeo', 'origin', 'attacker', 'attackercountry'],
+  target: ['target', 'dst', 'dest', 'destination', 'dstcountry', 'destcountry', 'destinationcountry', 'targetcountry', 'victim', 'victimcountry'],
+  sourceIp: ['sourceip', 'srcip', 'srcaddr', 'sourceaddress', 'srcaddress', 'clientip', 'attackerip', 'ipsrc'],
+  targetIp: ['targetip', 'dstip', 'destip', 'dstaddr', 'destinationip', 'destinationaddress', 'dstaddress', 'serverip', 'victimip', 'ipdst'],
+  type: ['type', 'attacktype', 'threattype', 'category', 'eventtype', 'signature'],
+  severity: ['severity', 'sev', 'priority', 'level', 'risk', 'score'],
+  timestamp: ['timestamp', 'time', 'date', 'datetime', 'eventtime', 'ts', 'firstseen'],
+  duration: ['duration', 'durationms'],
+  description: ['description', 'desc', 'message', 'msg', 'summary']
+};
+
+const SEVERITY_ALIASES: { [key: string]: ThreatSeverity } = {
+  info: 'low',
+  informational: 'low',
+  low: 'low',
+  med: 'medium',
+  moderate: 'medium',
+  medium: 'medium',
+  high: 'high',
+  crit: 'critical',
+  severe: 'critical',
+  critical: 'critical'
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Pick a column or key for each field from the header names
+export const guessFieldMapping = (columns: string[]): FieldMapping => {
+  const mapping: FieldMapping = {};
+  ATTACK_FIELDS.forEach(field => {
+    const column = columns.find(candidate => FIELD_ALIASES[field].includes(normalizeHeader(candidate)));
+    if (column) mapping[field] = column;
+  });
+  return mapping;
+};
+
+// Header row of a CSV file
+export const readCsvColumns = (text: string) => {
+  const headerEnd = text.search(/\r?\n/);
+  return d3.csvParseRows(headerEnd === -1 ? text : text.slice(0, headerEnd))[0] ?? [];
+};
+
+// Named severities, or a 0-10 score (0-100 is scaled down) bucketed like CVSS ratings
+const parseSeverity = (value: unknown): ThreatSeverity | undefined => {
+  if (value === undefined || value === null || value === '') return 'medium';
+
+  const text = String(value).trim();
+  if (Object.hasOwn(SEVERITY_ALIASES, text.toLowerCase())) return SEVERITY_ALIASES[text.toLowerCase()];
+
+  const score = Number(text);
+  if (!Number.isFinite(score) || score < 0 || score > 100) return undefined;
+  const scaled = score > 10 ? score / 10 : score;
+  if (scaled < 4) return 'low';
+  if (scaled < 7) return 'medium';
+  if (scaled < 9) return 'high';
+  return 'critical';
+};
+
+const countryName = (code: string) => getCountryCoordinate(code)?.name ?? code;
+
+// Build one attack from a record, reading each field through `get`. Returns the reason when the record is unusable.
+const toAttack = (
+  get: (field: AttackField) => unknown,
+  fallbackId: string,
+  geoIp?: GeoIpIndex,
+  messages = EN_IMPORT_ERRORS
+): ThreatAttack | string => {
+  const text = (field: AttackField) => {
+    const value = get(field);
+    return value === undefined || value === null ? '' : String(value).trim();
+  };
+
+  // An endpoint's country comes from the record, or else from its address
+  const resolveEndpoint = (countryField: 'source' | 'target', ipField: 'sourceIp' | 'targetIp') => {
+    const ip = text(ipField);
+    const located = ip && geoIp ? geoIp.lookup(ip) : undefined;
+    const location: AttackLocation | undefined = located?.lat !== undefined && located.lng !== undefined
+      ? { lat: located.lat, lng: located.lng, city: located.city }
+      : undefined;
+
+    if (text(countryField) !== '') {
+      // Codes the map has no position for could be counted but never drawn
+      const country = resolveCountryCode(text(countryField));
+      if (!country || !getCountryCoordinate(country)) return messages.unknownCountry(countryField, text(countryField));
+      // Only keep the address's position when it agrees with the given country
+      return { country, ip, location: located?.country === country ? location : undefined };
+    }
+
+    if (ip === '') return messages.missingField(countryField);
+    if (!geoIp) return messages.noGeoIpDatabase(ipField, ip);
+    if (!located) return messages.addressNotFound(ipField, ip);
+    return { country: located.country, ip, location };
+  };
+
+  if (text('timestamp') === '') return messages.missingField('timestamp');
+
+  const source = resolveEndpoint('source', 'sourceIp');
+  if (typeof source === 'string') return source;
+  const target = resolveEndpoint('target', 'targetIp');
+  if (typeof target === 'string') return target;
+
+  const time = Date.parse(text('timestamp'));
+  if (Number.isNaN(time)) return messages.invalidTimestamp(text('timestamp'));
+
+  const severity = parseSeverity(get('severity'));
+  if (!severity) return messages.unknownSeverity(text('severity'));
+
+  const duration = text('duration') === '' ? DEFAULT_DURATION : Number(text('duration'));
+  if (!Number.isFinite(duration) || duration < 0) return messages.invalidDuration(text('duration'));
+
+  const type = text('type') || 'Unknown';
+
+  return {
+    id: text('id') || fallbackId,
+    source: source.country,
+    target: target.country,
+    type,
+    severity,
+    timestamp: new Date(time).toISOString(),
+    duration,
+    description: text('description') || `${type} from ${countryName(source.country)} targeting ${countryName(target.country)}`,
+    ...(source.ip ? { sourceIp: source.ip } : {}),
+    ...(target.ip ? { targetIp: target.ip } : {}),
+    ...(source.location ? { sourceLocation: source.location } : {}),
+    ...(target.location ? { targetLocation: target.location } : {})
+  };
+};
+
+// Collects converted records, giving repeated ids a numeric suffix so every arc stays addressable
+const createCollector = (messages: ImportErrorMessages) => {
+  const attacks: ThreatAttack[] = [];
+  const errors: string[] = [];
+  const seenIds = new Map<string, number>();
+
+  const add = (result: ThreatAttack | string, label: string) => {
+    if (typeof result === 'string') {
+      errors.push(messages.skipped(label, result));
+      return;
+    }
+
+    const seen = seenIds.get(result.id) ?? 0;
+    seenIds.set(result.id, seen + 1);
+    attacks.push(seen === 0 ? result : { ...result, id: `${result.id}-${seen + 1}` });
+  };
+
+  return { add, result: (): AttackImportResult => ({ attacks, errors }) };
+};
+
+// Locations a record carries itself win over the ones found for its addresses
+const withRecordLocations = (attack: ThreatAttack, record: { [key: string]: unknown }): ThreatAttack => {
+  const sourceLocation = toAttackLocation(record.sourceLocation) ?? attack.sourceLocation;
+  const targetLocation = toAttackLocation(record.targetLocation) ?? attack.targetLocation;
+  return {
+    ...attack,
+    ...(sourceLocation ? { sourceLocation } : {}),
+    ...(targetLocation ? { targetLocation } : {})
+  };
+};
+
+// The CSV export puts a quote in front of cells a spreadsheet would run as a formula; take it off again
+const unescapeCsvCell = (value: string | undefined) => value?.replace(/^'(?=[=+\-@\t\r])/, '');
+
+// Reads the flattened location columns the CSV export writes (`sourceCity`, `sourceLat`, `sourceLng`
+// and the same for the target) back into `sourceLocation` and `targetLocation`
+const createCsvLocationReader = (columns: string[]) => {
+  const columnFor = (name: string) => columns.find(column => normalizeHeader(column) === name);
+  const endColumns = (end: 'source' | 'target') => ({
+    city: columnFor(`${end}city`),
+    lat: columnFor(`${end}lat`),
+    lng: columnFor(`${end}lng`)
+  });
+  const ends = { source: endColumns('source'), target: endColumns('target') };
+
+  return (row: d3.DSVRowString) => {
+    const cell = (column: string | undefined) => (column ? unescapeCsvCell(row[column])?.trim() : undefined);
+    const coordinate = (column: string | undefined) => {
+      const value = cell(column);
+      return value ? Number(value) : undefined;
+    };
+    const location = (end: 'source' | 'target') => ({
+      city: cell(ends[end].city),
+      lat: coordinate(ends[end].lat),
+      lng: coordinate(ends[end].lng)
+    });
+    return { sourceLocation: location('source'), targetLocation: location('target') };
+  };
+};
+
+export const parseCsvAttacks = (text: string, options: AttackImportOptions = {}): AttackImportResult => {
+  const { idPrefix = 'IMPORT' } = options;
+  const rows = d3.csvParse(text);
+  const mapping = { ...guessFieldMapping(rows.columns), ...options.csvMapping };
+  const { errorMessages = EN_IMPORT_ERRORS } = options;
+  const readLocations = createCsvLocationReader(rows.columns);
+  const collector = createCollector(errorMessages);
+
+  rows.forEach((row, index) => {
+    const get = (field: AttackField) => {
+      const column = mapping[field];
+      return column ? unescapeCsvCell(row[column]) : undefined;
+    };
+    const attack = toAttack(get, `${idPrefix}-${index + 1}`, options.geoIp, errorMessages);
+    // Line numbers count the header as line 1
+    collector.add(
+      typeof attack === 'string' ? attack : withRecordLocations(attack, readLocations(row)),
+      errorMessages.line(index + 2)
+    );
+  });
+
+  return collector.result();
+};
+
+// Build one attack from a JSON record with ThreatAttack field names (or the aliases SIEM exports use).
+// Returns the reason when the record is unusable.
+export const convertAttackRecord = (
+  record: { [key: string]: unknown },
+  fallbackId: string,
+  geoIp?: GeoIpIndex,
+  messages = EN_IMPORT_ERRORS
+): ThreatAttack | string => {
+  const mapping = guessFieldMapping(Object.keys(record));
+  const get = (field: AttackField) => {
+    const key = mapping[field];
+    return key ? record[key] : undefined;
+  };
+  const attack = toAttack(get, fallbackId, geoIp, messages);
+  return typeof attack === 'string' ? attack : withRecordLocations(attack, record);
+};
+
+// Fill in the countries of attacks that only carry their addresses, e.g. from a feed or a data file.
+// Attacks with both countries pass through untouched; those that cannot be resolved are left out.
+export const resolveAttackAddresses = (attacks: ThreatAttack[], geoIp?: GeoIpIndex): ThreatAttack[] =>
+  attacks.flatMap(attack => {
+    if (attack.source && attack.target) return [attack];
+    const resolved = convertAttackRecord({ ...attack }, attack.id, geoIp);
+    return typeof resolved === 'string' ? [] : [resolved];
+  });
+
+// One JSON object per line with ThreatAttack field names (or the aliases SIEM exports use)
+export const parseJsonLinesAttacks = (text: string, options: AttackImportOptions = {}): AttackImportResult => {
+  const { idPrefix = 'IMPORT', errorMessages = EN_IMPORT_ERRORS } = options;
+  const collector = createCollector(errorMessages);
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') return;
+
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      collector.add(errorMessages.invalidJson, errorMessages.line(index + 1));
+      return;
+    }
+    if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+      collector.add(errorMessages.notJsonObject, errorMessages.line(index + 1));
+      return;
+    }
+
+    collector.add(
+      convertAttackRecord(record as { [key: string]: unknown }, `${idPrefix}-${index + 1}`, options.geoIp, errorMessages),
+      errorMessages.line(index + 1)
+    );
+  });
+
+  return collector.result();
+};
+
+interface StixObject {
+  type: string;
+  id: string;
+  [property: string]: unknown;
+}
+
+const isStixObject = (value: unknown): value is StixObject => {
+  const object = value as StixObject;
+  return typeof object === 'object' && object !== null && typeof object.type === 'string' && typeof object.id === 'string';
+};
+
+// Each `sighting` becomes one attack:
+// - type and description come from the sighted object, normally an `attack-pattern`
+// - the target is the first `location` in `where_sighted_refs`
+// - the source is a `location` the sighting (or the sighted object) `originates-from` through a relationship,
+//   or the one named by the custom `x_source_ref` property
+// - time and duration come from `first_seen` and `last_seen`, severity from the custom `x_severity` property
+export const parseStixBundle = (text: string, options: AttackImportOptions = {}): AttackImportResult => {
+  const { errorMessages = EN_IMPORT_ERRORS } = options;
+  const collector = createCollector(errorMessages);
+  const bundleError = (reason: string) => ({ attacks: [], errors: [errorMessages.skipped(errorMessages.bundle, reason)] });
+
+  let bundle: unknown;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    return bundleError(errorMessages.invalidJson);
+  }
+
+  // JSON.parse also returns null and primitives, which have no properties to read
+  const { type, objects } = typeof bundle === 'object' && bundle !== null
+    ? bundle as { type?: unknown; objects?: unknown }
+    : { type: undefined, objects: undefined };
+  if (type !== 'bundle' || !Array.isArray(objects)) {
+    return bundleError(errorMessages.notStixBundle);
+  }
+
+  const byId = new Map<string, StixObject>();
+  const originLocations = new Map<string, string>();
+  objects.filter(isStixObject).forEach(object => {
+    byId.set(object.id, object);
+    if (object.type === 'relationship' && object.relationship_type === 'originates-from') {
+      originLocations.set(String(object.source_ref), String(object.target_ref));
+    }
+  });
+
+  // ISO2 country of a location object
+  const locationCountry = (ref: unknown) => {
+    const location = typeof ref === 'string' ? byId.get(ref) : undefined;
+    return location?.type === 'location' && typeof location.country === 'string' ? location.country : undefined;
+  };
+
+  objects.filter(isStixObject).filter(object => object.type === 'sighting').forEach(sighting => {
+    const sighted = byId.get(String(sighting.sighting_of_ref));
+    if (!sighted) {
+      collector.add(errorMessages.unknownSightingRef(String(sighting.sighting_of_ref)), sighting.id);
+      return;
+    }
+
+    const whereSighted = Array.isArray(sighting.where_sighted_refs) ? sighting.where_sighted_refs : [];
+    const target = whereSighted.map(locationCountry).find(country => country !== undefined);
+    const source = locationCountry(sighting.x_source_ref) ??
+      locationCountry(originLocations.get(sighting.id)) ??
+      locationCountry(originLocations.get(sighted.id));
+
+    const firstSeen = sighting.first_seen ?? sighting.created;
+    const lastSeen = Date.parse(String(sighting.last_seen));
+    const duration = Number.isNaN(lastSeen) ? undefined : lastSeen - Date.parse(String(firstSeen));
+
+    const fields: Partial<Record<AttackField, unknown>> = {
+      id: sighting.id,
+      source,
+      target,
+      type: sighted.name,
+      severity: sighting.x_severity,
+      timestamp: firstSeen,
+      duration: duration !== undefined && duration > 0 ? duration : undefined,
+      description: sighting.description ?? sighted.description
+    };
+    collector.add(toAttack(field => fields[field], sighting.id, undefined, errorMessages), sighting.id);
+  });
+
+  return collector.result();
+};
+
+// Guess the format from the file extension, then from the content
+export const detectImportFormat = (fileName: string, text: string): ImportFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'jsonl' || extension === 'ndjson') return 'jsonl';
+
+  const trimmed = text.trimStart();
+  if (!trimmed.startsWith('{')) return 'csv';
+  try {
+    return (JSON.parse(trimmed) as { type?: unknown }).type === 'bundle' ? 'stix' : 'jsonl';
+  } catch {
+    // Several objects, one per line
+    return 'jsonl';
+  }
+};
+
+export const importAttacks = (text: string, format: ImportFormat, options: AttackImportOptions = {}): AttackImportResult => {
+  switch (format) {
+    case 'csv':
+      return parseCsvAttacks(text, options);
+    case 'jsonl':
+      return parseJsonLinesAttacks(text, options);
+    case 'stix':
+      return parseStixBundle(text, options);
+  }
+};
@@ -0,0 +1,56 @@
+import * as d3 from 'd3';
+import { ThreatAttack, ThreatSeverity } from '../types/threat';
+
+// What the choropleth shades each country by
+export type IntensityMetric = 'targeted' | 'source' | 'severity';
+
+export const INTENSITY_METRIC_LABELS: { [key in IntensityMetric]: string } = {
+  targeted: 'Attacks received',
+  source: 'Attacks launched',
+  severity: 'Severity-weighted score'
+};
+
+// Weights for the severity score: each level counts double the previous one
+export const SEVERITY_WEIGHTS: { [key in ThreatSeverity]: number } = {
+  low: 1,
+  medium: 2,
+  high: 4,
+  critical: 8
+};
+
+export const INTENSITY_INTERPOLATOR = d3.interpolateYlOrRd;
+
+// Per-country (ISO3) intensity for the chosen metric. The severity score
+// credits both ends of an attack, since either side may be under investigation.
+export const computeIntensity = (attacks: ThreatAttack[], metric: IntensityMetric) => {
+  const intensity = new Map<string, number>();
+  const add = (country: string, value: number) => {
+    intensity.set(country, (intensity.get(country) ?? 0) + value);
+  };
+
+  attacks.forEach(attack => {
+    switch (metric) {
+      case 'targeted':
+        add(attack.target, 1);
+        break;
+      case 'source':
+        add(attack.source, 1);
+        break;
+      case 'severity':
+        add(attack.target, SEVERITY_WEIGHTS[attack.severity] ?? 1);
+        add(attack.source, SEVERITY_WEIGHTS[attack.severity] ?? 1);
+        break;
+    }
+  });
+
+  return intensity;
+};
+
+// Square-root scale so a single heavily targeted hub does not wash out everyone else
+export const createIntensityScale = (
+  intensity: Map<string, number>,
+  interpolator: (t: number) => string = INTENSITY_INTERPOLATOR
+) => {
+  const max = d3.max(intensity.values()) ?? 0;
+  return d3.scaleSequentialSqrt(interpolator).domain([0, Math.max(max, 1)]);
+};
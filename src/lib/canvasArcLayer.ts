@@ -0,0 +1,334 @@
+import * as d3 from 'd3';
+import { ArcGeometry } from './arcGeometry';
+import { AnimationScheduler } from './animationScheduler';
+
+export type ArcRenderer = 'svg' | 'canvas';
+
+export const ARC_RENDERER_LABELS: { [key in ArcRenderer]: string } = {
+  svg: 'SVG arcs',
+  canvas: 'Canvas arcs (fast)'
+};
+
+// Length of the attention pulse played on an arc, e.g. when its feed entry is hovered
+export const ARC_PULSE_DURATION = 1200;
+
+// Extra stroke width factor `elapsed` ms into a pulse: two swells, back to 0 at the end
+export const arcPulseSwell = (elapsed: number) =>
+  elapsed < 0 || elapsed >= ARC_PULSE_DURATION ? 0 : 1.5 * Math.sin((elapsed / ARC_PULSE_DURATION) * Math.PI * 2) ** 2;
+
+// Style and timing of one attack arc on the canvas
+export interface CanvasArc {
+  id: string;
+  color: string;
+  strokeWidth: number;
+  // Milliseconds before the dash flow and the particle stream start
+  delay: number;
+}
+
+// Shape and style of an arc as currently drawn, in projection coordinates
+export interface CanvasArcSnapshot {
+  id: string;
+  d: string;
+  color: string;
+  strokeWidth: number;
+  // Faded and dimmed opacity
+  opacity: number;
+}
+
+export interface CanvasArcHandle {
+  // Replace the arc's shape after the projection changed (null hides it)
+  update: (geometry: ArcGeometry | null) => void;
+  // Fade the arc out and forget it
+  remove: () => void;
+  // Play the attention pulse
+  pulse: () => void;
+}
+
+export interface CanvasArcLayer {
+  add: (arc: CanvasArc, geometry: ArcGeometry | null) => CanvasArcHandle;
+  // Filter predicate applied on every frame
+  setVisible: (isVisible: (id: string) => boolean) => void;
+  setHovered: (id: string | null) => void;
+  // Arcs outside the highlight are dimmed; null highlights every arc
+  setHighlighted: (isHighlighted: ((id: string) => boolean) | null) => void;
+  // Draw still dashes without particles or pulses, for users who prefer reduced motion
+  setReducedMotion: (reduced: boolean) => void;
+  // Zoom transform of the SVG main group, so arcs stay aligned with the countries
+  setTransform: (transform: d3.ZoomTransform) => void;
+  // New size of the SVG viewBox after a resize
+  setSize: (width: number, height: number) => void;
+  // Id of the topmost visible arc under a point in projection coordinates
+  hitTest: (point: [number, number]) => string | null;
+  // Visible arcs in drawing order, e.g. to export them as SVG paths
+  snapshot: () => CanvasArcSnapshot[];
+  destroy: () => void;
+}
+
+interface ArcEntry extends CanvasArc {
+  geometry: ArcGeometry | null;
+  path: Path2D | null;
+  // Approximate on-screen length, used for the dash flow
+  length: number;
+  bounds: [number, number, number, number] | null;
+  addedAt: number;
+  removedAt: number | null;
+  pulsedAt: number | null;
+}
+
+// Timings mirror the SVG renderer: 3s dash flow plus 0.5s pause, a particle every 1.5s living 2.5s
+const FLOW_DURATION = 3000;
+const FLOW_PAUSE = 500;
+const DASH: [number, number] = [15, 8];
+const PARTICLE_INTERVAL = 1500;
+const PARTICLE_LIFETIME = 2500;
+const FADE_OUT = 600;
+const LENGTH_SAMPLES = 16;
+// Shadow blur is the most expensive part of a frame, so the glow is dropped above this many arcs
+const GLOW_LIMIT = 150;
+// Hover tolerance in screen pixels
+const HIT_TOLERANCE = 6;
+// Opacity factor for arcs outside the highlight
+const DIMMED_ALPHA = 0.12;
+
+// Sample the arc once to get its length and bounding box
+const measure = (geometry: ArcGeometry) => {
+  let length = 0;
+  let previous: [number, number] | null = null;
+  let bounds: [number, number, number, number] | null = null;
+
+  for (let i = 0; i <= LENGTH_SAMPLES; i++) {
+    const point = geometry.pointAt(i / LENGTH_SAMPLES);
+    if (!point) {
+      previous = null;
+      continue;
+    }
+    if (previous) length += Math.hypot(point[0] - previous[0], point[1] - previous[1]);
+    bounds = bounds
+      ? [Math.min(bounds[0], point[0]), Math.min(bounds[1], point[1]), Math.max(bounds[2], point[0]), Math.max(bounds[3], point[1])]
+      : [point[0], point[1], point[0], point[1]];
+    previous = point;
+  }
+
+  return { length, bounds };
+};
+
+// Draws attack arcs and their particle streams on a single canvas from one scheduler frame callback.
+// `initialWidth` and `initialHeight` are the SVG viewBox the canvas is laid over.
+export const createCanvasArcLayer = (
+  canvas: HTMLCanvasElement,
+  initialWidth: number,
+  initialHeight: number,
+  scheduler: AnimationScheduler
+): CanvasArcLayer => {
+  const context = canvas.getContext('2d');
+  const entries = new Map<string, ArcEntry>();
+  let isVisible: (id: string) => boolean = () => true;
+  let hoveredId: string | null = null;
+  let isHighlighted: ((id: string) => boolean) | null = null;
+  let reducedMotion = false;
+  let transform = d3.zoomIdentity;
+  let width = initialWidth;
+  let height = initialHeight;
+  let stopFrames: (() => void) | null = null;
+
+  // Keep the backing store at device resolution and map viewBox units onto it
+  // the same way the SVG does (preserveAspectRatio xMidYMid meet)
+  const applyViewTransform = (ctx: CanvasRenderingContext2D) => {
+    const ratio = window.devicePixelRatio || 1;
+    const clientWidth = canvas.clientWidth;
+    const clientHeight = canvas.clientHeight;
+
+    if (canvas.width !== Math.round(clientWidth * ratio) || canvas.height !== Math.round(clientHeight * ratio)) {
+      canvas.width = Math.round(clientWidth * ratio);
+      canvas.height = Math.round(clientHeight * ratio);
+    }
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    const fit = Math.min(clientWidth / width, clientHeight / height);
+    const offsetX = (clientWidth - width * fit) / 2;
+    const offsetY = (clientHeight - height * fit) / 2;
+    const scale = ratio * fit * transform.k;
+
+    ctx.setTransform(scale, 0, 0, scale, ratio * (offsetX + fit * transform.x), ratio * (offsetY + fit * transform.y));
+  };
+
+  const entryFade = (entry: ArcEntry, now: number) =>
+    (entry.removedAt === null ? 1 : 1 - (now - entry.removedAt) / FADE_OUT) *
+    (isHighlighted && !isHighlighted(entry.id) ? DIMMED_ALPHA : 1);
+
+  const drawEntry = (ctx: CanvasRenderingContext2D, entry: ArcEntry, now: number, glow: boolean) => {
+    const { geometry, path } = entry;
+    if (!geometry || !path) return;
+
+    const fade = entryFade(entry, now);
+    const elapsed = now - entry.addedAt - entry.delay;
+    const hovered = entry.id === hoveredId;
+    const swell = entry.pulsedAt === null || reducedMotion ? 0 : arcPulseSwell(now - entry.pulsedAt);
+
+    // Flowing dashes: offset runs from +length to -length, then pauses before the next pass
+    const phase = elapsed < 0 ? FLOW_DURATION + FLOW_PAUSE : elapsed % (FLOW_DURATION + FLOW_PAUSE);
+    const travel = entry.length + DASH[0];
+    const dashOffset = reducedMotion ? 0 : phase < FLOW_DURATION ? travel - (2 * travel * phase) / FLOW_DURATION : travel;
+
+    ctx.globalAlpha = (hovered ? 1 : 0.9) * fade;
+    ctx.strokeStyle = entry.color;
+    ctx.fillStyle = entry.color;
+    // Widths and radii are divided by the zoom so they keep their on-screen size
+    ctx.lineWidth = ((hovered ? entry.strokeWidth * 1.5 : entry.strokeWidth) * (1 + swell)) / transform.k;
+    ctx.shadowColor = entry.color;
+    ctx.shadowBlur = glow || hovered || swell > 0 ? 6 : 0;
+    ctx.setLineDash(DASH);
+    ctx.lineDashOffset = dashOffset;
+    ctx.stroke(path);
+
+    if (elapsed < 0 || reducedMotion) return;
+
+    // Particles spawned every PARTICLE_INTERVAL that are still travelling
+    ctx.setLineDash([]);
+    for (let spawn = Math.floor(elapsed / PARTICLE_INTERVAL); spawn >= 0; spawn--) {
+      const progress = (elapsed - spawn * PARTICLE_INTERVAL) / PARTICLE_LIFETIME;
+      if (progress >= 1) break;
+
+      // Ease out cubic, fading as it travels
+      const point = geometry.pointAt(1 - Math.pow(1 - progress, 3));
+      if (!point) continue;
+
+      ctx.globalAlpha = (0.7 - progress * 0.3) * fade;
+      ctx.beginPath();
+      ctx.arc(point[0], point[1], (2 + Math.sin(progress * Math.PI) * 0.5) / transform.k, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  };
+
+  const frame = (now: number) => {
+    if (!context) return;
+
+    applyViewTransform(context);
+    context.lineCap = 'round';
+
+    const glow = entries.size <= GLOW_LIMIT;
+    entries.forEach(entry => {
+      if (entry.removedAt !== null && now - entry.removedAt >= FADE_OUT) {
+        entries.delete(entry.id);
+        return;
+      }
+      if (isVisible(entry.id)) drawEntry(context, entry, now, glow);
+    });
+
+    // Nothing left to animate: clear the canvas and stop asking for frames
+    if (entries.size === 0) {
+      applyViewTransform(context);
+      stopFrames?.();
+      stopFrames = null;
+    }
+  };
+
+  const requestFrames = () => {
+    if (!stopFrames) stopFrames = scheduler.onFrame(frame);
+  };
+
+  const setGeometry = (entry: ArcEntry, geometry: ArcGeometry | null) => {
+    entry.geometry = geometry;
+    entry.path = geometry ? new Path2D(geometry.d) : null;
+    const { length, bounds } = geometry ? measure(geometry) : { length: 0, bounds: null };
+    entry.length = length;
+    entry.bounds = bounds;
+  };
+
+  return {
+    add: (arc, geometry) => {
+      const entry: ArcEntry = {
+        ...arc,
+        geometry: null,
+        path: null,
+        length: 0,
+        bounds: null,
+        addedAt: scheduler.now(),
+        removedAt: null,
+        pulsedAt: null
+      };
+      setGeometry(entry, geometry);
+
+      // Re-adding an id that is still fading out replaces it
+      entries.delete(arc.id);
+      entries.set(arc.id, entry);
+      requestFrames();
+
+      return {
+        update: (nextGeometry) => setGeometry(entry, nextGeometry),
+        remove: () => {
+          if (entry.removedAt === null) entry.removedAt = scheduler.now();
+        },
+        pulse: () => {
+          entry.pulsedAt = scheduler.now();
+        }
+      };
+    },
+    setVisible: (predicate) => {
+      isVisible = predicate;
+    },
+    setHovered: (id) => {
+      hoveredId = id;
+    },
+    setHighlighted: (predicate) => {
+      isHighlighted = predicate;
+    },
+    setReducedMotion: (reduced) => {
+      reducedMotion = reduced;
+    },
+    setTransform: (nextTransform) => {
+      transform = nextTransform;
+    },
+    setSize: (nextWidth, nextHeight) => {
+      width = nextWidth;
+      height = nextHeight;
+    },
+    hitTest: (point) => {
+      if (!context) return null;
+      const tolerance = HIT_TOLERANCE / transform.k;
+
+      context.save();
+      context.setTransform(1, 0, 0, 1, 0, 0);
+      // isPointInStroke honours the dash pattern the last frame left set, which would miss the gaps
+      context.setLineDash([]);
+      try {
+        // Topmost first: later arcs are drawn over earlier ones
+        const candidates = Array.from(entries.values()).reverse();
+        for (const entry of candidates) {
+          const { path, bounds } = entry;
+          if (!path || !bounds || entry.removedAt !== null || !isVisible(entry.id)) continue;
+          if (
+            point[0] < bounds[0] - tolerance || point[0] > bounds[2] + tolerance ||
+            point[1] < bounds[1] - tolerance || point[1] > bounds[3] + tolerance
+          ) continue;
+
+          context.lineWidth = Math.max(entry.strokeWidth / transform.k, tolerance * 2);
+          if (context.isPointInStroke(path, point[0], point[1])) return entry.id;
+        }
+        return null;
+      } finally {
+        context.restore();
+      }
+    },
+    snapshot: () => {
+      const now = scheduler.now();
+      return Array.from(entries.values())
+        .filter(entry => entry.geometry && isVisible(entry.id) && (entry.removedAt === null || now - entry.removedAt < FADE_OUT))
+        .map(entry => ({
+          id: entry.id,
+          d: entry.geometry?.d ?? '',
+          color: entry.color,
+          strokeWidth: entry.id === hoveredId ? entry.strokeWidth * 1.5 : entry.strokeWidth,
+          opacity: (entry.id === hoveredId ? 1 : 0.9) * entryFade(entry, now)
+        }));
+    },
+    destroy: () => {
+      stopFrames?.();
+      stopFrames = null;
+      entries.clear();
+      if (context) applyViewTransform(context);
+    }
+  };
+};
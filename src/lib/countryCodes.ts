@@ -0,0 +1,87 @@
+import countryCoordinates from '../data/countryCoordinates.json';
+import { CountryCoordinate } from '../types/threat';
+
+// world.json splits several countries into subunits with their own codes
+// (e.g. England/Scotland/Wales, mainland Japan and its islands). Attacks are
+// keyed by ISO3, so every subunit code that differs from its country maps here.
+const SUBUNIT_TO_ISO3: { [key: string]: string } = {
+  ACA: 'ATG', ACB: 'ATG',
+  AUZ: 'AUS', AUA: 'AUS', AUM: 'AUS',
+  BCR: 'BEL', BFR: 'BEL', BWR: 'BEL',
+  BHB: 'BIH', BHF: 'BIH', BIS: 'BIH',
+  CHI: 'CHN', CHH: 'CHN',
+  CHX: 'CHL', CHP: 'CHL', CHS: 'CHL',
+  DNB: 'DNK',
+  ECD: 'ECU', ECG: 'ECU',
+  ENG: 'GBR', SCT: 'GBR', WLS: 'GBR', NIR: 'GBR',
+  ESX: 'ESP', ESC: 'ESP', ESI: 'ESP', SEC: 'ESP', SEM: 'ESP',
+  FXX: 'FRA', FXC: 'FRA',
+  GEG: 'GEO', GEA: 'GEO',
+  GGA: 'GGY', GGG: 'GGY', GGH: 'GGY', GGS: 'GGY',
+  GNA: 'GNQ', GNK: 'GNQ', GNR: 'GNQ',
+  INX: 'IND', INA: 'IND', INL: 'IND', INN: 'IND',
+  IRR: 'IRQ', IRK: 'IRQ',
+  ITX: 'ITA', ITD: 'ITA', ITI: 'ITA', ITP: 'ITA', ITY: 'ITA',
+  JPX: 'JPN', JPB: 'JPN', JPH: 'JPN', JPI: 'JPN', JPK: 'JPN', JPO: 'JPN', JPS: 'JPN', JPV: 'JPN', JPY: 'JPN',
+  KAB: 'KAZ',
+  KOX: 'KOR', KOB: 'KOR', KOJ: 'KOR', KOU: 'KOR', KNX: 'KOR',
+  KNZ: 'PRK',
+  NLX: 'NLD',
+  NOW: 'NOR', NSV: 'NOR', NJM: 'NOR',
+  NZN: 'NZL', NZS: 'NZL', NZA: 'NZL', NZC: 'NZL', NZK: 'NZL',
+  PRX: 'PRT', PAZ: 'PRT', PMD: 'PRT',
+  PNX: 'PNG', PNB: 'PNG',
+  RUA: 'RUS', RUE: 'RUS', RUK: 'RUS',
+  SRS: 'SRB', SRV: 'SRB',
+  SHS: 'SHN', SHT: 'SHN', BAC: 'SHN',
+  SOX: 'SOM', SOL: 'SOM', SOP: 'SOM',
+  STA: 'STP', STS: 'STP',
+  SYX: 'SYR', SYU: 'SYR',
+  TLX: 'TLS', TLP: 'TLS',
+  TTD: 'TTO', TTG: 'TTO',
+  TZZ: 'TZA',
+  USB: 'USA', USH: 'USA', USK: 'USA', USG: 'USA',
+  YES: 'YEM',
+  ZAX: 'ZAF', ZAI: 'ZAF'
+};
+
+// Resolve a world.json subunit id to the ISO3 code used by attacks
+export const toIso3 = (subunitId: string) => SUBUNIT_TO_ISO3[subunitId] ?? subunitId;
+
+// All subunit ids that belong to an ISO3 country (the code itself included)
+export const subunitsOf = (iso3: string) => [
+  iso3,
+  ...Object.keys(SUBUNIT_TO_ISO3).filter(subunit => SUBUNIT_TO_ISO3[subunit] === iso3)
+];
+
+// ISO 3166-1 alpha-2 codes of the countries in countryCoordinates.json, as used by STIX locations
+// and most SIEM exports
+const ISO2_TO_ISO3: { [key: string]: string } = {
+  AE: 'ARE', AF: 'AFG', AL: 'ALB', AM: 'ARM', AR: 'ARG', AT: 'AUT', AU: 'AUS', AZ: 'AZE',
+  BA: 'BIH', BD: 'BGD', BE: 'BEL', BG: 'BGR', BN: 'BRN', BR: 'BRA', BT: 'BTN', BY: 'BLR',
+  CA: 'CAN', CH: 'CHE', CN: 'CHN', CZ: 'CZE', DE: 'DEU', DK: 'DNK', EE: 'EST', EG: 'EGY',
+  ES: 'ESP', FI: 'FIN', FR: 'FRA', GB: 'GBR', UK: 'GBR', GE: 'GEO', GR: 'GRC', HK: 'HKG',
+  HR: 'HRV', HU: 'HUN', ID: 'IDN', IL: 'ISR', IN: 'IND', IR: 'IRN', IT: 'ITA', JP: 'JPN',
+  KG: 'KGZ', KH: 'KHM', KP: 'PRK', KR: 'KOR', KZ: 'KAZ', LA: 'LAO', LK: 'LKA', LT: 'LTU',
+  LV: 'LVA', MD: 'MDA', ME: 'MNE', MK: 'MKD', MM: 'MMR', MN: 'MNG', MO: 'MAC', MV: 'MDV',
+  MX: 'MEX', MY: 'MYS', NL: 'NLD', NO: 'NOR', NP: 'NPL', PH: 'PHL', PK: 'PAK', PL: 'POL',
+  PT: 'PRT', RO: 'ROU', RS: 'SRB', RU: 'RUS', SA: 'SAU', SE: 'SWE', SG: 'SGP', SI: 'SVN',
+  SK: 'SVK', TH: 'THA', TJ: 'TJK', TM: 'TKM', TR: 'TUR', TW: 'TWN', UA: 'UKR', US: 'USA',
+  UZ: 'UZB', VN: 'VNM', ZA: 'ZAF'
+};
+
+// Resolve a country given as ISO3, ISO2, world.json subunit id or English name to its ISO3 code
+export const resolveCountryCode = (value: string): string | undefined => {
+  const code = value.trim().toUpperCase();
+  if (/^[A-Z]{2}$/.test(code)) return ISO2_TO_ISO3[code];
+  if (/^[A-Z]{3}$/.test(code)) return toIso3(code);
+
+  const name = value.trim().toLowerCase();
+  return Object.entries(countryCoordinates as { [key: string]: CountryCoordinate })
+    .find(([, coord]) => coord.name.toLowerCase() === name)?.[0];
+};
+
+export const getCountryCoordinate = (iso3: string): CountryCoordinate | undefined => {
+  const coordinates = countryCoordinates as { [key: string]: CountryCoordinate };
+  return Object.hasOwn(coordinates, iso3) ? coordinates[iso3] : undefined;
+};
@@ -0,0 +1,116 @@
+import * as d3 from 'd3';
+import { ThreatAttack, ThreatSeverity } from '../types/threat';
+
+export const SEVERITY_ORDER: ThreatSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+export interface CountryTypeCount {
+  type: string;
+  inbound: number;
+  outbound: number;
+}
+
+export interface CountryCounterpart {
+  // ISO3 code of the other end of the attacks
+  country: string;
+  inbound: number;
+  outbound: number;
+}
+
+export interface CountryTimeBin {
+  start: number;
+  end: number;
+  inbound: number;
+  outbound: number;
+}
+
+export interface CountryStats {
+  inbound: ThreatAttack[];
+  outbound: ThreatAttack[];
+  // Sorted by total, most frequent first
+  types: CountryTypeCount[];
+  severities: { [key in ThreatSeverity]: number };
+  // Sorted by total, at most `topCounterparts` entries
+  counterparts: CountryCounterpart[];
+  timeSeries: CountryTimeBin[];
+}
+
+interface CountryStatsOptions {
+  topCounterparts?: number;
+  timeBins?: number;
+}
+
+const total = (entry: { inbound: number; outbound: number }) => entry.inbound + entry.outbound;
+
+// Everything the country drawer shows about one ISO3 country. An attack from a country
+// to itself counts as both inbound and outbound.
+export const computeCountryStats = (
+  attacks: ThreatAttack[],
+  country: string,
+  options: CountryStatsOptions = {}
+): CountryStats => {
+  const { topCounterparts = 5, timeBins = 24 } = options;
+
+  const inbound = attacks.filter(attack => attack.target === country);
+  const outbound = attacks.filter(attack => attack.source === country);
+
+  const types = new Map<string, CountryTypeCount>();
+  const counterparts = new Map<string, CountryCounterpart>();
+  const severities = Object.fromEntries(SEVERITY_ORDER.map(severity => [severity, 0])) as CountryStats['severities'];
+
+  const count = (attack: ThreatAttack, direction: 'inbound' | 'outbound') => {
+    const type = types.get(attack.type) ?? { type: attack.type, inbound: 0, outbound: 0 };
+    type[direction]++;
+    types.set(attack.type, type);
+
+    const other = direction === 'inbound' ? attack.source : attack.target;
+    const counterpart = counterparts.get(other) ?? { country: other, inbound: 0, outbound: 0 };
+    counterpart[direction]++;
+    counterparts.set(other, counterpart);
+  };
+
+  inbound.forEach(attack => count(attack, 'inbound'));
+  outbound.forEach(attack => count(attack, 'outbound'));
+
+  // Severities count each attack once, even a country attacking itself
+  new Set([...inbound, ...outbound]).forEach(attack => {
+    severities[attack.severity] = (severities[attack.severity] ?? 0) + 1;
+  });
+
+  return {
+    inbound,
+    outbound,
+    types: Array.from(types.values()).sort((a, b) => total(b) - total(a)),
+    severities,
+    counterparts: Array.from(counterparts.values())
+      .sort((a, b) => total(b) - total(a))
+      .slice(0, topCounterparts),
+    timeSeries: binByTime(inbound, outbound, timeBins)
+  };
+};
+
+// Equal-width time bins spanning every attack of the country
+const binByTime = (inbound: ThreatAttack[], outbound: ThreatAttack[], binCount: number): CountryTimeBin[] => {
+  const times = [...inbound, ...outbound].map(attack => Date.parse(attack.timestamp));
+  const [min, max] = d3.extent(times);
+  if (min === undefined || max === undefined) return [];
+
+  // A single instant still gets one bin of one second
+  const span = Math.max(max - min, 1000);
+  const binWidth = span / binCount;
+  const bins: CountryTimeBin[] = d3.range(binCount).map(index => ({
+    start: min + index * binWidth,
+    end: min + (index + 1) * binWidth,
+    inbound: 0,
+    outbound: 0
+  }));
+
+  const place = (attack: ThreatAttack, direction: 'inbound' | 'outbound') => {
+    const index = Math.min(Math.floor((Date.parse(attack.timestamp) - min) / binWidth), binCount - 1);
+    bins[index][direction]++;
+  };
+
+  inbound.forEach(attack => place(attack, 'inbound'));
+  outbound.forEach(attack => place(attack, 'outbound'));
+
+  return bins;
+};
@@ -0,0 +1,44 @@
+import { toIso3 } from './countryCodes';
+
+// World Bank export as shipped in gdp_growth.json: one column object per field,
+// each keyed by the row index ("0", "1", ...). Year columns hold growth in % or null.
+export interface GdpGrowthTable {
+  'Country Name': { [row: string]: string };
+  'Country Code': { [row: string]: string };
+  [column: string]: { [row: string]: string | number | null };
+}
+
+export interface GdpGrowthIndex {
+  years: number[];
+  getGdp: (year: number, countryCode: string) => number | null;
+  getCountryName: (countryCode: string) => string | undefined;
+}
+
+// Build an ISO3 -> year -> value index once, instead of scanning every row per lookup
+export const createGdpGrowthIndex = (table: GdpGrowthTable): GdpGrowthIndex => {
+  const years = Object.keys(table)
+    .filter(column => /^\d{4}$/.test(column))
+    .map(Number)
+    .sort((a, b) => a - b);
+
+  const values = new Map<string, Map<number, number>>();
+  const names = new Map<string, string>();
+
+  Object.entries(table['Country Code']).forEach(([row, code]) => {
+    names.set(code, table['Country Name'][row]);
+
+    const byYear = new Map<number, number>();
+    years.forEach(year => {
+      const value = table[String(year)][row];
+      if (typeof value === 'number') byYear.set(year, value);
+    });
+    values.set(code, byYear);
+  });
+
+  return {
+    years,
+    // Accepts world.json subunit ids as well as ISO3 codes
+    getGdp: (year, countryCode) => values.get(toIso3(countryCode))?.get(year) ?? null,
+    getCountryName: (countryCode) => names.get(toIso3(countryCode))
+  };
+};
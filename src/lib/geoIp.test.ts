@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { createGeoIpIndex, parseIp } from './geoIp';
+
+const index = createGeoIpIndex([
+  'network,country,city,latitude,longitude',
+  '198.51.100.0/25,DE,Frankfurt,50.1109,8.6821',
+  '198.51.100.128/25,GB,London,51.5074,-0.1278',
+  // Host bits set in the network address are ignored
+  '203.0.113.77/24,SG,Singapore,1.3521,103.8198',
+  '10.0.0.0/8,USA,,,',
+  '2001:db8::/32,JPN,Tokyo,35.68,139.69',
+  '2001:db9:1::/48,FR,,,',
+  // IPv4-mapped network, prefix counted over 128 bits
+  '::ffff:192.0.2.0/120,CA,Toronto,43.65,-79.38',
+  // Unusable rows
+  '192.0.2.0,US,,,',
+  '192.0.2.0/33,US,,,',
+  '192.0.2.0/24,Atlantis,,,',
+  'not-an-address/8,US,,,'
+].join('\n'));
+
+describe('parseIp', () => {
+  it('parses IPv4 and IPv6, including compressed and dotted-quad forms', () => {
+    expect(parseIp('1.2.3.4')).toEqual({ version: 4, value: 0x01020304 });
+    expect(parseIp(' 2001:db8::1 ')).toEqual({ version: 6, value: (BigInt(0x20010db8) << BigInt(96)) + BigInt(1) });
+    expect(parseIp('::')).toEqual({ version: 6, value: BigInt(0) });
+    expect(parseIp('64:ff9b::192.0.2.1')).toEqual({
+      version: 6,
+      value: (BigInt(0x64ff9b) << BigInt(96)) + BigInt(0xc0000201)
+    });
+  });
+
+  it('looks IPv4-mapped addresses up as IPv4 and drops zone ids', () => {
+    expect(parseIp('::ffff:1.2.3.4')).toEqual({ version: 4, value: 0x01020304 });
+    expect(parseIp('fe80::1%eth0')).toEqual({ version: 6, value: (BigInt(0xfe80) << BigInt(112)) + BigInt(1) });
+  });
+
+  it('rejects malformed addresses', () => {
+    ['', '1.2.3', '1.2.3.256', '01234.1.1.1', '1::2::3', '1:2:3:4:5:6:7:8:9', '1:2:3:4:5:6:7', 'g::1', '::1.2.3.999'].forEach(text => {
+      expect(parseIp(text)).toBeNull();
+    });
+  });
+});
+
+describe('createGeoIpIndex', () => {
+  it('skips rows without a usable network or country', () => {
+    expect(index.size).toBe(7);
+  });
+
+  it('finds the network containing an IPv4 address, up to both ends of the block', () => {
+    expect(index.lookup('198.51.100.0')).toEqual({ country: 'DEU', city: 'Frankfurt', lat: 50.1109, lng: 8.6821 });
+    expect(index.lookup('198.51.100.127')?.city).toBe('Frankfurt');
+    expect(index.lookup('198.51.100.128')?.city).toBe('London');
+    expect(index.lookup('198.51.100.255')?.city).toBe('London');
+    expect(index.lookup('203.0.113.1')?.country).toBe('SGP');
+    expect(index.lookup('10.255.255.255')).toEqual({ country: 'USA', city: undefined });
+  });
+
+  it('finds the network containing an IPv6 address', () => {
+    expect(index.lookup('2001:db8:ffff:ffff:ffff:ffff:ffff:ffff')?.city).toBe('Tokyo');
+    expect(index.lookup('2001:db9:1:ffff::1')?.country).toBe('FRA');
+    expect(index.lookup('2001:db9:2::1')).toBeUndefined();
+  });
+
+  it('matches IPv4-mapped networks with plain IPv4 addresses and the other way round', () => {
+    expect(index.lookup('192.0.2.200')?.city).toBe('Toronto');
+    expect(index.lookup('::ffff:198.51.100.200')?.city).toBe('London');
+  });
+
+  it('finds nothing for addresses outside every network or that do not parse', () => {
+    expect(index.lookup('198.51.99.255')).toBeUndefined();
+    expect(index.lookup('8.8.8.8')).toBeUndefined();
+    expect(index.lookup('constructor')).toBeUndefined();
+  });
+});
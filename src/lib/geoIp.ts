@@ -0,0 +1,141 @@
+import * as d3 from 'd3';
+import { resolveCountryCode } from './countryCodes';
+
+// Where an address is located: always a country, optionally a city and coordinates
+export interface GeoIpLocation {
+  // ISO3 code
+  country: string;
+  city?: string;
+  lat?: number;
+  lng?: number;
+}
+
+export interface GeoIpIndex {
+  // Number of networks in the table
+  size: number;
+  // Location of an IPv4 or IPv6 address, undefined when no network contains it or the address is invalid
+  lookup: (ip: string) => GeoIpLocation | undefined;
+}
+
+type ParsedIp = { version: 4; value: number } | { version: 6; value: bigint };
+
+interface Range<T> {
+  start: T;
+  end: T;
+  location: GeoIpLocation;
+}
+
+const parseIpv4 = (text: string) => {
+  const octets = text.split('.');
+  if (octets.length !== 4 || !octets.every(octet => /^\d{1,3}$/.test(octet) && Number(octet) <= 255)) return null;
+  return octets.reduce((value, octet) => value * 256 + Number(octet), 0);
+};
+
+const parseIpv6 = (text: string) => {
+  let address = text;
+  // A trailing dotted quad stands for the last two groups
+  const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const ipv4 = parseIpv4(dotted[2]);
+    if (ipv4 === null) return null;
+    address = `${dotted[1]}${Math.floor(ipv4 / 65536).toString(16)}:${(ipv4 % 65536).toString(16)}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...new Array<string>(missing).fill('0'), ...tail];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/i.test(group))) return null;
+  return groups.reduce((value, group) => value * BigInt(65536) + BigInt(parseInt(group, 16)), BigInt(0));
+};
+
+const IPV4_MAPPED_PREFIX = BigInt(0xffff) * BigInt(2) ** BigInt(32);
+
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are looked up as IPv4
+export const parseIp = (text: string): ParsedIp | null => {
+  const address = text.trim().replace(/%.*$/, '');
+  const ipv4 = parseIpv4(address);
+  if (ipv4 !== null) return { version: 4, value: ipv4 };
+
+  const ipv6 = parseIpv6(address);
+  if (ipv6 === null) return null;
+  if (ipv6 >= IPV4_MAPPED_PREFIX && ipv6 < IPV4_MAPPED_PREFIX + BigInt(2) ** BigInt(32)) {
+    return { version: 4, value: Number(ipv6 - IPV4_MAPPED_PREFIX) };
+  }
+  return { version: 6, value: ipv6 };
+};
+
+// Last range starting at or before `value`, if it also ends after it
+const findRange = <T extends number | bigint>(ranges: Range<T>[], value: T) => {
+  let low = 0;
+  let high = ranges.length - 1;
+  let match = -1;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (ranges[middle].start <= value) {
+      match = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return match >= 0 && ranges[match].end >= value ? ranges[match].location : undefined;
+};
+
+// Build a lookup table from a CSV with the columns `network,country,city,latitude,longitude`,
+// one CIDR block per row (e.g. `203.0.113.0/24,JP,Tokyo,35.68,139.69`). Country may be ISO2 or ISO3,
+// the other location columns may be empty. Networks are expected not to overlap, as in GeoLite2 exports.
+// Rows that cannot be used are skipped.
+export const createGeoIpIndex = (csvText: string): GeoIpIndex => {
+  const ipv4: Range<number>[] = [];
+  const ipv6: Range<bigint>[] = [];
+
+  d3.csvParse(csvText).forEach(row => {
+    const [address, prefixText] = (row.network ?? '').split('/');
+    const network = parseIp(address ?? '');
+    const country = resolveCountryCode(row.country ?? '');
+    if (!network || !country || prefixText === undefined) return;
+
+    const lat = row.latitude ? Number(row.latitude) : NaN;
+    const lng = row.longitude ? Number(row.longitude) : NaN;
+    const location: GeoIpLocation = {
+      country,
+      city: row.city || undefined,
+      ...(Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : {})
+    };
+
+    // Mapped IPv4 networks carry a prefix counted over all 128 bits
+    const mappedPrefix = address.includes(':') && network.version === 4 ? 96 : 0;
+    const prefix = Number(prefixText) - mappedPrefix;
+
+    if (network.version === 4) {
+      if (!Number.isInteger(prefix) || prefix < 0 || prefix > 32) return;
+      const size = 2 ** (32 - prefix);
+      const start = network.value - (network.value % size);
+      ipv4.push({ start, end: start + size - 1, location });
+    } else {
+      if (!Number.isInteger(prefix) || prefix < 0 || prefix > 128) return;
+      const size = BigInt(2) ** BigInt(128 - prefix);
+      const start = network.value - (network.value % size);
+      ipv6.push({ start, end: start + size - BigInt(1), location });
+    }
+  });
+
+  ipv4.sort((a, b) => a.start - b.start);
+  ipv6.sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+
+  return {
+    size: ipv4.length + ipv6.length,
+    lookup: (ip) => {
+      const parsed = parseIp(ip);
+      if (!parsed) return undefined;
+      return parsed.version === 4 ? findRange(ipv4, parsed.value) : findRange(ipv6, parsed.value);
+    }
+  };
+};
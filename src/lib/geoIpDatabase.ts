@@ -0,0 +1,23 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { GeoIpIndex, createGeoIpIndex } from './geoIp';
+
+// Sample table using the documentation address ranges; point GEOIP_DATABASE at a real export
+const DEFAULT_DATABASE = path.join(process.cwd(), 'src', 'data', 'geoip.csv');
+
+// Kept on globalThis: route handlers and the instrumentation hook are bundled separately,
+// so a module-level variable would load the table once per bundle
+const globalForGeoIp = globalThis as { geoIpDatabase?: Promise<GeoIpIndex | undefined> };
+
+// Load the CIDR table named by GEOIP_DATABASE once per server process. Resolves to undefined
+// when the file cannot be read, so imports still work for records that name their countries;
+// records that only carry addresses then report that there is no GeoIP database.
+export const loadGeoIpDatabase = () => {
+  if (!globalForGeoIp.geoIpDatabase) {
+    const file = process.env.GEOIP_DATABASE ?? DEFAULT_DATABASE;
+    globalForGeoIp.geoIpDatabase = readFile(file, 'utf8')
+      .then(createGeoIpIndex)
+      .catch(() => undefined);
+  }
+  return globalForGeoIp.geoIpDatabase;
+};
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GeoIpCache, convertWithGeoIpLookup } from './geoIpLookup';
+
+const TOKYO = { country: 'JPN', city: 'Tokyo', lat: 35.68, lng: 139.69 };
+
+// Stands in for the GeoIP route, knowing only 192.0.2.1
+const mockRoute = () => {
+  const requests: string[][] = [];
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+    const { ips } = JSON.parse(String(init.body)) as { ips: string[] };
+    requests.push(ips);
+    const locations = Object.fromEntries(ips.filter(ip => ip === '192.0.2.1').map(ip => [ip, TOKYO]));
+    return new Response(JSON.stringify({ locations }), { status: 200 });
+  }));
+  return requests;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('convertWithGeoIpLookup', () => {
+  it('runs the conversion once, without a request, when it needs no addresses', async () => {
+    const requests = mockRoute();
+    const convert = vi.fn(() => 'done');
+    expect(await convertWithGeoIpLookup('/api/geoip', new Map(), convert)).toBe('done');
+    expect(convert).toHaveBeenCalledTimes(1);
+    expect(requests).toEqual([]);
+  });
+
+  it('looks up the addresses the conversion asked for, then runs it again with them', async () => {
+    const requests = mockRoute();
+    const cache: GeoIpCache = new Map();
+    const convert = vi.fn(geoIp => ['192.0.2.1', ' 198.51.100.1'].map(ip => geoIp.lookup(ip)?.city ?? null));
+
+    expect(await convertWithGeoIpLookup('/api/geoip', cache, convert)).toEqual(['Tokyo', null]);
+    expect(requests).toEqual([['192.0.2.1', '198.51.100.1']]);
+    expect(cache).toEqual(new Map([['192.0.2.1', TOKYO], ['198.51.100.1', null]]));
+  });
+
+  it('only sends addresses that are not cached yet, known or not', async () => {
+    const requests = mockRoute();
+    const cache: GeoIpCache = new Map([['192.0.2.1', TOKYO], ['198.51.100.1', null]]);
+
+    const cities = await convertWithGeoIpLookup('/api/geoip', cache, geoIp =>
+      ['192.0.2.1', '198.51.100.1', '203.0.113.1'].map(ip => geoIp.lookup(ip)?.city ?? null));
+
+    expect(cities).toEqual(['Tokyo', null, null]);
+    expect(requests).toEqual([['203.0.113.1']]);
+  });
+
+  it('fails with the route error', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ error: 'Too many' }), { status: 413 })));
+    await expect(convertWithGeoIpLookup('/api/geoip', new Map(), geoIp => geoIp.lookup('192.0.2.1')))
+      .rejects.toThrow('Too many');
+  });
+});
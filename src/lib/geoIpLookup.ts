@@ -0,0 +1,52 @@
+import { GeoIpIndex, GeoIpLocation } from './geoIp';
+
+// Addresses already looked up through the GeoIP route; the ones it did not know are kept as null
+export type GeoIpCache = Map<string, GeoIpLocation | null>;
+
+// Index over the cache that notes every address it was asked for but does not hold yet
+const cachedIndex = (cache: GeoIpCache, missing: Set<string>): GeoIpIndex => ({
+  size: cache.size,
+  lookup: (ip) => {
+    const address = ip.trim();
+    if (!cache.has(address)) missing.add(address);
+    return cache.get(address) ?? undefined;
+  }
+});
+
+// Addresses sent per request, the most the GeoIP route accepts
+const LOOKUP_BATCH = 10000;
+
+// POST the addresses to the GeoIP route, which answers `{ locations: { [ip]: location } }`
+// with the ones it found
+export const lookupAddresses = async (url: string, ips: string[], signal?: AbortSignal) => {
+  const locations: { [ip: string]: GeoIpLocation } = {};
+  for (let start = 0; start < ips.length; start += LOOKUP_BATCH) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ips: ips.slice(start, start + LOOKUP_BATCH) }),
+      signal
+    });
+    const body = await response.json();
+    if (!response.ok) throw new Error(body.error ?? response.statusText);
+    Object.assign(locations, body.locations);
+  }
+  return locations;
+};
+
+// Run a conversion that resolves addresses with the cached locations. When it asked for addresses
+// that are not cached yet, only those are sent to the GeoIP route and the conversion runs again.
+export const convertWithGeoIpLookup = async <T>(
+  url: string,
+  cache: GeoIpCache,
+  convert: (geoIp: GeoIpIndex) => T,
+  signal?: AbortSignal
+): Promise<T> => {
+  const missing = new Set<string>();
+  const first = convert(cachedIndex(cache, missing));
+  if (missing.size === 0) return first;
+
+  const locations = await lookupAddresses(url, Array.from(missing), signal);
+  missing.forEach(ip => cache.set(ip, Object.hasOwn(locations, ip) ? locations[ip] : null));
+  return convert(cachedIndex(cache, new Set()));
+};
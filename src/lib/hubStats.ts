@@ -0,0 +1,76 @@
+import { SEVERITY_ORDER } from './countryStats';
+import { ThreatAttack, ThreatHub, ThreatSeverity } from '../types/threat';
+
+// Recent windows the attack rate is reported over
+export const HUB_RATE_WINDOWS = [
+  { label: '5 min', duration: 5 * 60 * 1000 },
+  { label: '1 hour', duration: 60 * 60 * 1000 },
+  { label: '24 hours', duration: 24 * 60 * 60 * 1000 }
+];
+
+export interface HubRate {
+  label: string;
+  // Length of the window in ms, for labels in other languages
+  duration: number;
+  count: number;
+  // Attacks per minute over the window
+  perMinute: number;
+}
+
+export interface HubAttacker {
+  // ISO3 code of the attacking country
+  country: string;
+  count: number;
+}
+
+export interface HubStats {
+  hub: ThreatHub;
+  total: number;
+  severities: { [key in ThreatSeverity]: number };
+  rates: HubRate[];
+  // Sorted by count, at most `topAttackers` entries
+  attackers: HubAttacker[];
+}
+
+interface HubStatsOptions {
+  topAttackers?: number;
+}
+
+// Aggregate the attacks targeting each hub's country. Rates count attacks that started
+// within each window before `now` (epoch ms), which callers set to wall-clock time when live
+// and to the replay or snapshot time otherwise.
+export const computeHubStats = (
+  hubs: ThreatHub[],
+  attacks: ThreatAttack[],
+  now: number,
+  options: HubStatsOptions = {}
+): HubStats[] => {
+  const { topAttackers = 3 } = options;
+
+  return hubs.map(hub => {
+    const targeting = attacks.filter(attack => attack.target === hub.country);
+    const severities = Object.fromEntries(SEVERITY_ORDER.map(severity => [severity, 0])) as HubStats['severities'];
+    const attackers = new Map<string, number>();
+
+    targeting.forEach(attack => {
+      severities[attack.severity] = (severities[attack.severity] ?? 0) + 1;
+      attackers.set(attack.source, (attackers.get(attack.source) ?? 0) + 1);
+    });
+
+    const times = targeting.map(attack => Date.parse(attack.timestamp));
+    const rates = HUB_RATE_WINDOWS.map(({ label, duration }) => {
+      const count = times.filter(time => time <= now && time > now - duration).length;
+      return { label, duration, count, perMinute: count / (duration / 60000) };
+    });
+
+    return {
+      hub,
+      total: targeting.length,
+      severities,
+      rates,
+      attackers: Array.from(attackers, ([country, count]) => ({ country, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, topAttackers)
+    };
+  });
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsvAttacks } from './attackImport';
+import { formatAttacks } from './mapExport';
+import { ThreatAttack } from '../types/threat';
+
+const attacks: ThreatAttack[] = [
+  {
+    id: 'A1',
+    source: 'CHN',
+    target: 'AUS',
+    type: 'DDoS',
+    severity: 'high',
+    timestamp: '2024-06-01T12:00:00.000Z',
+    duration: 5000,
+    description: 'Flood, "volumetric"',
+    sourceIp: '192.0.2.10',
+    sourceLocation: { lat: 31.23, lng: 121.47, city: 'Shanghai' },
+    targetLocation: { lat: -33.87, lng: 151.21 }
+  },
+  {
+    id: 'A2',
+    source: 'RUS',
+    target: 'USA',
+    type: '=HYPERLINK("http://example.com")',
+    severity: 'low',
+    timestamp: '2024-06-01T12:00:01.000Z',
+    duration: 3000,
+    description: '@SUM(1+1)',
+    targetLocation: { city: '-Springfield' }
+  }
+];
+
+describe('formatAttacks', () => {
+  it('writes a JSON array', () => {
+    expect(JSON.parse(formatAttacks(attacks, 'json'))).toEqual(attacks);
+  });
+
+  it('quotes text cells that spreadsheets would run as formulas, but not negative coordinates', () => {
+    const lines = formatAttacks(attacks, 'csv').split('\n');
+    expect(lines[1]).toContain(',-33.87,151.21');
+    expect(lines[2]).toBe(
+      'A2,2024-06-01T12:00:01.000Z,RUS,USA,"\'=HYPERLINK(""http://example.com"")",low,3000,\'@SUM(1+1),,,,,,\'-Springfield,,'
+    );
+  });
+
+  it('writes a CSV the importer reads back, locations and formula-like text included', () => {
+    const { attacks: imported, errors } = parseCsvAttacks(formatAttacks(attacks, 'csv'));
+    expect(errors).toEqual([]);
+    expect(imported).toEqual(attacks);
+  });
+});
@@ -0,0 +1,362 @@
+import * as d3 from 'd3';
+import { AttackCounters } from './attackCounters';
+import { CanvasArcSnapshot } from './canvasArcLayer';
+import { EN_LOCALE, MapLocale, formatCompactNumber, formatNumber } from './mapLocales';
+import { MapTheme } from './mapThemes';
+import { ThreatAttack } from '../types/threat';
+
+export type AttackExportFormat = 'csv' | 'json';
+
+export const ATTACK_EXPORT_LABELS: { [key in AttackExportFormat]: string } = {
+  csv: 'CSV',
+  json: 'JSON'
+};
+
+// Largest PNG side browsers reliably allocate a canvas for
+export const MAX_PNG_SIDE = 8192;
+
+export interface MapExportLegend {
+  title: string;
+  scale: d3.ScaleSequential<string>;
+  emptyColor?: string;
+  emptyLabel?: string;
+}
+
+export interface MapExportOptions {
+  // Colours for the background and the redrawn legend and counters
+  theme: MapTheme;
+  // Arcs drawn by the canvas renderer, which only exist as pixels on the page
+  canvasArcs?: CanvasArcSnapshot[];
+  // Zoom scale of the main group, so canvas arcs keep their on-screen width
+  zoomScale?: number;
+  legend?: MapExportLegend;
+  counters?: AttackCounters;
+  // IANA time zone shown next to the day counter
+  timeZone?: string;
+  // Language of the counter labels and number format of the values and ticks
+  locale?: MapLocale;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Presentation properties copied from the computed style, so the file renders the same without the page's CSS
+const INLINED_PROPERTIES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-opacity',
+  'stroke-dasharray',
+  'stroke-dashoffset',
+  'stroke-linecap',
+  'stroke-linejoin',
+  'opacity',
+  'filter',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'text-anchor',
+  'dominant-baseline'
+];
+
+const LEGEND_WIDTH = 220;
+const LEGEND_BAR_HEIGHT = 10;
+const LEGEND_GRADIENT_STOPS = 10;
+const SPARKLINE_WIDTH = 180;
+const SPARKLINE_HEIGHT = 28;
+// Rough glyph widths of the counter fonts, to size the badge without measuring text
+const COUNTER_DIGIT_WIDTH = 12;
+const COUNTER_LABEL_CHAR_WIDTH = 6.5;
+
+// Copy the computed style of every rendered element onto its clone and drop the ones that are not rendered
+// (filtered arcs, hidden tooltips), which also leaves the animations frozen at their current frame
+const inlineStyles = (source: Element, clone: Element) => {
+  const sourceChildren = Array.from(source.children);
+  const cloneChildren = Array.from(clone.children);
+
+  sourceChildren.forEach((sourceChild, index) => {
+    const cloneChild = cloneChildren[index];
+    // Gradients and other definitions are referenced, not rendered
+    if (sourceChild.tagName === 'defs') return;
+    const computed = window.getComputedStyle(sourceChild);
+
+    if (computed.display === 'none' || computed.visibility === 'hidden') {
+      cloneChild.remove();
+      return;
+    }
+
+    const style = (cloneChild as SVGElement).style;
+    INLINED_PROPERTIES.forEach(property => {
+      const value = computed.getPropertyValue(property);
+      if (value) style.setProperty(property, value);
+    });
+    // Hover and click handling does not survive the export
+    style.removeProperty('pointer-events');
+    style.removeProperty('cursor');
+
+    inlineStyles(sourceChild, cloneChild);
+  });
+};
+
+const appendPanel = (
+  parent: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  theme: MapTheme
+) => {
+  const panel = parent.append('g').attr('transform', `translate(${x}, ${y})`);
+  panel.append('rect')
+    .attr('width', width)
+    .attr('height', height)
+    .attr('rx', 6)
+    .style('fill', theme.panel.background)
+    .style('stroke', theme.panel.border);
+  return panel;
+};
+
+// Same content as IntensityLegend, at its bottom-left position
+const appendLegend = (
+  svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+  legend: MapExportLegend,
+  height: number,
+  theme: MapTheme,
+  locale: MapLocale
+) => {
+  const { title, scale, emptyColor, emptyLabel = 'No data' } = legend;
+  const [min, max] = scale.domain();
+  const axis = d3.scaleSqrt().domain([min, max]).range([0, LEGEND_WIDTH]);
+  const ticks = axis.ticks(4).filter(tick => Number.isInteger(tick) || max - min < 4);
+  const panelHeight = emptyColor ? 74 : 58;
+  const gradientId = 'export-legend-gradient';
+
+  svg.append('defs')
+    .append('linearGradient')
+    .attr('id', gradientId)
+    .selectAll('stop')
+    .data(d3.range(LEGEND_GRADIENT_STOPS + 1))
+    .enter()
+    .append('stop')
+    .attr('offset', i => `${(i / LEGEND_GRADIENT_STOPS) * 100}%`)
+    .attr('stop-color', i => scale(axis.invert((i / LEGEND_GRADIENT_STOPS) * LEGEND_WIDTH)));
+
+  const panel = appendPanel(svg, 16, height - 24 - panelHeight, LEGEND_WIDTH + 24, panelHeight, theme)
+    .style('font-family', 'Arial, Helvetica, sans-serif')
+    .style('font-size', '11px')
+    .style('fill', theme.panel.text);
+
+  panel.append('text').attr('x', 12).attr('y', 20).style('font-weight', 'bold').text(title);
+
+  const bar = panel.append('g').attr('transform', 'translate(12, 28)');
+  bar.append('rect').attr('width', LEGEND_WIDTH).attr('height', LEGEND_BAR_HEIGHT).style('fill', `url(#${gradientId})`);
+  ticks.forEach(tick => {
+    const group = bar.append('g').attr('transform', `translate(${axis(tick)}, 0)`);
+    group.append('line').attr('y1', LEGEND_BAR_HEIGHT).attr('y2', LEGEND_BAR_HEIGHT + 4).style('stroke', theme.panel.muted);
+    group.append('text')
+      .attr('y', LEGEND_BAR_HEIGHT + 14)
+      .style('text-anchor', 'middle')
+      .style('fill', theme.panel.secondary)
+      .text(formatCompactNumber(locale, tick));
+  });
+
+  if (emptyColor) {
+    panel.append('rect').attr('x', 12).attr('y', 58).attr('width', 12).attr('height', 10).style('fill', emptyColor);
+    panel.append('text').attr('x', 30).attr('y', 67).text(emptyLabel);
+  }
+};
+
+// Same content as the AttackCounters badge, centred below the toolbar
+const appendCounters = (
+  svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+  counters: AttackCounters,
+  timeZone: string,
+  width: number,
+  theme: MapTheme,
+  locale: MapLocale
+) => {
+  const { messages } = locale;
+  const values = [
+    { label: messages.lastMinute, value: counters.lastMinute },
+    { label: messages.lastHour, value: counters.lastHour },
+    { label: messages.today(timeZone), value: counters.today }
+  ];
+  const columns = values.map(({ label, value }) => ({
+    label,
+    value: formatNumber(locale, value),
+    width: Math.max(64, label.length * COUNTER_LABEL_CHAR_WIDTH, formatNumber(locale, value).length * COUNTER_DIGIT_WIDTH)
+  }));
+  const badgeWidth = Math.max(d3.sum(columns, column => column.width) + 16 * (columns.length - 1), SPARKLINE_WIDTH) + 28;
+
+  const badge = svg.append('g')
+    .attr('transform', `translate(${(width - badgeWidth) / 2}, 64)`)
+    .style('font-family', 'sans-serif');
+
+  badge.append('rect')
+    .attr('width', badgeWidth)
+    .attr('height', 104)
+    .attr('rx', 8)
+    .style('fill', theme.badge.background)
+    .style('stroke', theme.badge.border)
+    .style('stroke-width', '2px');
+
+  let left = 14;
+  columns.forEach(({ label, value, width: columnWidth }) => {
+    const counter = badge.append('g').attr('transform', `translate(${left}, 0)`);
+    left += columnWidth + 16;
+    counter.append('text')
+      .attr('y', 32)
+      .style('fill', theme.badge.value)
+      .style('font-size', '20px')
+      .style('font-weight', 'bold')
+      .text(value);
+    counter.append('text')
+      .attr('y', 46)
+      .style('fill', theme.badge.text)
+      .style('font-size', '10px')
+      .text(label.toUpperCase());
+  });
+
+  const sparklineWidth = badgeWidth - 28;
+  const x = d3.scaleLinear().domain([0, Math.max(counters.sparkline.length - 1, 1)]).range([0, sparklineWidth]);
+  const y = d3.scaleLinear().domain([0, Math.max(d3.max(counters.sparkline) ?? 0, 1)]).range([SPARKLINE_HEIGHT, 2]);
+  const area = d3.area<number>()
+    .x((_, index) => x(index))
+    .y0(SPARKLINE_HEIGHT)
+    .y1(count => y(count))
+    .curve(d3.curveMonotoneX);
+
+  badge.append('path')
+    .attr('transform', 'translate(14, 54)')
+    .attr('d', area(counters.sparkline) ?? '')
+    .style('fill', theme.badge.value)
+    .style('fill-opacity', 0.35)
+    .style('stroke', theme.badge.value)
+    .style('stroke-width', '1px');
+  badge.append('text')
+    .attr('x', 14)
+    .attr('y', 96)
+    .style('fill', theme.badge.muted)
+    .style('font-size', '9px')
+    .text(messages.attacksPerMinute.toUpperCase());
+};
+
+// Standalone SVG document of the map as it is drawn right now, with the legend and counters
+// the page shows as HTML redrawn in SVG
+export const createMapSvg = (svgElement: SVGSVGElement, options: MapExportOptions): string => {
+  const { theme, canvasArcs = [], zoomScale = 1, legend, counters, timeZone = 'UTC', locale = EN_LOCALE } = options;
+  const [, , width, height] = svgElement.getAttribute('viewBox')?.split(' ').map(Number) ?? [];
+  const clone = svgElement.cloneNode(true) as SVGSVGElement;
+
+  inlineStyles(svgElement, clone);
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.removeAttribute('style');
+
+  const svg = d3.select(clone);
+  svg.insert('rect', ':first-child').attr('width', width).attr('height', height).style('fill', theme.background);
+
+  // Canvas arcs go with the SVG arcs, inside the zoomed main group
+  const arcsGroup = svg.select<SVGGElement>('.attack-arcs');
+  canvasArcs.forEach(arc => {
+    arcsGroup.append('path')
+      .attr('d', arc.d)
+      .style('fill', 'none')
+      .style('stroke', arc.color)
+      .style('stroke-width', `${arc.strokeWidth / zoomScale}px`)
+      .style('stroke-linecap', 'round')
+      .style('stroke-dasharray', '15 8')
+      .style('opacity', arc.opacity);
+  });
+
+  if (legend) appendLegend(svg, legend, height, theme, locale);
+  if (counters) appendCounters(svg, counters, timeZone, width, theme, locale);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}`;
+};
+
+// Rasterise an SVG document at `scale` times its own size
+export const renderSvgToPng = async (svgText: string, width: number, height: number, scale: number): Promise<Blob> => {
+  const url = URL.createObjectURL(new Blob([svgText], { type: 'image/svg+xml;charset=utf-8' }));
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('The map could not be rendered as an image'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The PNG could not be encoded'))), 'image/png');
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// CSV columns; locations are flattened so the file opens cleanly in a spreadsheet
+const CSV_COLUMNS = [
+  'id',
+  'timestamp',
+  'source',
+  'target',
+  'type',
+  'severity',
+  'duration',
+  'description',
+  'sourceIp',
+  'targetIp',
+  'sourceCity',
+  'sourceLat',
+  'sourceLng',
+  'targetCity',
+  'targetLat',
+  'targetLng'
+] as const;
+
+// Spreadsheets evaluate text cells starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Text from imported feeds goes into the file as is, so a leading quote keeps formulas from running
+const escapeCsvCell = (value: unknown) =>
+  typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value;
+
+// Attacks as a CSV (with the column names the importer recognises) or a JSON array
+export const formatAttacks = (attacks: ThreatAttack[], format: AttackExportFormat): string => {
+  if (format === 'json') return JSON.stringify(attacks, null, 2);
+
+  const rows = attacks.map(({ sourceLocation, targetLocation, ...attack }) => {
+    const row = {
+      ...attack,
+      sourceCity: sourceLocation?.city,
+      sourceLat: sourceLocation?.lat,
+      sourceLng: sourceLocation?.lng,
+      targetCity: targetLocation?.city,
+      targetLat: targetLocation?.lat,
+      targetLng: targetLocation?.lng
+    };
+    return Object.fromEntries(Object.entries(row).map(([column, value]) => [column, escapeCsvCell(value)]));
+  });
+  return d3.csvFormat(rows, CSV_COLUMNS);
+};
+
+// Hand a generated file to the browser's download manager
+export const downloadFile = (content: Blob | string, fileName: string, type = 'text/plain') => {
+  const blob = typeof content === 'string' ? new Blob([content], { type }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the download a moment to start before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EN_LOCALE,
+  MAP_LOCALES,
+  countryName,
+  formatZonedDateTime,
+  regionName,
+  threatTypeLabel,
+  timeZoneLabel,
+  toMapLocaleName
+} from './mapLocales';
+
+const JA_LOCALE = MAP_LOCALES.ja;
+
+describe('toMapLocaleName', () => {
+  it('falls back to English for unknown names', () => {
+    expect(toMapLocaleName('ja')).toBe('ja');
+    expect(toMapLocaleName(undefined)).toBe('en');
+    expect(toMapLocaleName('constructor')).toBe('en');
+  });
+});
+
+describe('localized names', () => {
+  it('use the locale, then the English name, then the given fallback', () => {
+    expect(countryName(JA_LOCALE, 'JPN')).toBe('日本');
+    expect(countryName(EN_LOCALE, 'JPN', 'Honshu')).toBe('Japan');
+    expect(countryName(EN_LOCALE, 'XSE', 'At sea')).toBe('At sea');
+    expect(regionName(JA_LOCALE, 'eastern-asia')).toBe('東アジア');
+    expect(regionName(EN_LOCALE, 'eastern-asia')).toBe('Eastern Asia');
+    expect(threatTypeLabel(JA_LOCALE, 'DDoS')).toBe('DDoS 攻撃');
+    expect(threatTypeLabel(EN_LOCALE, 'DDoS')).toBe('DDoS');
+  });
+
+  it('give names from imported data back as they are, even when they are inherited object keys', () => {
+    expect(countryName(JA_LOCALE, 'constructor')).toBe('constructor');
+    expect(regionName(JA_LOCALE, 'toString')).toBe('toString');
+    expect(threatTypeLabel(JA_LOCALE, 'constructor')).toBe('constructor');
+    expect(threatTypeLabel(EN_LOCALE, '__proto__')).toBe('__proto__');
+  });
+});
+
+describe('zoned dates', () => {
+  const noon = Date.parse('2024-06-01T12:00:00Z');
+
+  it('name the time zone the way the locale does', () => {
+    expect(formatZonedDateTime(EN_LOCALE, noon, 'time')).toBe('12:00:00 UTC');
+    expect(formatZonedDateTime(JA_LOCALE, noon, 'minute', 'Asia/Tokyo')).toBe('2024/06/01 21:00 JST');
+    expect(timeZoneLabel(EN_LOCALE)).toBe('UTC');
+    expect(timeZoneLabel(JA_LOCALE, 'Asia/Tokyo', noon)).toBe('JST');
+  });
+});
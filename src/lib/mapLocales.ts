@@ -0,0 +1,818 @@
+import countryNames from '../data/countryNames.json';
+import { ARC_MODE_LABELS, ArcMode } from './arcGeometry';
+import { resolveAttackEndpoint } from './attackEndpoints';
+import { EN_IMPORT_ERRORS, ImportErrorMessages } from './attackImport';
+import { FLOW_AGGREGATION_LABELS, FlowAggregation, getRegion } from './attackFlows';
+import { INTENSITY_METRIC_LABELS, IntensityMetric } from './attackIntensity';
+import { ARC_RENDERER_LABELS, ArcRenderer } from './canvasArcLayer';
+import { getCountryCoordinate } from './countryCodes';
+import { MAP_THEME_LABELS, MapThemeName } from './mapThemes';
+import { PROJECTION_LABELS, ProjectionType } from './projections';
+import { ThreatAttack, ThreatSeverity } from '../types/threat';
+
+export type MapLocaleName = 'en' | 'ja' | 'ar';
+
+// Each language named in itself, so users can find theirs in the picker
+export const MAP_LOCALE_LABELS: { [key in MapLocaleName]: string } = {
+  en: 'English',
+  ja: '日本語',
+  ar: 'العربية'
+};
+
+// UI strings. Counts and dates reach the functions already formatted for the locale.
+export interface MapMessages {
+  loadingMap: string;
+  dropFile: string;
+
+  // Toolbar
+  modes: { static: string; live: string; replay: string };
+  pause: string;
+  resume: string;
+  pauseAnimations: string;
+  resumeAnimations: string;
+  table: string;
+  showTable: string;
+  hideTable: string;
+  countryShading: string;
+  flatMap: string;
+  projection: string;
+  arcStyle: string;
+  arcRenderer: string;
+  colourTheme: string;
+  language: string;
+  autoSpin: string;
+  projections: { [key in ProjectionType]: string };
+  arcModes: { [key in ArcMode]: string };
+  renderers: { [key in ArcRenderer]: string };
+  themes: { [key in MapThemeName]: string };
+  intensityMetrics: { [key in IntensityMetric]: string };
+
+  // Export menu
+  exportMenu: string;
+  mapAsSvg: string;
+  mapAsPng: string;
+  renderingPng: string;
+  pngResolution: string;
+  attacksAs: (count: string, format: string) => string;
+
+  // Attack tooltips, descriptions and lists
+  place: (city: string, country: string) => string;
+  from: string;
+  to: string;
+  severity: string;
+  arcLabel: (type: string, source: string, target: string, severity: string) => string;
+  noAttacks: string;
+  noAttacksYet: string;
+  none: string;
+  andMore: (count: string) => string;
+
+  // Counters
+  lastMinute: string;
+  lastHour: string;
+  today: (timeZone: string) => string;
+  countersLabel: (lastMinute: string, lastHour: string, today: string) => string;
+  attacksPerMinute: string;
+
+  // Filters
+  filters: string;
+  visibleOfTotal: (visible: string, total: string) => string;
+  attackType: string;
+  sourceCountry: string;
+  targetCountry: string;
+  addFilter: (label: string) => string;
+  anyCountry: string;
+  remove: (name: string) => string;
+  clearFilters: string;
+
+  // Feed and table
+  attackFeed: string;
+  attackTable: string;
+  closeAttackTable: string;
+  tableCaption: (count: string) => string;
+  newestListed: (count: string) => string;
+  timeColumn: (timeZone: string) => string;
+  typeColumn: string;
+  descriptionColumn: string;
+
+  // Country drawer
+  countryDetails: (name: string) => string;
+  closeCountryDetails: string;
+  inboundCount: (count: string) => string;
+  outboundCount: (count: string) => string;
+  attackTypes: string;
+  topCounterparts: string;
+  overTime: string;
+  attacksOverTime: string;
+  inbound: string;
+  outbound: string;
+  fromCountry: (name: string) => string;
+  toCountry: (name: string) => string;
+
+  // Hubs
+  hubs: string;
+  reset: string;
+  edit: string;
+  noHubs: string;
+  hubName: string;
+  hubCountry: string;
+  hubType: string;
+  hubImportance: string;
+  addHub: string;
+  newHub: string;
+  cancel: string;
+  save: string;
+  hubTypes: { primary: string; secondary: string };
+  hubSummary: (type: string, importance: string, total: string) => string;
+  rateTitle: (count: string, window: string) => string;
+  perMinute: string;
+  topAttackers: string;
+
+  // Import dialog
+  importFile: (name: string) => string;
+  format: string;
+  notInFile: string;
+  csvMappingHint: string;
+  converting: string;
+  importFailed: (error: string) => string;
+  attacksReady: (count: string) => string;
+  skipped: (count: string) => string;
+  importAction: string;
+  importErrors: ImportErrorMessages;
+
+  // Replay and zoom
+  play: string;
+  playReplay: string;
+  pauseReplay: string;
+  replayTime: string;
+  replaySpeed: string;
+  active: (count: string) => string;
+  zoomIn: string;
+  zoomOut: string;
+  resetZoom: string;
+  mapOverview: string;
+
+  // Flow arcs
+  flowAggregation: string;
+  flowAggregations: { [key in FlowAggregation]: string };
+  flowWindow: string;
+  bundleArcs: string;
+  flowTitle: (count: string) => string;
+  flowLabel: (count: string, source: string, target: string, severity: string) => string;
+  worstSeverity: string;
+  timeWindow: string;
+  route: (source: string, target: string) => string;
+
+  // Legend of the original WorldMap
+  cyberThreats: string;
+  severityLegend: (severity: string) => string;
+}
+
+export interface MapLocale {
+  // BCP 47 tag used for Intl number and date formatting
+  tag: string;
+  dir: 'ltr' | 'rtl';
+  // Country names by ISO3; countries missing here keep their English name
+  countries: { [iso3: string]: string };
+  // Region names by key in regions.json, likewise
+  regions: { [key: string]: string };
+  severities: { [key in ThreatSeverity]: string };
+  // Labels for the threat types in threatData.json; other types are shown as they come
+  threatTypes: { [type: string]: string };
+  messages: MapMessages;
+}
+
+const EN_MESSAGES: MapMessages = {
+  loadingMap: 'Loading world map...',
+  dropFile: 'Drop a CSV, JSON Lines or STIX 2.1 file to import its attacks',
+
+  modes: { static: 'Snapshot', live: 'Live', replay: 'Replay' },
+  pause: 'Pause',
+  resume: 'Resume',
+  pauseAnimations: 'Pause animations',
+  resumeAnimations: 'Resume animations',
+  table: 'Table',
+  showTable: 'Show attacks as a table',
+  hideTable: 'Hide attack table',
+  countryShading: 'Country shading',
+  flatMap: 'Flat map',
+  projection: 'Projection',
+  arcStyle: 'Arc style',
+  arcRenderer: 'Arc renderer',
+  colourTheme: 'Colour theme',
+  language: 'Language',
+  autoSpin: 'Auto-spin',
+  projections: PROJECTION_LABELS,
+  arcModes: ARC_MODE_LABELS,
+  renderers: ARC_RENDERER_LABELS,
+  themes: MAP_THEME_LABELS,
+  intensityMetrics: INTENSITY_METRIC_LABELS,
+
+  exportMenu: 'Export',
+  mapAsSvg: 'Map as SVG',
+  mapAsPng: 'Map as PNG',
+  renderingPng: 'Rendering PNG…',
+  pngResolution: 'PNG resolution',
+  attacksAs: (count, format) => `${count} attacks as ${format}`,
+
+  place: (city, country) => `${city}, ${country}`,
+  from: 'From',
+  to: 'To',
+  severity: 'Severity',
+  arcLabel: (type, source, target, severity) => `${type} from ${source} to ${target}, ${severity} severity`,
+  noAttacks: 'No attacks',
+  noAttacksYet: 'No attacks yet',
+  none: 'None',
+  andMore: (count) => `and ${count} more`,
+
+  lastMinute: 'Last minute',
+  lastHour: 'Last hour',
+  today: (timeZone) => `Today (${timeZone})`,
+  countersLabel: (lastMinute, lastHour, today) => `${lastMinute} attacks in the last minute, ${lastHour} in the last hour, ${today} today`,
+  attacksPerMinute: 'Attacks per minute, last 30 min',
+
+  filters: 'Filters',
+  visibleOfTotal: (visible, total) => `${visible} / ${total} attacks`,
+  attackType: 'Attack type',
+  sourceCountry: 'Source country',
+  targetCountry: 'Target country',
+  addFilter: (label) => `Add ${label.toLowerCase()} filter`,
+  anyCountry: 'Any country',
+  remove: (name) => `Remove ${name}`,
+  clearFilters: 'Clear filters',
+
+  attackFeed: 'Attack feed',
+  attackTable: 'Attack table',
+  closeAttackTable: 'Close attack table',
+  tableCaption: (count) => `Attacks shown on the map (${count})`,
+  newestListed: (count) => `, newest ${count} listed`,
+  timeColumn: (timeZone) => `Time (${timeZone})`,
+  typeColumn: 'Type',
+  descriptionColumn: 'Description',
+
+  countryDetails: (name) => `${name} attack details`,
+  closeCountryDetails: 'Close country details',
+  inboundCount: (count) => `${count} inbound`,
+  outboundCount: (count) => `${count} outbound`,
+  attackTypes: 'Attack types',
+  topCounterparts: 'Top counterparts',
+  overTime: 'Over time',
+  attacksOverTime: 'Attacks over time',
+  inbound: 'Inbound',
+  outbound: 'Outbound',
+  fromCountry: (name) => `from ${name}`,
+  toCountry: (name) => `to ${name}`,
+
+  hubs: 'Hubs',
+  reset: 'Reset',
+  edit: 'Edit',
+  noHubs: 'No hubs configured',
+  hubName: 'Hub name',
+  hubCountry: 'Hub country',
+  hubType: 'Hub type',
+  hubImportance: 'Hub importance',
+  addHub: 'Add hub',
+  newHub: 'New hub',
+  cancel: 'Cancel',
+  save: 'Save',
+  hubTypes: { primary: 'Primary', secondary: 'Secondary' },
+  hubSummary: (type, importance, total) => `${type} hub · importance ${importance} · ${total} attacks`,
+  rateTitle: (count, window) => `${count} attacks in the last ${window}`,
+  perMinute: '/min',
+  topAttackers: 'Top attackers',
+
+  importFile: (name) => `Import ${name}`,
+  format: 'Format',
+  notInFile: '(not in file)',
+  csvMappingHint: '* source and target may stay unmapped when sourceIp and targetIp are mapped',
+  converting: 'Converting…',
+  importFailed: (error) => `Import failed: ${error}`,
+  attacksReady: (count) => `${count} attacks ready`,
+  skipped: (count) => `, ${count} skipped`,
+  importAction: 'Import',
+  importErrors: EN_IMPORT_ERRORS,
+
+  play: 'Play',
+  playReplay: 'Play replay',
+  pauseReplay: 'Pause replay',
+  replayTime: 'Replay time',
+  replaySpeed: 'Replay speed',
+  active: (count) => `${count} active`,
+  zoomIn: 'Zoom in',
+  zoomOut: 'Zoom out',
+  resetZoom: 'Reset zoom',
+  mapOverview: 'Map overview',
+
+  flowAggregation: 'Arc merging',
+  flowAggregations: FLOW_AGGREGATION_LABELS,
+  flowWindow: 'Merge window',
+  bundleArcs: 'Bundle arcs',
+  flowTitle: (count) => `${count} attacks`,
+  flowLabel: (count, source, target, severity) => `${count} attacks from ${source} to ${target}, worst severity ${severity}`,
+  worstSeverity: 'Worst severity',
+  timeWindow: 'Window',
+  route: (source, target) => `${source} → ${target}`,
+
+  cyberThreats: 'Cyber Threats',
+  severityLegend: (severity) => `${severity.toUpperCase()} Severity`
+};
+
+const JA_MESSAGES: MapMessages = {
+  loadingMap: '世界地図を読み込み中...',
+  dropFile: 'CSV、JSON Lines、STIX 2.1 ファイルをドロップして攻撃を取り込みます',
+
+  modes: { static: 'スナップショット', live: 'ライブ', replay: 'リプレイ' },
+  pause: '一時停止',
+  resume: '再開',
+  pauseAnimations: 'アニメーションを一時停止',
+  resumeAnimations: 'アニメーションを再開',
+  table: '表',
+  showTable: '攻撃を表で表示',
+  hideTable: '攻撃の表を閉じる',
+  countryShading: '国の塗り分け',
+  flatMap: '塗り分けなし',
+  projection: '図法',
+  arcStyle: '弧の形',
+  arcRenderer: '弧の描画方式',
+  colourTheme: '配色テーマ',
+  language: '言語',
+  autoSpin: '自動回転',
+  projections: { mercator: '平面地図', globe: '地球儀' },
+  arcModes: { geodesic: '大圏航路', bezier: '曲線' },
+  renderers: { svg: 'SVG', canvas: 'Canvas（高速）' },
+  themes: { light: 'ライト', dark: 'ダーク（SOC 表示）', colorblind: '色覚多様性対応' },
+  intensityMetrics: { targeted: '受けた攻撃', source: '発信した攻撃', severity: '重大度加重スコア' },
+
+  exportMenu: 'エクスポート',
+  mapAsSvg: '地図を SVG で保存',
+  mapAsPng: '地図を PNG で保存',
+  renderingPng: 'PNG を生成中…',
+  pngResolution: 'PNG の解像度',
+  attacksAs: (count, format) => `${count} 件の攻撃を ${format} で保存`,
+
+  place: (city, country) => `${city}（${country}）`,
+  from: '送信元',
+  to: '送信先',
+  severity: '重大度',
+  arcLabel: (type, source, target, severity) => `${source} から ${target} への${type}、重大度: ${severity}`,
+  noAttacks: '攻撃なし',
+  noAttacksYet: 'まだ攻撃はありません',
+  none: 'なし',
+  andMore: (count) => `ほか ${count} 件`,
+
+  lastMinute: '直近 1 分',
+  lastHour: '直近 1 時間',
+  today: (timeZone) => `今日（${timeZone}）`,
+  countersLabel: (lastMinute, lastHour, today) => `直近 1 分に ${lastMinute} 件、直近 1 時間に ${lastHour} 件、今日 ${today} 件の攻撃`,
+  attacksPerMinute: '1 分あたりの攻撃数（直近 30 分）',
+
+  filters: 'フィルター',
+  visibleOfTotal: (visible, total) => `${visible} / ${total} 件`,
+  attackType: '攻撃の種類',
+  sourceCountry: '送信元の国',
+  targetCountry: '送信先の国',
+  addFilter: (label) => `${label}で絞り込む`,
+  anyCountry: 'すべての国',
+  remove: (name) => `${name} を外す`,
+  clearFilters: 'フィルターを解除',
+
+  attackFeed: '攻撃フィード',
+  attackTable: '攻撃の一覧表',
+  closeAttackTable: '攻撃の一覧表を閉じる',
+  tableCaption: (count) => `地図上の攻撃（${count} 件）`,
+  newestListed: (count) => `、新しい順に ${count} 件を表示`,
+  timeColumn: (timeZone) => `日時（${timeZone}）`,
+  typeColumn: '種類',
+  descriptionColumn: '説明',
+
+  countryDetails: (name) => `${name} の攻撃の詳細`,
+  closeCountryDetails: '国の詳細を閉じる',
+  inboundCount: (count) => `受信 ${count} 件`,
+  outboundCount: (count) => `送信 ${count} 件`,
+  attackTypes: '攻撃の種類',
+  topCounterparts: '主な相手国',
+  overTime: '推移',
+  attacksOverTime: '攻撃数の推移',
+  inbound: '受信',
+  outbound: '送信',
+  fromCountry: (name) => `${name} から`,
+  toCountry: (name) => `${name} へ`,
+
+  hubs: 'ハブ',
+  reset: 'リセット',
+  edit: '編集',
+  noHubs: 'ハブが設定されていません',
+  hubName: 'ハブ名',
+  hubCountry: 'ハブの国',
+  hubType: 'ハブの種類',
+  hubImportance: 'ハブの重要度',
+  addHub: 'ハブを追加',
+  newHub: '新しいハブ',
+  cancel: 'キャンセル',
+  save: '保存',
+  hubTypes: { primary: 'プライマリ', secondary: 'セカンダリ' },
+  hubSummary: (type, importance, total) => `${type}ハブ · 重要度 ${importance} · 攻撃 ${total} 件`,
+  rateTitle: (count, window) => `直近 ${window} の攻撃 ${count} 件`,
+  perMinute: '/分',
+  topAttackers: '主な攻撃元',
+
+  importFile: (name) => `${name} の取り込み`,
+  format: '形式',
+  notInFile: '（ファイルにない）',
+  csvMappingHint: '* sourceIp と targetIp を割り当てれば、source と target は未割り当てでも構いません',
+  converting: '変換中…',
+  importFailed: (error) => `取り込みに失敗しました: ${error}`,
+  attacksReady: (count) => `${count} 件の攻撃を取り込めます`,
+  skipped: (count) => `（${count} 件はスキップ）`,
+  importAction: '取り込む',
+  importErrors: {
+    line: (line) => `${line} 行目`,
+    bundle: 'バンドル',
+    skipped: (where, reason) => `${where}: ${reason}`,
+    unknownCountry: (field, value) => `${field} の国「${value}」が不明です`,
+    missingField: (field) => `${field} がありません`,
+    noGeoIpDatabase: (field, ip) => `${field}「${ip}」を解決する GeoIP データベースがありません`,
+    addressNotFound: (field, ip) => `${field}「${ip}」は GeoIP データベースにありません`,
+    invalidTimestamp: (value) => `日時「${value}」が不正です`,
+    unknownSeverity: (value) => `深刻度「${value}」が不明です`,
+    invalidDuration: (value) => `継続時間「${value}」が不正です`,
+    invalidJson: 'JSON として読めません',
+    notJsonObject: 'JSON オブジェクトではありません',
+    notStixBundle: 'STIX バンドルではありません',
+    unknownSightingRef: (ref) => `sighting_of_ref「${ref}」が見つかりません`
+  },
+
+  play: '再生',
+  playReplay: 'リプレイを再生',
+  pauseReplay: 'リプレイを一時停止',
+  replayTime: 'リプレイの時刻',
+  replaySpeed: 'リプレイの速度',
+  active: (count) => `${count} 件が進行中`,
+  zoomIn: '拡大',
+  zoomOut: '縮小',
+  resetZoom: 'ズームをリセット',
+  mapOverview: '地図の全体図',
+
+  flowAggregation: '矢印のまとめ方',
+  flowAggregations: { none: '攻撃ごとに表示', country: '国の組み合わせでまとめる', region: '地域の組み合わせでまとめる' },
+  flowWindow: 'まとめる時間幅',
+  bundleArcs: '矢印を束ねる',
+  flowTitle: (count) => `${count} 件の攻撃`,
+  flowLabel: (count, source, target, severity) => `${source} から ${target} への ${count} 件の攻撃、最大重大度 ${severity}`,
+  worstSeverity: '最大重大度',
+  timeWindow: '期間',
+  route: (source, target) => `${source} → ${target}`,
+
+  cyberThreats: 'サイバー脅威',
+  severityLegend: (severity) => `重大度: ${severity}`
+};
+
+const AR_MESSAGES: MapMessages = {
+  loadingMap: 'جارٍ تحميل خريطة العالم...',
+  dropFile: 'أفلت ملف CSV أو JSON Lines أو STIX 2.1 لاستيراد هجماته',
+
+  modes: { static: 'لقطة', live: 'مباشر', replay: 'إعادة التشغيل' },
+  pause: 'إيقاف مؤقت',
+  resume: 'استئناف',
+  pauseAnimations: 'إيقاف الحركة مؤقتًا',
+  resumeAnimations: 'استئناف الحركة',
+  table: 'جدول',
+  showTable: 'عرض الهجمات في جدول',
+  hideTable: 'إخفاء جدول الهجمات',
+  countryShading: 'تظليل الدول',
+  flatMap: 'بدون تظليل',
+  projection: 'الإسقاط',
+  arcStyle: 'شكل الأقواس',
+  arcRenderer: 'طريقة رسم الأقواس',
+  colourTheme: 'سمة الألوان',
+  language: 'اللغة',
+  autoSpin: 'دوران تلقائي',
+  projections: { mercator: 'خريطة مسطحة', globe: 'كرة أرضية' },
+  arcModes: { geodesic: 'أقواس الدائرة العظمى', bezier: 'أقواس منحنية' },
+  renderers: { svg: 'أقواس SVG', canvas: 'أقواس Canvas (سريعة)' },
+  themes: { light: 'فاتح', dark: 'داكن (شاشة مركز العمليات)', colorblind: 'مناسب لعمى الألوان' },
+  intensityMetrics: { targeted: 'الهجمات المستقبلة', source: 'الهجمات المنطلقة', severity: 'درجة مرجحة بالخطورة' },
+
+  exportMenu: 'تصدير',
+  mapAsSvg: 'الخريطة بصيغة SVG',
+  mapAsPng: 'الخريطة بصيغة PNG',
+  renderingPng: 'جارٍ إنشاء PNG…',
+  pngResolution: 'دقة PNG',
+  attacksAs: (count, format) => `${count} هجوم بصيغة ${format}`,
+
+  place: (city, country) => `${city}، ${country}`,
+  from: 'من',
+  to: 'إلى',
+  severity: 'الخطورة',
+  arcLabel: (type, source, target, severity) => `${type} من ${source} إلى ${target}، الخطورة: ${severity}`,
+  noAttacks: 'لا هجمات',
+  noAttacksYet: 'لا هجمات حتى الآن',
+  none: 'لا شيء',
+  andMore: (count) => `و${count} أخرى`,
+
+  lastMinute: 'آخر دقيقة',
+  lastHour: 'آخر ساعة',
+  today: (timeZone) => `اليوم (${timeZone})`,
+  countersLabel: (lastMinute, lastHour, today) => `${lastMinute} هجوم في آخر دقيقة، و${lastHour} في آخر ساعة، و${today} اليوم`,
+  attacksPerMinute: 'الهجمات في الدقيقة، آخر 30 دقيقة',
+
+  filters: 'عوامل التصفية',
+  visibleOfTotal: (visible, total) => `${visible} / ${total} هجوم`,
+  attackType: 'نوع الهجوم',
+  sourceCountry: 'دولة المصدر',
+  targetCountry: 'الدولة المستهدفة',
+  addFilter: (label) => `إضافة تصفية حسب ${label}`,
+  anyCountry: 'أي دولة',
+  remove: (name) => `إزالة ${name}`,
+  clearFilters: 'مسح عوامل التصفية',
+
+  attackFeed: 'سجل الهجمات',
+  attackTable: 'جدول الهجمات',
+  closeAttackTable: 'إغلاق جدول الهجمات',
+  tableCaption: (count) => `الهجمات المعروضة على الخريطة (${count})`,
+  newestListed: (count) => `، أحدث ${count} مدرجة`,
+  timeColumn: (timeZone) => `الوقت (${timeZone})`,
+  typeColumn: 'النوع',
+  descriptionColumn: 'الوصف',
+
+  countryDetails: (name) => `تفاصيل الهجمات على ${name}`,
+  closeCountryDetails: 'إغلاق تفاصيل الدولة',
+  inboundCount: (count) => `${count} واردة`,
+  outboundCount: (count) => `${count} صادرة`,
+  attackTypes: 'أنواع الهجمات',
+  topCounterparts: 'أبرز الأطراف المقابلة',
+  overTime: 'على مر الوقت',
+  attacksOverTime: 'الهجمات على مر الوقت',
+  inbound: 'واردة',
+  outbound: 'صادرة',
+  fromCountry: (name) => `من ${name}`,
+  toCountry: (name) => `إلى ${name}`,
+
+  hubs: 'المراكز',
+  reset: 'إعادة تعيين',
+  edit: 'تعديل',
+  noHubs: 'لا توجد مراكز مهيأة',
+  hubName: 'اسم المركز',
+  hubCountry: 'دولة المركز',
+  hubType: 'نوع المركز',
+  hubImportance: 'أهمية المركز',
+  addHub: 'إضافة مركز',
+  newHub: 'مركز جديد',
+  cancel: 'إلغاء',
+  save: 'حفظ',
+  hubTypes: { primary: 'رئيسي', secondary: 'ثانوي' },
+  hubSummary: (type, importance, total) => `مركز ${type} · الأهمية ${importance} · ${total} هجوم`,
+  rateTitle: (count, window) => `${count} هجوم في آخر ${window}`,
+  perMinute: '/دقيقة',
+  topAttackers: 'أبرز المهاجمين',
+
+  importFile: (name) => `استيراد ${name}`,
+  format: 'الصيغة',
+  notInFile: '(غير موجود في الملف)',
+  csvMappingHint: '* يمكن ترك source وtarget دون ربط عند ربط sourceIp وtargetIp',
+  converting: 'جارٍ التحويل…',
+  importFailed: (error) => `فشل الاستيراد: ${error}`,
+  attacksReady: (count) => `${count} هجوم جاهز للاستيراد`,
+  skipped: (count) => `، وتم تخطي ${count}`,
+  importAction: 'استيراد',
+  importErrors: {
+    line: (line) => `السطر ${line}`,
+    bundle: 'الحزمة',
+    skipped: (where, reason) => `${where}: ${reason}`,
+    unknownCountry: (field, value) => `دولة ${field} غير معروفة "${value}"`,
+    missingField: (field) => `${field} مفقود`,
+    noGeoIpDatabase: (field, ip) => `لا توجد قاعدة بيانات GeoIP لتحديد ${field} "${ip}"`,
+    addressNotFound: (field, ip) => `${field} "${ip}" غير موجود في قاعدة بيانات GeoIP`,
+    invalidTimestamp: (value) => `وقت غير صالح "${value}"`,
+    unknownSeverity: (value) => `خطورة غير معروفة "${value}"`,
+    invalidDuration: (value) => `مدة غير صالحة "${value}"`,
+    invalidJson: 'JSON غير صالح',
+    notJsonObject: 'ليس كائن JSON',
+    notStixBundle: 'ليست حزمة STIX',
+    unknownSightingRef: (ref) => `sighting_of_ref غير معروف "${ref}"`
+  },
+
+  play: 'تشغيل',
+  playReplay: 'تشغيل الإعادة',
+  pauseReplay: 'إيقاف الإعادة مؤقتًا',
+  replayTime: 'وقت الإعادة',
+  replaySpeed: 'سرعة الإعادة',
+  active: (count) => `${count} نشط`,
+  zoomIn: 'تكبير',
+  zoomOut: 'تصغير',
+  resetZoom: 'إعادة ضبط التكبير',
+  mapOverview: 'نظرة عامة على الخريطة',
+
+  flowAggregation: 'دمج الأقواس',
+  flowAggregations: { none: 'قوس لكل هجوم', country: 'دمج حسب زوج الدول', region: 'دمج حسب زوج المناطق' },
+  flowWindow: 'فترة الدمج',
+  bundleArcs: 'تجميع الأقواس',
+  flowTitle: (count) => `${count} هجوم`,
+  flowLabel: (count, source, target, severity) => `${count} هجوم من ${source} إلى ${target}، أعلى خطورة ${severity}`,
+  worstSeverity: 'أعلى خطورة',
+  timeWindow: 'الفترة',
+  route: (source, target) => `من ${source} إلى ${target}`,
+
+  cyberThreats: 'التهديدات السيبرانية',
+  severityLegend: (severity) => `الخطورة: ${severity}`
+};
+
+export const EN_LOCALE: MapLocale = {
+  tag: 'en',
+  dir: 'ltr',
+  // English names come from countryCoordinates.json and world.json
+  countries: {},
+  regions: {},
+  severities: { low: 'low', medium: 'medium', high: 'high', critical: 'critical' },
+  threatTypes: {},
+  messages: EN_MESSAGES
+};
+
+export const JA_LOCALE: MapLocale = {
+  tag: 'ja',
+  dir: 'ltr',
+  countries: countryNames.ja,
+  regions: {
+    'eastern-asia': '東アジア',
+    'south-eastern-asia': '東南アジア',
+    'southern-asia': '南アジア',
+    'central-asia': '中央アジア',
+    'western-asia': '西アジア',
+    'eastern-europe': '東ヨーロッパ',
+    'northern-europe': '北ヨーロッパ',
+    'southern-europe': '南ヨーロッパ',
+    'western-europe': '西ヨーロッパ',
+    'northern-america': '北アメリカ',
+    'central-america': '中央アメリカ',
+    'caribbean': 'カリブ',
+    'south-america': '南アメリカ',
+    'northern-africa': '北アフリカ',
+    'western-africa': '西アフリカ',
+    'middle-africa': '中部アフリカ',
+    'eastern-africa': '東アフリカ',
+    'southern-africa': '南部アフリカ',
+    'australia-new-zealand': 'オーストラリア・ニュージーランド',
+    'pacific-islands': '太平洋諸島'
+  },
+  severities: { low: '低', medium: '中', high: '高', critical: '重大' },
+  threatTypes: {
+    'DDoS': 'DDoS 攻撃',
+    'Malware': 'マルウェア',
+    'Phishing': 'フィッシング',
+    'Cyber Espionage': 'サイバー諜報',
+    'Data Breach': 'データ侵害',
+    'Infrastructure Attack': 'インフラ攻撃',
+    'Supply Chain Attack': 'サプライチェーン攻撃',
+    'Election Interference': '選挙干渉',
+    'Banking Trojan': 'バンキング型トロイの木馬',
+    'Wiper Attack': 'ワイパー攻撃',
+    'IP Theft': '知的財産の窃取',
+    'Social Engineering': 'ソーシャルエンジニアリング'
+  },
+  messages: JA_MESSAGES
+};
+
+export const AR_LOCALE: MapLocale = {
+  tag: 'ar',
+  dir: 'rtl',
+  countries: countryNames.ar,
+  regions: {
+    'eastern-asia': 'شرق آسيا',
+    'south-eastern-asia': 'جنوب شرق آسيا',
+    'southern-asia': 'جنوب آسيا',
+    'central-asia': 'آسيا الوسطى',
+    'western-asia': 'غرب آسيا',
+    'eastern-europe': 'أوروبا الشرقية',
+    'northern-europe': 'أوروبا الشمالية',
+    'southern-europe': 'أوروبا الجنوبية',
+    'western-europe': 'أوروبا الغربية',
+    'northern-america': 'أمريكا الشمالية',
+    'central-america': 'أمريكا الوسطى',
+    'caribbean': 'الكاريبي',
+    'south-america': 'أمريكا الجنوبية',
+    'northern-africa': 'شمال أفريقيا',
+    'western-africa': 'غرب أفريقيا',
+    'middle-africa': 'وسط أفريقيا',
+    'eastern-africa': 'شرق أفريقيا',
+    'southern-africa': 'الجنوب الأفريقي',
+    'australia-new-zealand': 'أستراليا ونيوزيلندا',
+    'pacific-islands': 'جزر المحيط الهادئ'
+  },
+  severities: { low: 'منخفضة', medium: 'متوسطة', high: 'مرتفعة', critical: 'حرجة' },
+  threatTypes: {
+    'DDoS': 'هجوم حجب الخدمة',
+    'Malware': 'برمجيات خبيثة',
+    'Phishing': 'تصيد احتيالي',
+    'Cyber Espionage': 'تجسس إلكتروني',
+    'Data Breach': 'اختراق بيانات',
+    'Infrastructure Attack': 'هجوم على البنية التحتية',
+    'Supply Chain Attack': 'هجوم على سلسلة التوريد',
+    'Election Interference': 'تدخل في الانتخابات',
+    'Banking Trojan': 'حصان طروادة مصرفي',
+    'Wiper Attack': 'هجوم مسح البيانات',
+    'IP Theft': 'سرقة الملكية الفكرية',
+    'Social Engineering': 'هندسة اجتماعية'
+  },
+  messages: AR_MESSAGES
+};
+
+export const MAP_LOCALES: { [key in MapLocaleName]: MapLocale } = {
+  en: EN_LOCALE,
+  ja: JA_LOCALE,
+  ar: AR_LOCALE
+};
+
+// Locale for a configured name such as an environment variable, falling back to English
+export const toMapLocaleName = (value: string | undefined): MapLocaleName =>
+  value !== undefined && Object.hasOwn(MAP_LOCALES, value) ? value as MapLocaleName : 'en';
+
+// Entry of a locale table; names from imported data such as `constructor` are not inherited keys
+const localized = (table: { [key: string]: string }, key: string) =>
+  Object.hasOwn(table, key) ? table[key] : undefined;
+
+// Name of a country in the locale, else its English name. `fallback` (e.g. a world.json shape name)
+// is only used for codes no country is known by, so every locale names the same country.
+export const countryName = (locale: MapLocale, iso3: string, fallback?: string) =>
+  localized(locale.countries, iso3) ?? getCountryCoordinate(iso3)?.name ?? fallback ?? iso3;
+
+export const regionName = (locale: MapLocale, key: string) => localized(locale.regions, key) ?? getRegion(key)?.name ?? key;
+
+export const threatTypeLabel = (locale: MapLocale, type: string) => localized(locale.threatTypes, type) ?? type;
+
+export const severityLabel = (locale: MapLocale, severity: ThreatSeverity) => locale.severities[severity];
+
+// Display name of one end of an attack: "City, Country" when it is placed more precisely than its country.
+// City names come from the gazetteer and stay in English.
+export const attackPlaceName = (locale: MapLocale, attack: ThreatAttack, end: 'source' | 'target') => {
+  const country = countryName(locale, attack[end]);
+  const endpoint = resolveAttackEndpoint(attack, end);
+  return endpoint && endpoint.key !== endpoint.country && endpoint.name !== getCountryCoordinate(endpoint.country)?.name
+    ? locale.messages.place(endpoint.name, country)
+    : country;
+};
+
+// Intl formatters are costly to create, so each tag and option set is built once
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const dateFormats = new Map<string, Intl.DateTimeFormat>();
+
+const numberFormat = (locale: MapLocale, options: Intl.NumberFormatOptions = {}) => {
+  const key = `${locale.tag} ${JSON.stringify(options)}`;
+  if (!numberFormats.has(key)) numberFormats.set(key, new Intl.NumberFormat(locale.tag, options));
+  return numberFormats.get(key) as Intl.NumberFormat;
+};
+
+export const formatNumber = (locale: MapLocale, value: number) => numberFormat(locale).format(value);
+
+// Short form for axis ticks, e.g. 1.2K
+export const formatCompactNumber = (locale: MapLocale, value: number) =>
+  numberFormat(locale, { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+
+// Attack rate with two decimals below 10 per minute
+export const formatRate = (locale: MapLocale, perMinute: number) => {
+  const digits = perMinute >= 10 ? 0 : 2;
+  return numberFormat(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(perMinute);
+};
+
+// Length of a time window, e.g. "5 min" or "24 hours"
+export const formatDuration = (locale: MapLocale, duration: number) => {
+  const minutes = duration / 60000;
+  return minutes < 60
+    ? numberFormat(locale, { style: 'unit', unit: 'minute', unitDisplay: 'short' }).format(minutes)
+    : numberFormat(locale, { style: 'unit', unit: 'hour', unitDisplay: 'long' }).format(minutes / 60);
+};
+
+// Items joined the locale's way, e.g. "A, B, C"
+export const formatList = (locale: MapLocale, items: string[]) =>
+  new Intl.ListFormat(locale.tag, { style: 'short', type: 'unit' }).format(items);
+
+export type DateStyle = 'time' | 'minute' | 'second';
+
+// Shown fields per style: clock time only, or the date down to the minute or second. Always 24-hour.
+const DATE_STYLES: { [key in DateStyle]: Intl.DateTimeFormatOptions } = {
+  time: { hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23' },
+  minute: { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' },
+  second: { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23' }
+};
+
+const dateFormat = (locale: MapLocale, style: DateStyle, timeZone: string, zoned: boolean) => {
+  const key = `${locale.tag} ${style} ${timeZone} ${zoned}`;
+  if (!dateFormats.has(key)) {
+    dateFormats.set(key, new Intl.DateTimeFormat(locale.tag, {
+      ...DATE_STYLES[style],
+      timeZone,
+      ...(zoned ? { timeZoneName: 'short' } : {})
+    }));
+  }
+  return dateFormats.get(key) as Intl.DateTimeFormat;
+};
+
+// Date and time in the locale's order and digits, in `timeZone` (UTC unless given)
+export const formatDateTime = (locale: MapLocale, time: Date | number, style: DateStyle, timeZone = 'UTC') =>
+  dateFormat(locale, style, timeZone, false).format(time);
+
+// The same with the time zone's short name where the locale puts it, e.g. "2024/06/01 12:00 UTC"
+export const formatZonedDateTime = (locale: MapLocale, time: Date | number, style: DateStyle, timeZone = 'UTC') =>
+  dateFormat(locale, style, timeZone, true).format(time);
+
+// Short name of a time zone in the locale, e.g. "UTC" or "GMT+9"
+export const timeZoneLabel = (locale: MapLocale, timeZone = 'UTC', time: Date | number = Date.now()) =>
+  dateFormat(locale, 'time', timeZone, true).formatToParts(time).find(part => part.type === 'timeZoneName')?.value ?? timeZone;
@@ -0,0 +1,267 @@
+import * as d3 from 'd3';
+import threatData from '../data/threatData.json';
+import { INTENSITY_INTERPOLATOR } from './attackIntensity';
+import { ThreatData, ThreatHub, ThreatSeverity } from '../types/threat';
+
+export type MapThemeName = 'light' | 'dark' | 'colorblind';
+
+export const MAP_THEME_LABELS: { [key in MapThemeName]: string } = {
+  light: 'Light',
+  dark: 'Dark (SOC wall)',
+  colorblind: 'Colour-blind safe'
+};
+
+export interface MapTheme {
+  // CSS color-scheme, so native selects and scrollbars follow the theme
+  colorScheme: 'light' | 'dark';
+  background: string;
+  // Ocean disc behind the globe
+  ocean: string;
+  land: string;
+  border: string;
+  // Outline of the hovered country (its fill on WorldMap)
+  hover: string;
+  pointer: string;
+  hubs: { [key in ThreatHub['type']]: string };
+  // Text drawn on the map, e.g. hub names, and the halo that keeps it readable over the land
+  label: string;
+  labelHalo: string;
+  severity: { [key in ThreatSeverity]: string };
+  // Threat type colours in threatData.json order, repeated when there are more types
+  threatTypes: string[];
+  // WorldMap's legacy country groups (randomcountries.json)
+  countryGroups: string[];
+  // Choropleth colour for 0..1
+  intensity: (t: number) => string;
+  // Floating HTML panels: toolbar, filters, feed, legend, drawers
+  panel: {
+    background: string;
+    text: string;
+    secondary: string;
+    muted: string;
+    border: string;
+    selected: string;
+    // Attacks into and out of the country open in the drawer
+    inbound: string;
+    outbound: string;
+    // Failed imports and exports
+    error: string;
+  };
+  tooltip: {
+    background: string;
+    text: string;
+    textShadow: string;
+    shadow: string;
+  };
+  // Dark badges: the attack counter and WorldMap's threat legend
+  badge: {
+    background: string;
+    border: string;
+    flash: string;
+    value: string;
+    text: string;
+    muted: string;
+  };
+}
+
+const threats = threatData as ThreatData;
+
+const LIGHT_THEME: MapTheme = {
+  colorScheme: 'light',
+  background: '#ffffff',
+  ocean: '#eef3f7',
+  land: '#cccccc',
+  border: '#999999',
+  hover: '#6a6e6d',
+  pointer: '#ff0000',
+  hubs: { primary: '#ff0000', secondary: '#ff8800' },
+  label: '#222222',
+  labelHalo: '#ffffff',
+  severity: {
+    low: threats.severityLevels.low.color,
+    medium: threats.severityLevels.medium.color,
+    high: threats.severityLevels.high.color,
+    critical: threats.severityLevels.critical.color
+  },
+  threatTypes: Object.values(threats.threatTypes).map(config => config.color),
+  countryGroups: ['#000000', '#F5E9CA', '#6DA690', '#BAC366', '#FE4D57', '#1D0463'],
+  intensity: INTENSITY_INTERPOLATOR,
+  panel: {
+    background: 'rgba(255, 255, 255, 0.95)',
+    text: '#222',
+    secondary: '#444',
+    muted: '#888',
+    border: '#eee',
+    selected: '#fff2e0',
+    inbound: '#cc0000',
+    outbound: '#1f6fb2',
+    error: '#aa0000'
+  },
+  tooltip: {
+    background: '#fff',
+    text: '#222',
+    textShadow: '#f5f5f5 0 1px 0',
+    shadow: '0 2px 4px rgba(0,0,0,0.1)'
+  },
+  badge: {
+    background: 'rgba(0, 0, 0, 0.9)',
+    border: '#aa0000',
+    flash: '#ff4444',
+    value: '#ff0000',
+    text: '#fff',
+    muted: '#aaa'
+  }
+};
+
+// Neon on near-black for wall displays in dark rooms
+const DARK_THEME: MapTheme = {
+  colorScheme: 'dark',
+  background: '#05070d',
+  ocean: '#081020',
+  land: '#1b2436',
+  border: '#34435e',
+  hover: '#00e5ff',
+  pointer: '#ff2e63',
+  hubs: { primary: '#ff2e63', secondary: '#ffb000' },
+  label: '#e6edf7',
+  labelHalo: '#05070d',
+  severity: { low: '#00e5ff', medium: '#c6ff00', high: '#ffb000', critical: '#ff2e63' },
+  threatTypes: [
+    '#00e5ff', '#ff2e63', '#c6ff00', '#ffb000', '#b388ff', '#00ffa3',
+    '#ff6ec7', '#40c4ff', '#ffd740', '#ff9e80', '#69f0ae', '#ea80fc'
+  ],
+  countryGroups: ['#0b0f1a', '#1b2436', '#23304a', '#2c3b5a', '#3a2440', '#152a3a'],
+  // Skip the near-black start of Inferno, which would vanish into the background
+  intensity: t => d3.interpolateInferno(0.2 + t * 0.8),
+  panel: {
+    background: 'rgba(12, 18, 32, 0.92)',
+    text: '#e6edf7',
+    secondary: '#aab6cc',
+    muted: '#7c8aa5',
+    border: '#2a3650',
+    selected: '#1f2d4a',
+    inbound: '#ff2e63',
+    outbound: '#00e5ff',
+    error: '#ff7a9a'
+  },
+  tooltip: {
+    background: '#0c1220',
+    text: '#e6edf7',
+    textShadow: 'none',
+    shadow: '0 0 8px rgba(0, 229, 255, 0.35)'
+  },
+  badge: {
+    background: 'rgba(0, 0, 0, 0.9)',
+    border: '#ff2e63',
+    flash: '#ff7a9a',
+    value: '#ff2e63',
+    text: '#e6edf7',
+    muted: '#8a94a8'
+  }
+};
+
+// Okabe-Ito colours: severities run from blue to vermillion, which stay apart for red-green colour blindness,
+// and the choropleth uses Cividis
+const COLORBLIND_THEME: MapTheme = {
+  ...LIGHT_THEME,
+  land: '#d4d4d4',
+  border: '#8c8c8c',
+  hover: '#000000',
+  pointer: '#D55E00',
+  hubs: { primary: '#D55E00', secondary: '#0072B2' },
+  severity: { low: '#56B4E9', medium: '#0072B2', high: '#E69F00', critical: '#D55E00' },
+  threatTypes: ['#E69F00', '#56B4E9', '#009E73', '#F0E442', '#0072B2', '#D55E00', '#CC79A7', '#000000'],
+  countryGroups: ['#000000', '#F0E442', '#56B4E9', '#009E73', '#E69F00', '#0072B2'],
+  intensity: t => d3.interpolateCividis(1 - t),
+  panel: {
+    ...LIGHT_THEME.panel,
+    inbound: '#D55E00',
+    outbound: '#0072B2'
+  },
+  badge: {
+    ...LIGHT_THEME.badge,
+    border: '#D55E00',
+    flash: '#E69F00',
+    value: '#E69F00'
+  }
+};
+
+export const MAP_THEMES: { [key in MapThemeName]: MapTheme } = {
+  light: LIGHT_THEME,
+  dark: DARK_THEME,
+  colorblind: COLORBLIND_THEME
+};
+
+const THREAT_TYPE_ORDER = Object.keys(threats.threatTypes);
+
+// Colour of a threat type; types missing from threatData.json take the palette's last colour
+export const threatTypeColor = (theme: MapTheme, type: string) => {
+  const index = THREAT_TYPE_ORDER.indexOf(type);
+  const palette = theme.threatTypes;
+  return palette[(index >= 0 ? index : palette.length - 1) % palette.length];
+};
+
+// CSS custom properties set on a themed map's container, read by the HTML panels inside it
+export const themeCssVariables = (theme: MapTheme): { [key: string]: string } => ({
+  '--map-ocean': theme.ocean,
+  '--map-land': theme.land,
+  '--map-pointer': theme.pointer,
+  '--map-hub-primary': theme.hubs.primary,
+  '--map-hub-secondary': theme.hubs.secondary,
+  '--map-panel-background': theme.panel.background,
+  '--map-panel-text': theme.panel.text,
+  '--map-panel-secondary': theme.panel.secondary,
+  '--map-panel-muted': theme.panel.muted,
+  '--map-panel-border': theme.panel.border,
+  '--map-panel-selected': theme.panel.selected,
+  '--map-panel-inbound': theme.panel.inbound,
+  '--map-panel-outbound': theme.panel.outbound,
+  '--map-panel-error': theme.panel.error,
+  '--map-badge-background': theme.badge.background,
+  '--map-badge-border': theme.badge.border,
+  '--map-badge-flash': theme.badge.flash,
+  '--map-badge-value': theme.badge.value,
+  '--map-badge-text': theme.badge.text,
+  '--map-badge-muted': theme.badge.muted,
+  ...Object.fromEntries(Object.entries(theme.severity).map(([severity, color]) => [`--map-severity-${severity}`, color])),
+  ...Object.fromEntries(THREAT_TYPE_ORDER.map(type => [`--map-type-${type.replace(/\W+/g, '-')}`, threatTypeColor(theme, type)]))
+});
+
+// Inline style values for HTML drawn inside a themed map; outside one they fall back to the light theme.
+// Custom properties only work in CSS, so SVG colours take them through `style`, not presentation attributes.
+export const MAP_COLORS = {
+  ocean: `var(--map-ocean, ${LIGHT_THEME.ocean})`,
+  land: `var(--map-land, ${LIGHT_THEME.land})`,
+  pointer: `var(--map-pointer, ${LIGHT_THEME.pointer})`,
+  hubs: {
+    primary: `var(--map-hub-primary, ${LIGHT_THEME.hubs.primary})`,
+    secondary: `var(--map-hub-secondary, ${LIGHT_THEME.hubs.secondary})`
+  } as { [key in ThreatHub['type']]: string }
+};
+
+export const PANEL_COLORS = {
+  background: `var(--map-panel-background, ${LIGHT_THEME.panel.background})`,
+  text: `var(--map-panel-text, ${LIGHT_THEME.panel.text})`,
+  secondary: `var(--map-panel-secondary, ${LIGHT_THEME.panel.secondary})`,
+  muted: `var(--map-panel-muted, ${LIGHT_THEME.panel.muted})`,
+  border: `var(--map-panel-border, ${LIGHT_THEME.panel.border})`,
+  selected: `var(--map-panel-selected, ${LIGHT_THEME.panel.selected})`,
+  inbound: `var(--map-panel-inbound, ${LIGHT_THEME.panel.inbound})`,
+  outbound: `var(--map-panel-outbound, ${LIGHT_THEME.panel.outbound})`,
+  error: `var(--map-panel-error, ${LIGHT_THEME.panel.error})`
+};
+
+export const BADGE_COLORS = {
+  background: `var(--map-badge-background, ${LIGHT_THEME.badge.background})`,
+  border: `var(--map-badge-border, ${LIGHT_THEME.badge.border})`,
+  flash: `var(--map-badge-flash, ${LIGHT_THEME.badge.flash})`,
+  value: `var(--map-badge-value, ${LIGHT_THEME.badge.value})`,
+  text: `var(--map-badge-text, ${LIGHT_THEME.badge.text})`,
+  muted: `var(--map-badge-muted, ${LIGHT_THEME.badge.muted})`
+};
+
+export const severityColorVar = (severity: string) =>
+  `var(--map-severity-${severity}, ${LIGHT_THEME.severity[severity as ThreatSeverity] ?? '#999'})`;
+
+export const threatTypeColorVar = (type: string) =>
+  `var(--map-type-${type.replace(/\W+/g, '-')}, ${threatTypeColor(LIGHT_THEME, type)})`;
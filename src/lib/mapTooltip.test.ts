@@ -0,0 +1,105 @@
+// @vitest-environment jsdom
+import * as d3 from 'd3';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AttackFlow } from './attackFlows';
+import { EN_LOCALE } from './mapLocales';
+import {
+  TooltipContent,
+  attackTooltipContent,
+  clampTooltipPosition,
+  flowTooltipContent,
+  gdpTooltipContent,
+  renderTooltip
+} from './mapTooltip';
+import { ThreatAttack } from '../types/threat';
+
+const IMG = '<img src=x onerror="window.injected = true">';
+const SCRIPT = '<script>window.injected = true</script>';
+
+const attack: ThreatAttack = {
+  id: 'A1',
+  source: 'CHN',
+  target: 'USA',
+  type: IMG,
+  severity: 'high',
+  timestamp: '2024-06-01T12:00:00.000Z',
+  duration: 3000,
+  description: SCRIPT,
+  sourceIp: IMG,
+  targetLocation: { city: SCRIPT }
+};
+
+const render = (content: TooltipContent) => {
+  const element = document.createElement('div');
+  document.body.appendChild(element);
+  renderTooltip(d3.select(element), content);
+  return element;
+};
+
+// Nothing but the elements the tooltip builds itself, with the markup left as text
+const expectOnlyText = (element: HTMLElement, ...strings: string[]) => {
+  expect(element.querySelectorAll('img, script')).toHaveLength(0);
+  element.querySelectorAll('*').forEach(child => {
+    expect(['DIV', 'SPAN', 'STRONG', 'UL', 'LI']).toContain(child.tagName);
+    expect(child.getAttributeNames().filter(name => name.startsWith('on'))).toEqual([]);
+  });
+  strings.forEach(text => expect(element.textContent).toContain(text));
+};
+
+afterEach(() => {
+  document.body.replaceChildren();
+});
+
+describe('renderTooltip', () => {
+  it('writes attack fields as text', () => {
+    const content = attackTooltipContent(attack, EN_LOCALE, '#f00', [{ label: 'Address', template: '{sourceIp}' }]);
+    expectOnlyText(render(content), IMG, SCRIPT);
+  });
+
+  it('writes the attacks of a flow as text', () => {
+    const flow: AttackFlow = {
+      key: 'eastern-asia>northern-america@0',
+      source: { kind: 'region', code: 'eastern-asia', lat: 35, lng: 115 },
+      target: { kind: 'region', code: 'northern-america', lat: 40, lng: -100 },
+      start: Date.parse('2024-06-01T12:00:00Z'),
+      end: Date.parse('2024-06-01T13:00:00Z'),
+      attacks: [attack, { ...attack, id: 'A2', type: SCRIPT }],
+      severity: 'high'
+    };
+    const element = render(flowTooltipContent(flow, EN_LOCALE, '#f00'));
+    expectOnlyText(element, IMG, SCRIPT);
+    expect(element.querySelectorAll('li')).toHaveLength(2);
+  });
+
+  it('writes GDP country names as text', () => {
+    expectOnlyText(render(gdpTooltipContent(IMG, '+1.5')), IMG, 'GDP: +1.5%');
+    expectOnlyText(render(gdpTooltipContent(SCRIPT, null)), SCRIPT, 'no data');
+  });
+
+  it('replaces what the tooltip showed before', () => {
+    const element = render(gdpTooltipContent('France', '+1.5'));
+    renderTooltip(d3.select(element), gdpTooltipContent('Spain', null));
+    expect(element.textContent).toBe('SpainGDP: no data');
+  });
+});
+
+describe('clampTooltipPosition', () => {
+  const bounds = { left: 0, top: 0, right: 800, bottom: 600 };
+
+  it('places the tooltip at the offset from the point', () => {
+    expect(clampTooltipPosition([100, 100], [10, -40], 120, 60, bounds)).toEqual({ left: 110, top: 60 });
+  });
+
+  it('flips to the other side of the point at the right and bottom edges', () => {
+    expect(clampTooltipPosition([750, 100], [10, -40], 120, 60, bounds)).toEqual({ left: 620, top: 60 });
+    expect(clampTooltipPosition([100, 580], [10, 5], 120, 60, bounds)).toEqual({ left: 110, top: 515 });
+  });
+
+  it('keeps the tooltip inside the bounds, with a margin', () => {
+    expect(clampTooltipPosition([5, 10], [10, -40], 120, 60, bounds)).toEqual({ left: 15, top: 4 });
+    expect(clampTooltipPosition([400, 300], [10, -40], 900, 60, bounds)).toEqual({ left: 4, top: 260 });
+    // Bounds of a map that is partly scrolled off screen
+    expect(clampTooltipPosition([100, 100], [10, -40], 120, 60, { left: 200, top: 80, right: 800, bottom: 600 }))
+      .toEqual({ left: 204, top: 84 });
+  });
+});
@@ -0,0 +1,231 @@
+import * as d3 from 'd3';
+import { AttackFlow, FlowEnd } from './attackFlows';
+import {
+  MapLocale,
+  attackPlaceName,
+  countryName,
+  formatDateTime,
+  formatNumber,
+  formatZonedDateTime,
+  regionName,
+  severityLabel,
+  threatTypeLabel
+} from './mapLocales';
+import { ThreatAttack } from '../types/threat';
+
+// Typed tooltip content. It is only ever written into the page as text, so attack fields
+// from an external feed cannot inject markup.
+export interface TooltipRow {
+  label: string;
+  value: string;
+  // Coloured value instead of a bold one
+  color?: string;
+}
+
+export interface TooltipContent {
+  title: string;
+  titleColor?: string;
+  rows: TooltipRow[];
+  // Smaller free text under the rows
+  note?: string;
+  // Short lines listed under the rows, e.g. the attacks in a flow
+  items?: string[];
+}
+
+// Extra line in the attack tooltip, configured per deployment. `{field}` placeholders in the template
+// are replaced by the attack's fields, nested ones with dots, e.g. "{sourceIp} → {targetIp}" or
+// "{sourceLocation.city}". The line is left out when any of its fields is missing.
+export interface AttackTooltipField {
+  label: string;
+  template: string;
+}
+
+export const DEFAULT_TOOLTIP_FIELDS: AttackTooltipField[] = [];
+
+const PLACEHOLDER = /\{([\w.]+)\}/g;
+
+// Value at a dotted path of the attack, if it is text or a number
+const attackField = (attack: ThreatAttack, path: string) => {
+  const value = path.split('.').reduce<unknown>(
+    (object, key) => (object !== null && typeof object === 'object' ? (object as { [key: string]: unknown })[key] : undefined),
+    attack
+  );
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+};
+
+export const fillTooltipTemplate = (template: string, attack: ThreatAttack): string | null => {
+  let missing = false;
+  const text = template.replace(PLACEHOLDER, (_, path: string) => {
+    const value = attackField(attack, path);
+    if (value === null || value === '') missing = true;
+    return value ?? '';
+  });
+  return missing ? null : text;
+};
+
+export const countryTooltipContent = (name: string): TooltipContent => ({ title: name, rows: [] });
+
+// Country on the GDP map with its growth, already formatted; null when the year has no data
+export const gdpTooltipContent = (name: string, growth: string | null): TooltipContent => ({
+  title: name,
+  rows: [{ label: 'GDP', value: growth === null ? 'no data' : `${growth}%` }]
+});
+
+// Type, endpoints and severity of an attack in the locale, then the configured fields and its description
+export const attackTooltipContent = (
+  attack: ThreatAttack,
+  locale: MapLocale,
+  color: string,
+  fields: AttackTooltipField[] = DEFAULT_TOOLTIP_FIELDS
+): TooltipContent => {
+  const { messages } = locale;
+  const extraRows = fields.flatMap(({ label, template }) => {
+    const value = fillTooltipTemplate(template, attack);
+    return value === null ? [] : [{ label, value }];
+  });
+
+  return {
+    title: threatTypeLabel(locale, attack.type),
+    titleColor: color,
+    rows: [
+      { label: messages.from, value: attackPlaceName(locale, attack, 'source') },
+      { label: messages.to, value: attackPlaceName(locale, attack, 'target') },
+      { label: messages.severity, value: severityLabel(locale, attack.severity).toUpperCase(), color },
+      ...extraRows
+    ],
+    note: attack.description
+  };
+};
+
+// Name of a flow end in the locale
+export const flowEndName = (locale: MapLocale, end: FlowEnd) =>
+  end.kind === 'region' ? regionName(locale, end.code) : countryName(locale, end.code);
+
+// Attacks listed in a flow tooltip before the rest are summarised
+const MAX_FLOW_ITEMS = 8;
+
+// Ends, worst severity and time window of a flow, then its newest attacks. Region flows also
+// name the countries of each attack.
+export const flowTooltipContent = (flow: AttackFlow, locale: MapLocale, color: string): TooltipContent => {
+  const { messages } = locale;
+  const newest = flow.attacks.slice(-MAX_FLOW_ITEMS).reverse();
+  const items = newest.map(attack => {
+    const line = `${formatDateTime(locale, Date.parse(attack.timestamp), 'time')} ${threatTypeLabel(locale, attack.type)} (${severityLabel(locale, attack.severity)})`;
+    const regional = flow.source.kind === 'region' || flow.target.kind === 'region';
+    return regional
+      ? `${line} · ${messages.route(attackPlaceName(locale, attack, 'source'), attackPlaceName(locale, attack, 'target'))}`
+      : line;
+  });
+  if (flow.attacks.length > MAX_FLOW_ITEMS) items.push(messages.andMore(formatNumber(locale, flow.attacks.length - MAX_FLOW_ITEMS)));
+
+  return {
+    title: messages.flowTitle(formatNumber(locale, flow.attacks.length)),
+    titleColor: color,
+    rows: [
+      { label: messages.from, value: flowEndName(locale, flow.source) },
+      { label: messages.to, value: flowEndName(locale, flow.target) },
+      { label: messages.worstSeverity, value: severityLabel(locale, flow.severity).toUpperCase(), color },
+      {
+        label: messages.timeWindow,
+        value: `${formatDateTime(locale, flow.start, 'minute')} – ${formatZonedDateTime(locale, flow.end, 'minute')}`
+      }
+    ],
+    items
+  };
+};
+
+// Replace the tooltip's children with the content, built as DOM nodes with text only
+export const renderTooltip = (
+  tooltip: d3.Selection<HTMLDivElement, unknown, null, undefined>,
+  content: TooltipContent
+) => {
+  tooltip.selectChildren().remove();
+
+  const title = tooltip.append("div")
+    .attr("class", "map-tooltip-title")
+    .style("font-weight", "bold")
+    .text(content.title);
+  if (content.titleColor) title.style("color", content.titleColor);
+
+  content.rows.forEach(({ label, value, color }) => {
+    const line = tooltip.append("div").style("margin", "3px 0").text(`${label}: `);
+    if (color) line.append("span").style("color", color).text(value);
+    else line.append("strong").text(value);
+  });
+
+  if (content.items?.length) {
+    const list = tooltip.append("ul")
+      .style("margin", "6px 0 0")
+      .style("padding-inline-start", "16px")
+      .style("font-size", "11px");
+    content.items.forEach(item => list.append("li").text(item));
+  }
+
+  if (content.note) {
+    tooltip.append("div")
+      .style("margin-top", "8px")
+      .style("font-size", "11px")
+      .style("line-height", "1.3")
+      .text(content.note);
+  }
+};
+
+// Gap kept between a tooltip and the edges of the visible area
+const EDGE_MARGIN = 4;
+
+export interface TooltipBounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Position of a tooltip `offset` away from a point, flipped to the other side of the point
+// where it would cross the right or bottom edge, then clamped inside the bounds
+export const clampTooltipPosition = (
+  [x, y]: [number, number],
+  [offsetX, offsetY]: [number, number],
+  width: number,
+  height: number,
+  bounds: TooltipBounds
+) => {
+  let left = x + offsetX;
+  if (left + width > bounds.right - EDGE_MARGIN) left = x - Math.abs(offsetX) - width;
+  let top = y + offsetY;
+  if (top + height > bounds.bottom - EDGE_MARGIN) top = y - Math.abs(offsetY) - height;
+
+  return {
+    left: Math.max(bounds.left + EDGE_MARGIN, Math.min(left, bounds.right - EDGE_MARGIN - width)),
+    top: Math.max(bounds.top + EDGE_MARGIN, Math.min(top, bounds.bottom - EDGE_MARGIN - height))
+  };
+};
+
+// Move a shown tooltip next to a point given in its offset parent's pixels, inside the part of
+// that parent which is on screen
+export const placeTooltip = (element: HTMLElement, point: [number, number], offset: [number, number]) => {
+  const parent = element.offsetParent;
+  const rect = parent?.getBoundingClientRect() ?? { left: 0, top: 0, width: window.innerWidth, height: window.innerHeight };
+  const bounds = {
+    left: Math.max(0, -rect.left),
+    top: Math.max(0, -rect.top),
+    right: Math.min(rect.width, window.innerWidth - rect.left),
+    bottom: Math.min(rect.height, window.innerHeight - rect.top)
+  };
+
+  const { left, top } = clampTooltipPosition(point, offset, element.offsetWidth, element.offsetHeight, bounds);
+  element.style.left = `${left}px`;
+  element.style.top = `${top}px`;
+};
+
+// Fill the tooltip with the content and show it next to a point
+export const showTooltip = (
+  tooltip: d3.Selection<HTMLDivElement, unknown, null, undefined>,
+  content: TooltipContent,
+  point: [number, number],
+  offset: [number, number]
+) => {
+  renderTooltip(tooltip, content);
+  tooltip.style("display", "block");
+  const element = tooltip.node();
+  if (element) placeTooltip(element, point, offset);
+};
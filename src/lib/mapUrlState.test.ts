@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_FILTERS } from './attackFilters';
+import { MapUrlState, formatMapUrlState, parseMapUrlState } from './mapUrlState';
+
+describe('formatMapUrlState', () => {
+  it('leaves out empty filters and unset fields', () => {
+    expect(formatMapUrlState({ filters: EMPTY_FILTERS })).toBe('');
+    expect(formatMapUrlState({ zoom: 1, filters: EMPTY_FILTERS })).toBe('');
+  });
+
+  it('writes a readable query, rounding the view and the clock', () => {
+    expect(formatMapUrlState({
+      mode: 'replay',
+      projection: 'globe',
+      zoom: 2.345,
+      centre: [103.8198, 1.3521],
+      filters: { ...EMPTY_FILTERS, severities: ['high', 'critical'], sources: ['CHN'] },
+      time: Date.parse('2024-06-01T12:00:00.600Z')
+    })).toBe('mode=replay&projection=globe&zoom=2.35&at=103.82,1.35&severity=high,critical&source=CHN&t=2024-06-01T12:00:01Z');
+  });
+});
+
+describe('parseMapUrlState', () => {
+  it('reads back every field it wrote', () => {
+    const state: MapUrlState = {
+      mode: 'live',
+      projection: 'mercator',
+      zoom: 3.5,
+      centre: [-77.04, 38.9],
+      filters: { severities: ['low'], types: ['DDoS', 'Phishing'], sources: ['RUS'], targets: ['USA', 'GBR'] },
+      time: Date.parse('2024-06-01T12:00:00Z'),
+      country: 'DEU',
+      attack: 'ATK-42'
+    };
+    expect(parseMapUrlState(formatMapUrlState(state))).toEqual(state);
+    expect(parseMapUrlState(`?${formatMapUrlState(state)}`)).toEqual(state);
+  });
+
+  it('upper-cases country codes and clamps the zoom', () => {
+    expect(parseMapUrlState('source=chn, rus&country=jpn&zoom=50')).toEqual({
+      zoom: 8,
+      country: 'JPN',
+      filters: { ...EMPTY_FILTERS, sources: ['CHN', 'RUS'] }
+    });
+  });
+
+  it('leaves out anything missing or invalid', () => {
+    expect(parseMapUrlState([
+      'mode=paused',
+      'projection=constructor',
+      'zoom=lots',
+      'at=200,10',
+      'severity=urgent,high',
+      't=yesterday',
+      `attack=${'x'.repeat(65)}`
+    ].join('&'))).toEqual({ filters: { ...EMPTY_FILTERS, severities: ['high'] } });
+    expect(parseMapUrlState('projection=toString').projection).toBeUndefined();
+  });
+});
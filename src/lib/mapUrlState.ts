@@ -0,0 +1,103 @@
+import threatData from '../data/threatData.json';
+import { AttackFilters, EMPTY_FILTERS } from './attackFilters';
+import { MAX_ZOOM, MIN_ZOOM } from './mapZoom';
+import { PROJECTION_LABELS, ProjectionType } from './projections';
+import { ThreatData, ThreatSeverity } from '../types/threat';
+
+// Static sample data, the live feed, or a replay of the recorded attacks
+export type MapMode = 'static' | 'live' | 'replay';
+
+export const MAP_MODES: MapMode[] = ['static', 'live', 'replay'];
+
+// Everything needed to show someone else the same map, as carried in the query string
+export interface MapUrlState {
+  mode?: MapMode;
+  projection?: ProjectionType;
+  zoom?: number;
+  // [lng, lat] at the centre of the view
+  centre?: [number, number];
+  filters: AttackFilters;
+  // Replay clock position in epoch ms, only used in replay mode
+  time?: number;
+  // ISO3 code of the country open in the drawer
+  country?: string;
+  attack?: string;
+}
+
+// Query parameter per filter dimension, each a comma-separated list
+const FILTER_PARAMS: { [key in keyof AttackFilters]: string } = {
+  severities: 'severity',
+  types: 'type',
+  sources: 'source',
+  targets: 'target'
+};
+
+const MAX_VALUE_LENGTH = 64;
+
+const list = (value: string | null) =>
+  (value ?? '').split(',').map(item => item.trim()).filter(item => item !== '' && item.length <= MAX_VALUE_LENGTH);
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// Read a query string (with or without the leading "?"); anything missing or invalid is left out
+export const parseMapUrlState = (query: string): MapUrlState => {
+  const params = new URLSearchParams(query);
+  const severities = Object.keys((threatData as ThreatData).severityLevels);
+  const state: MapUrlState = {
+    filters: {
+      ...EMPTY_FILTERS,
+      severities: list(params.get(FILTER_PARAMS.severities)).filter(
+        (severity): severity is ThreatSeverity => severities.includes(severity)
+      ),
+      types: list(params.get(FILTER_PARAMS.types)),
+      sources: list(params.get(FILTER_PARAMS.sources)).map(code => code.toUpperCase()),
+      targets: list(params.get(FILTER_PARAMS.targets)).map(code => code.toUpperCase())
+    }
+  };
+
+  const mode = params.get('mode');
+  if (MAP_MODES.includes(mode as MapMode)) state.mode = mode as MapMode;
+
+  const projection = params.get('projection');
+  if (projection !== null && Object.hasOwn(PROJECTION_LABELS, projection)) state.projection = projection as ProjectionType;
+
+  const zoom = Number(params.get('zoom'));
+  if (params.has('zoom') && Number.isFinite(zoom)) state.zoom = Math.min(Math.max(zoom, MIN_ZOOM), MAX_ZOOM);
+
+  const [lng, lat] = (params.get('at') ?? '').split(',').map(Number);
+  if (Number.isFinite(lng) && Number.isFinite(lat) && Math.abs(lng) <= 180 && Math.abs(lat) <= 90) {
+    state.centre = [lng, lat];
+  }
+
+  const time = Date.parse(params.get('t') ?? '');
+  if (!Number.isNaN(time)) state.time = time;
+
+  const country = params.get('country')?.trim().toUpperCase();
+  if (country && country.length <= MAX_VALUE_LENGTH) state.country = country;
+
+  const attack = params.get('attack')?.trim();
+  if (attack && attack.length <= MAX_VALUE_LENGTH) state.attack = attack;
+
+  return state;
+};
+
+// Query string (without "?") for a map state; empty filters and unset fields are left out
+export const formatMapUrlState = (state: MapUrlState): string => {
+  const params = new URLSearchParams();
+
+  if (state.mode) params.set('mode', state.mode);
+  if (state.projection) params.set('projection', state.projection);
+  if (state.zoom !== undefined && state.zoom !== 1) params.set('zoom', String(round(state.zoom, 2)));
+  if (state.centre) params.set('at', state.centre.map(value => round(value, 2)).join(','));
+
+  (Object.keys(FILTER_PARAMS) as (keyof AttackFilters)[]).forEach(key => {
+    if (state.filters[key].length > 0) params.set(FILTER_PARAMS[key], state.filters[key].join(','));
+  });
+
+  if (state.time !== undefined) params.set('t', new Date(Math.round(state.time / 1000) * 1000).toISOString().replace('.000Z', 'Z'));
+  if (state.country) params.set('country', state.country);
+  if (state.attack) params.set('attack', state.attack);
+
+  // Commas and colons are fine in a query and keep the link readable
+  return params.toString().replace(/%2C/g, ',').replace(/%3A/g, ':');
+};
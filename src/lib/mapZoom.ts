@@ -0,0 +1,37 @@
+import * as d3 from 'd3';
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 8;
+// Factor applied by the + and − buttons
+export const ZOOM_STEP = 1.6;
+export const ZOOM_DURATION = 750;
+
+// Zoom transform that centres a projected bounding box in the viewport, leaving a margin around it
+export const fitBounds = (
+  bounds: [[number, number], [number, number]],
+  width: number,
+  height: number,
+  padding = 0.1
+): d3.ZoomTransform => {
+  const [[x0, y0], [x1, y1]] = bounds;
+  const k = Math.max(
+    MIN_ZOOM,
+    Math.min(MAX_ZOOM, (1 - padding) / Math.max((x1 - x0) / width, (y1 - y0) / height))
+  );
+
+  return d3.zoomIdentity
+    .translate(width / 2, height / 2)
+    .scale(k)
+    .translate(-(x0 + x1) / 2, -(y0 + y1) / 2);
+};
+
+// Globe rotation that brings [lng, lat] to the centre, turning the short way round from `from`
+export const rotationTowards = (
+  from: [number, number, number],
+  [lng, lat]: [number, number]
+): [number, number, number] => {
+  let lambda = -lng;
+  while (lambda - from[0] > 180) lambda -= 360;
+  while (lambda - from[0] < -180) lambda += 360;
+  return [lambda, -lat, from[2]];
+};
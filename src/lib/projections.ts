@@ -0,0 +1,50 @@
+import * as d3 from 'd3';
+
+export type ProjectionType = 'mercator' | 'globe';
+
+export const PROJECTION_LABELS: { [key in ProjectionType]: string } = {
+  mercator: 'Flat map',
+  globe: 'Globe'
+};
+
+// Starting rotation for the globe, centred roughly on the Singapore hub
+const INITIAL_GLOBE_ROTATION: [number, number, number] = [-100, -10, 0];
+
+export const createProjection = (type: ProjectionType, width: number, height: number): d3.GeoProjection => {
+  const projection = type === 'globe'
+    ? d3.geoOrthographic()
+      .rotate(INITIAL_GLOBE_ROTATION)
+      .clipAngle(90)
+      .precision(0.5)
+    : d3.geoMercator();
+
+  return fitProjection(projection, width, height);
+};
+
+// Centre and scale a projection for a viewport in place, keeping its rotation
+export const fitProjection = (projection: d3.GeoProjection, width: number, height: number): d3.GeoProjection => {
+  if (projection.clipAngle()) {
+    return projection
+      .translate([width / 2, height / 2])
+      .scale(Math.min(width, height) / 2 - 20);
+  }
+
+  return projection
+    .translate([width / 2, height / 2])
+    .scale((width - 1) / 2 / Math.PI);
+};
+
+// Whether a [lng, lat] point lies on the visible side of a clipped projection (always true when unclipped)
+export const isPointVisible = (projection: d3.GeoProjection, point: [number, number]) => {
+  const clipAngle = projection.clipAngle();
+  if (!clipAngle) return true;
+
+  const [lambda, phi] = projection.rotate();
+  return d3.geoDistance(point, [-lambda, -phi]) <= (clipAngle * Math.PI) / 180;
+};
+
+// Project a [lng, lat] point, or return null when it is behind the horizon
+export const projectVisible = (projection: d3.GeoProjection, point: [number, number]): [number, number] | null => {
+  if (!isPointVisible(projection, point)) return null;
+  return projection(point);
+};
@@ -0,0 +1,79 @@
+// Shared type definitions for the threat map components, route handlers and data helpers
+
+export type ThreatSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface CountryFeature {
+  id: string;
+  properties: {
+    name: string;
+  };
+}
+
+export interface CountryCoordinate {
+  lat: number;
+  lng: number;
+  name: string;
+}
+
+// Position of an attack endpoint finer than its country: coordinates, a city from the
+// bundled gazetteer (src/data/cities.json), or both
+export interface AttackLocation {
+  lat?: number;
+  lng?: number;
+  city?: string;
+}
+
+export interface City {
+  name: string;
+  // ISO3 code
+  country: string;
+  lat: number;
+  lng: number;
+}
+
+export interface ThreatAttack {
+  id: string;
+  // ISO3 codes
+  source: string;
+  target: string;
+  type: string;
+  severity: ThreatSeverity;
+  timestamp: string;
+  duration: number;
+  description: string;
+  // Addresses seen in the telemetry, resolved to the countries above through the GeoIP table
+  sourceIp?: string;
+  targetIp?: string;
+  // Where the arc starts and ends instead of the country centroid
+  sourceLocation?: AttackLocation;
+  targetLocation?: AttackLocation;
+}
+
+export interface ThreatHub {
+  id: string;
+  country: string;
+  name: string;
+  type: 'primary' | 'secondary';
+  importance: number;
+}
+
+export interface ThreatTypeConfig {
+  color: string;
+  priority: number;
+}
+
+export interface SeverityConfig {
+  color: string;
+  strokeWidth: number;
+}
+
+export interface ThreatData {
+  hubs: ThreatHub[];
+  attacks: ThreatAttack[];
+  threatTypes: {
+    [key: string]: ThreatTypeConfig;
+  };
+  severityLevels: {
+    [key: string]: SeverityConfig;
+  };
+}
@@ -1,8 +0,0 @@
-var read_gdp() = function()
-{
-	d3.csv("dgp_growth.csv", function(gdp) {
-		data = gdp.map(function(d) {
-			
-		})
-	}
-}